@@ -0,0 +1,36 @@
+import {
+	pgTable,
+	text,
+	timestamp,
+	jsonb,
+	index,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import { tenant } from "./tenants";
+
+export const apiKey = pgTable(
+	"api_key",
+	{
+		id: text("id").primaryKey(),
+		name: text("name").notNull(),
+		prefix: text("prefix").notNull(), // Leading characters of the key, shown to tell keys apart
+		keyHash: text("key_hash").notNull(), // SHA-256 of the full key; the key itself is never stored
+		scopes: jsonb("scopes").$type<string[]>().notNull(),
+		createdBy: text("created_by")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		tenantId: text("tenant_id").references(() => tenant.id, {
+			onDelete: "cascade",
+		}), // Key can only act for this tenant; unset keys act for the deployment
+		rotatedFromId: text("rotated_from_id"),
+		expiresAt: timestamp("expires_at"),
+		lastUsedAt: timestamp("last_used_at"),
+		revokedAt: timestamp("revoked_at"),
+		createdAt: timestamp("created_at").notNull(),
+	},
+	(table) => [
+		uniqueIndex("api_key_key_hash_idx").on(table.keyHash),
+		index("api_key_created_at_idx").on(table.createdAt),
+	],
+);
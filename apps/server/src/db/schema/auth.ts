@@ -6,6 +6,10 @@ export const user = pgTable("user", {
 	email: text("email").notNull().unique(),
 	emailVerified: boolean("email_verified").notNull(),
 	image: text("image"),
+	phoneNumber: text("phone_number").unique(), // E.164, set once verified by SMS
+	phoneNumberVerified: boolean("phone_number_verified"),
+	twoFactorEnabled: boolean("two_factor_enabled").default(false),
+	role: text("role").notNull().default("user"), // "admin" or "user"; change with `bun run user:role`
 	createdAt: timestamp("created_at").notNull(),
 	updatedAt: timestamp("updated_at").notNull(),
 });
@@ -49,3 +53,12 @@ export const verification = pgTable("verification", {
 	createdAt: timestamp("created_at"),
 	updatedAt: timestamp("updated_at"),
 });
+
+export const twoFactor = pgTable("two_factor", {
+	id: text("id").primaryKey(),
+	secret: text("secret").notNull(), // TOTP secret created on enable; this app sends codes by SMS instead
+	backupCodes: text("backup_codes").notNull(), // Encrypted
+	userId: text("user_id")
+		.notNull()
+		.references(() => user.id, { onDelete: "cascade" }),
+});
@@ -0,0 +1,68 @@
+import {
+	pgTable,
+	text,
+	timestamp,
+	integer,
+	jsonb,
+	index,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+export const notificationMessage = pgTable(
+	"notification_message",
+	{
+		id: text("id").primaryKey(),
+		queueName: text("queue_name").notNull(),
+		channel: text("channel").$type<"sms" | "email">().notNull(),
+		type: text("type").notNull(),
+		batchId: text("batch_id"),
+		recipient: text("recipient").notNull(),
+		subject: text("subject"),
+		message: text("message"),
+		segments: integer("segments"),
+		encoding: text("encoding").$type<"GSM-7" | "UCS-2">(),
+		provider: text("provider"),
+		providerMessageId: text("provider_message_id"),
+		status: text("status").notNull(),
+		attempts: integer("attempts").notNull().default(0),
+		error: text("error"),
+		metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+		queuedAt: timestamp("queued_at").notNull(),
+		processedAt: timestamp("processed_at"),
+		sentAt: timestamp("sent_at"),
+		failedAt: timestamp("failed_at"),
+		deliveredAt: timestamp("delivered_at"),
+		deliveryReportedAt: timestamp("delivery_reported_at"),
+		createdAt: timestamp("created_at").notNull(),
+		updatedAt: timestamp("updated_at").notNull(),
+	},
+	(table) => [
+		index("notification_message_recipient_idx").on(table.recipient),
+		index("notification_message_provider_message_idx").on(
+			table.provider,
+			table.providerMessageId,
+		),
+		index("notification_message_batch_idx").on(table.batchId),
+		index("notification_message_created_at_idx").on(table.createdAt),
+	],
+);
+
+export const smsSuppression = pgTable(
+	"sms_suppression",
+	{
+		id: text("id").primaryKey(),
+		phoneNumber: text("phone_number").notNull(),
+		category: text("category")
+			.$type<"all" | "marketing" | "transactional">()
+			.notNull(),
+		reason: text("reason"),
+		source: text("source").notNull(),
+		createdAt: timestamp("created_at").notNull(),
+	},
+	(table) => [
+		uniqueIndex("sms_suppression_phone_category_idx").on(
+			table.phoneNumber,
+			table.category,
+		),
+	],
+);
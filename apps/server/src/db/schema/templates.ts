@@ -0,0 +1,36 @@
+import { sql } from "drizzle-orm";
+import {
+	pgTable,
+	text,
+	timestamp,
+	integer,
+	jsonb,
+	index,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+export const smsTemplate = pgTable(
+	"sms_template",
+	{
+		id: text("id").primaryKey(),
+		key: text("key").notNull(),
+		version: integer("version").notNull(),
+		body: text("body").notNull(),
+		variants: jsonb("variants").$type<Record<string, string>>(),
+		status: text("status")
+			.$type<"draft" | "published" | "archived">()
+			.notNull(),
+		description: text("description"),
+		publishedAt: timestamp("published_at"),
+		createdAt: timestamp("created_at").notNull(),
+		updatedAt: timestamp("updated_at").notNull(),
+	},
+	(table) => [
+		uniqueIndex("sms_template_key_version_idx").on(table.key, table.version),
+		index("sms_template_key_status_idx").on(table.key, table.status),
+		// Workers render the one published version of a key
+		uniqueIndex("sms_template_key_published_idx")
+			.on(table.key)
+			.where(sql`${table.status} = 'published'`),
+	],
+);
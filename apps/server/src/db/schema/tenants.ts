@@ -0,0 +1,23 @@
+import { pgTable, text, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+
+/**
+ * Provider account as stored; credentials are an encrypted JSON object (see lib/credentials)
+ */
+export interface StoredSMSAccount {
+	provider: string;
+	senderId: string;
+	credentials: string;
+}
+
+export const tenant = pgTable("tenant", {
+	id: text("id").primaryKey(),
+	name: text("name").notNull(),
+	defaultLocale: text("default_locale"),
+	smsAccounts: jsonb("sms_accounts").$type<StoredSMSAccount[]>().notNull(), // Failover order
+	rateLimitMax: integer("rate_limit_max"), // SMS per window; unlimited when null
+	rateLimitWindowSeconds: integer("rate_limit_window_seconds"),
+	dailySmsQuota: integer("daily_sms_quota"), // SMS per UTC day; unlimited when null
+	monthlySmsQuota: integer("monthly_sms_quota"), // SMS per UTC month; unlimited when null
+	createdAt: timestamp("created_at").notNull(),
+	updatedAt: timestamp("updated_at").notNull(),
+});
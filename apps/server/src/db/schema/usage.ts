@@ -0,0 +1,36 @@
+import {
+	pgTable,
+	text,
+	timestamp,
+	integer,
+	numeric,
+	index,
+} from "drizzle-orm/pg-core";
+
+export const smsUsage = pgTable(
+	"sms_usage",
+	{
+		id: text("id").primaryKey(),
+		jobId: text("job_id").notNull(),
+		tenantId: text("tenant_id"), // Kept without a foreign key so billing history outlives the tenant
+		type: text("type").notNull(),
+		segments: integer("segments").notNull(),
+		provider: text("provider").notNull(),
+		cost: numeric("cost", {
+			precision: 14,
+			scale: 4,
+			mode: "number",
+		}).notNull(),
+		currency: text("currency").notNull(),
+		createdByType: text("created_by_type").$type<"user" | "api_key">(),
+		createdById: text("created_by_id"),
+		occurredAt: timestamp("occurred_at").notNull(),
+	},
+	(table) => [
+		index("sms_usage_occurred_at_idx").on(table.occurredAt),
+		index("sms_usage_tenant_occurred_at_idx").on(
+			table.tenantId,
+			table.occurredAt,
+		),
+	],
+);
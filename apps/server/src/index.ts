@@ -1,27 +1,68 @@
 import "dotenv/config";
+import { configureMessageStore, initTracing } from "@repo/queue";
 import { auth } from "./lib/auth";
 import { Hono } from "hono";
+import { except } from "hono/combine";
 import { cors } from "hono/cors";
-import { logger } from "hono/logger";
+import { authenticate } from "./lib/access";
+import { requestLogger } from "./lib/logging";
+import { httpMetrics, metricsHandler } from "./lib/metrics";
+import { notificationMessageStore } from "./lib/notification-message-store";
+import { httpTracing } from "./lib/tracing";
 import { appRouter } from "./routers";
 
+initTracing({ serviceName: "notifications-api" });
+configureMessageStore(notificationMessageStore);
+
 const app = new Hono();
 
-app.use(logger());
+app.use(requestLogger);
 app.use(
 	"/*",
 	cors({
 		origin: process.env.CORS_ORIGIN || "",
-		allowMethods: ["GET", "POST", "OPTIONS"],
-		allowHeaders: ["Content-Type", "Authorization"],
+		allowMethods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+		allowHeaders: [
+			"Content-Type",
+			"Authorization",
+			"Last-Event-ID",
+			"X-Request-Id",
+			"X-API-Key",
+			"X-Tenant-Id",
+			"traceparent",
+			"tracestate",
+		],
+		exposeHeaders: ["X-Request-Id"],
 		credentials: true,
 	}),
 );
 
+app.use("/api/notifications/*", httpTracing);
+app.use("/api/notifications/*", httpMetrics);
+
+// Every notification route needs a session or API key, except provider callbacks, which carry a shared secret
+app.use(
+	"/api/notifications/*",
+	except("/api/notifications/webhooks/*", authenticate),
+);
+
 app.on(["POST", "GET"], "/api/auth/*", (c) => auth.handler(c.req.raw));
 
+app.get("/metrics", metricsHandler);
+
 // Mount notification routes
 app.route("/api/notifications", appRouter.notifications);
+app.route("/api/notifications/admin/api-keys", appRouter.apiKeys);
+app.route("/api/notifications/admin/queues", appRouter.queues);
+app.route("/api/notifications/admin/tenants", appRouter.tenants);
+app.route("/api/notifications/dead-letter", appRouter.deadLetters);
+app.route("/api/notifications/otp", appRouter.otp);
+app.route("/api/notifications/sms/events", appRouter.events);
+app.route("/api/notifications/sms/schedules", appRouter.schedules);
+app.route("/api/notifications/sms/templates", appRouter.templates);
+app.route("/api/notifications/suppressions", appRouter.suppressions);
+app.route("/api/notifications/usage", appRouter.usage);
+app.route("/api/notifications/webhooks", appRouter.webhooks);
 
 app.get("/", (c) => {
 	return c.text("OK");
@@ -0,0 +1,285 @@
+import {
+	type JobCaller,
+	type JobOwner,
+	logger,
+	withLogContext,
+} from "@repo/queue";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import {
+	API_KEY_SCOPE_NAMES,
+	type ApiKeyScope,
+	findActiveApiKey,
+} from "./api-key-store";
+import { auth } from "./auth";
+import { getTenant } from "./tenant-store";
+
+/**
+ * Authenticated user or API key behind a request
+ */
+export interface Caller extends JobCaller {
+	scopes: readonly ApiKeyScope[]; // Admins hold every scope, other users none
+	admin: boolean; // Signed-in user with the admin role; only admins manage keys and tenants
+	tenantId?: string; // Tenant the request acts for; jobs it creates send with that tenant's accounts
+}
+
+declare module "hono" {
+	interface ContextVariableMap {
+		caller: Caller;
+	}
+}
+
+export const ADMIN_ROLE = "admin";
+
+const API_KEY_HEADER = "X-API-Key";
+const TENANT_HEADER = "X-Tenant-Id";
+
+type TenantResolution =
+	| { status: "resolved"; tenantId?: string }
+	| { status: "forbidden"; tenantId: string }
+	| { status: "not_found"; tenantId: string };
+
+const readApiKey = (
+	apiKeyHeader: string | undefined,
+	authorization: string | undefined,
+): string | undefined => {
+	if (apiKeyHeader) {
+		return apiKeyHeader;
+	}
+	const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+	return match?.[1];
+};
+
+const resolveCaller = async (
+	secret: string | undefined,
+	headers: Headers,
+): Promise<Caller | null> => {
+	if (secret) {
+		const key = await findActiveApiKey(secret);
+		return key
+			? {
+					type: "api_key",
+					id: key.id,
+					name: key.name,
+					scopes: key.scopes as ApiKeyScope[],
+					admin: false,
+					tenantId: key.tenantId ?? undefined,
+				}
+			: null;
+	}
+
+	const session = await auth.api.getSession({ headers });
+	if (!session) {
+		return null;
+	}
+	const admin = session.user.role === ADMIN_ROLE;
+	return {
+		type: "user",
+		id: session.user.id,
+		scopes: admin ? API_KEY_SCOPE_NAMES : [],
+		admin,
+	};
+};
+
+/**
+ * Pick the tenant a request acts for
+ * Keys bound to a tenant always act for it and admins may pick any existing tenant. Unbound keys
+ * and other users belong to no tenant, so they cannot act for one.
+ */
+const resolveTenant = async (
+	caller: Caller,
+	requested: string | undefined,
+): Promise<TenantResolution> => {
+	if (caller.tenantId) {
+		return requested && requested !== caller.tenantId
+			? { status: "forbidden", tenantId: requested }
+			: { status: "resolved", tenantId: caller.tenantId };
+	}
+
+	if (!requested) {
+		return { status: "resolved" };
+	}
+	if (!caller.admin) {
+		return { status: "forbidden", tenantId: requested };
+	}
+	return (await getTenant(requested))
+		? { status: "resolved", tenantId: requested }
+		: { status: "not_found", tenantId: requested };
+};
+
+/**
+ * Require a better-auth session or a service API key
+ * Keys are sent as `X-API-Key: nk_...` or `Authorization: Bearer nk_...`; when a key is present
+ * the session cookie is ignored. The caller is available as `c.get("caller")`, is added to every
+ * log line of the request and is recorded as `createdBy` on jobs the request creates.
+ * The tenant comes from the key or the `X-Tenant-Id` header and is recorded as `tenantId` on those jobs.
+ */
+export const authenticate = createMiddleware(async (c, next) => {
+	const secret = readApiKey(
+		c.req.header(API_KEY_HEADER),
+		c.req.header("Authorization"),
+	);
+
+	let caller: Caller | null;
+	let tenant: TenantResolution | null = null;
+	try {
+		caller = await resolveCaller(secret, c.req.raw.headers);
+		if (caller) {
+			tenant = await resolveTenant(caller, c.req.header(TENANT_HEADER));
+		}
+	} catch (error) {
+		logger.error("Error authenticating request", { err: error });
+		return c.json(
+			{
+				success: false,
+				message: "Failed to authenticate request",
+				error: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+
+	if (!caller || !tenant) {
+		return c.json(
+			{
+				success: false,
+				message: secret
+					? "Invalid, expired or revoked API key"
+					: "Authentication required",
+			},
+			401,
+		);
+	}
+
+	if (tenant.status === "forbidden") {
+		return c.json(
+			{
+				success: false,
+				message: `${caller.type === "user" ? "User" : "API key"} cannot act for tenant ${tenant.tenantId}`,
+			},
+			403,
+		);
+	}
+
+	if (tenant.status === "not_found") {
+		return c.json(
+			{
+				success: false,
+				message: `Tenant ${tenant.tenantId} not found`,
+			},
+			404,
+		);
+	}
+
+	c.set("caller", { ...caller, tenantId: tenant.tenantId });
+	const { type, id, name } = caller;
+	await withLogContext(
+		{ caller: { type, id, name }, tenantId: tenant.tenantId },
+		() => next(),
+	);
+});
+
+const missingScope = (c: Context, scope: ApiKeyScope) =>
+	c.json(
+		{
+			success: false,
+			message:
+				c.get("caller").type === "user"
+					? `Only admins can use routes that need the ${scope} scope`
+					: `API key is missing the ${scope} scope`,
+		},
+		403,
+	);
+
+/**
+ * Reject callers that do not hold a scope: API keys not granted it and users who are not admins
+ * Must run after `authenticate`.
+ */
+export const requireScope = (scope: ApiKeyScope) =>
+	createMiddleware(async (c, next) => {
+		if (!c.get("caller").scopes.includes(scope)) {
+			return missingScope(c, scope);
+		}
+		await next();
+	});
+
+/**
+ * Check that the caller may tag SMS as transactional, which delivers them past marketing opt-outs
+ * @returns A 403 response to send back, or null if the request may go on
+ */
+export const checkSMSCategory = (c: Context, category: string | undefined) =>
+	category === "transactional" &&
+	!c.get("caller").scopes.includes("sms:transactional")
+		? missingScope(c, "sms:transactional")
+		: null;
+
+/**
+ * Reject API keys that are not bound to a tenant on routes that send or hold per-tenant data
+ * Bound keys send with their tenant's accounts and quotas. Admins may still act without a
+ * tenant, which uses the deployment's default provider and has no quota.
+ * Must run after `authenticate`.
+ */
+export const requireTenant = createMiddleware(async (c, next) => {
+	const caller = c.get("caller");
+	if (!caller.tenantId && !caller.admin) {
+		return c.json(
+			{
+				success: false,
+				message: "This route requires an API key bound to a tenant",
+			},
+			403,
+		);
+	}
+	await next();
+});
+
+/**
+ * Reject callers acting for a tenant on routes over data every tenant shares: queues,
+ * dead-lettered jobs, the global templates and the opt-out list
+ * Must run after `authenticate`.
+ */
+export const requireDeploymentCaller = createMiddleware(async (c, next) => {
+	if (c.get("caller").tenantId) {
+		return c.json(
+			{
+				success: false,
+				message:
+					"This route manages data shared by every tenant and cannot be used for one tenant",
+			},
+			403,
+		);
+	}
+	await next();
+});
+
+/**
+ * Tenant and caller recorded on the jobs a request creates
+ */
+export const jobOwner = (caller: Caller): JobOwner => ({
+	tenantId: caller.tenantId,
+	createdBy: { type: caller.type, id: caller.id, name: caller.name },
+});
+
+/**
+ * Tenant whose jobs, schedules and events a caller may see
+ * Admins acting without a tenant see every tenant's; pair with `requireTenant` so other callers always have one.
+ */
+export const visibleTenant = (caller: Caller): { tenantId?: string } =>
+	caller.admin && !caller.tenantId ? {} : { tenantId: caller.tenantId };
+
+/**
+ * Only allow signed-in admins, e.g. for managing API keys and tenants
+ * Must run after `authenticate`.
+ */
+export const requireAdmin = createMiddleware(async (c, next) => {
+	if (!c.get("caller").admin) {
+		return c.json(
+			{
+				success: false,
+				message: "This route requires a signed-in admin",
+			},
+			403,
+		);
+	}
+	await next();
+});
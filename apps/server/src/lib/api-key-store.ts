@@ -0,0 +1,248 @@
+import { createHash, randomBytes } from "node:crypto";
+import { logger } from "@repo/queue";
+import { and, desc, eq, getTableColumns, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { apiKey } from "../db/schema/api-keys";
+
+/**
+ * Scopes an API key can be granted, with the routes each one opens
+ * Signed-in admins hold every scope; other signed-in users hold none.
+ */
+export const API_KEY_SCOPES = {
+	"sms:welcome": "Queue welcome SMS",
+	"sms:otp": "Queue OTP SMS with a caller-supplied code",
+	"sms:notification": "Queue and preview notification SMS, including bulk sends",
+	"sms:transactional": "Send SMS tagged transactional, which skip marketing opt-outs",
+	"sms:schedules": "Create, list, update and delete recurring SMS",
+	"email:welcome": "Queue welcome emails",
+	"email:otp": "Queue OTP emails",
+	"email:notification": "Queue notification emails",
+	"otp:send": "Send server-generated OTP codes",
+	"otp:verify": "Verify OTP codes",
+	"jobs:read": "Read job status and stream SMS job events",
+	"jobs:cancel": "Cancel queued jobs",
+	"templates:read": "Read SMS templates",
+	"templates:write": "Edit, publish and roll back SMS templates",
+	"suppressions:read": "List SMS opt-outs",
+	"suppressions:write": "Add and remove SMS opt-outs",
+	"queues:admin": "Inspect and manage queues and dead-lettered jobs",
+	"usage:read": "Read SMS usage and cost aggregates",
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+/**
+ * Scopes over data shared by every tenant; keys bound to a tenant cannot be granted them
+ */
+export const DEPLOYMENT_SCOPES: readonly ApiKeyScope[] = [
+	"templates:write",
+	"suppressions:read",
+	"suppressions:write",
+	"queues:admin",
+];
+
+export const API_KEY_SCOPE_NAMES = Object.keys(API_KEY_SCOPES) as [
+	ApiKeyScope,
+	...ApiKeyScope[],
+];
+
+/**
+ * API key as returned to callers; the hash never leaves the store
+ */
+export type ApiKey = Omit<typeof apiKey.$inferSelect, "keyHash">;
+
+export interface CreateApiKeyParams {
+	name: string;
+	scopes: ApiKeyScope[];
+	expiresAt?: Date;
+	tenantId?: string; // Tenant the key is bound to; unbound keys cannot send or act for a tenant
+	createdBy: string; // Id of the signed-in user creating the key
+}
+
+/**
+ * New key with its secret, which is only available at creation
+ */
+export interface CreatedApiKey {
+	key: ApiKey;
+	secret: string;
+}
+
+export type RotateApiKeyResult =
+	| ({ status: "rotated"; previous: ApiKey } & CreatedApiKey)
+	| { status: "not_found" }
+	| { status: "revoked"; key: ApiKey };
+
+export type RevokeApiKeyResult =
+	| { status: "revoked"; key: ApiKey }
+	| { status: "not_found" }
+	| { status: "already_revoked"; key: ApiKey };
+
+const KEY_PREFIX = "nk_";
+
+/**
+ * Characters of the key kept for display, including the `nk_` prefix
+ */
+const DISPLAY_PREFIX_LENGTH = 11;
+
+/**
+ * Minimum time between two `lastUsedAt` writes for the same key
+ */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const { keyHash: _keyHash, ...publicColumns } = getTableColumns(apiKey);
+
+const hashApiKey = (secret: string): string =>
+	createHash("sha256").update(secret).digest("hex");
+
+const generateSecret = (): string =>
+	`${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+const findKey = async (id: string): Promise<ApiKey | null> => {
+	const [key] = await db
+		.select(publicColumns)
+		.from(apiKey)
+		.where(eq(apiKey.id, id));
+	return key ?? null;
+};
+
+const insertKey = async (
+	params: CreateApiKeyParams,
+	rotatedFromId?: string,
+	tx: Pick<typeof db, "insert"> = db,
+): Promise<CreatedApiKey> => {
+	const secret = generateSecret();
+	const [key] = await tx
+		.insert(apiKey)
+		.values({
+			id: crypto.randomUUID(),
+			name: params.name,
+			prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+			keyHash: hashApiKey(secret),
+			scopes: params.scopes,
+			tenantId: params.tenantId,
+			createdBy: params.createdBy,
+			rotatedFromId,
+			expiresAt: params.expiresAt,
+			createdAt: new Date(),
+		})
+		.returning(publicColumns);
+
+	return { key, secret };
+};
+
+/**
+ * Create a key; the secret in the result cannot be recovered later
+ */
+export const createApiKey = async (
+	params: CreateApiKeyParams,
+): Promise<CreatedApiKey> => {
+	return insertKey(params);
+};
+
+/**
+ * List all keys, newest first, including revoked and expired ones
+ */
+export const listApiKeys = async (): Promise<ApiKey[]> => {
+	return db.select(publicColumns).from(apiKey).orderBy(desc(apiKey.createdAt));
+};
+
+/**
+ * Replace a key with a new secret carrying the same name, scopes and tenant
+ * The old key stops working immediately.
+ * @param options - Expiry of the new key and the user rotating it
+ */
+export const rotateApiKey = async (
+	id: string,
+	options: { expiresAt?: Date; rotatedBy: string },
+): Promise<RotateApiKeyResult> => {
+	const existing = await findKey(id);
+	if (!existing) {
+		return { status: "not_found" };
+	}
+	if (existing.revokedAt) {
+		return { status: "revoked", key: existing };
+	}
+
+	return db.transaction(async (tx) => {
+		const [previous] = await tx
+			.update(apiKey)
+			.set({ revokedAt: new Date() })
+			.where(and(eq(apiKey.id, id), isNull(apiKey.revokedAt)))
+			.returning(publicColumns);
+
+		// Revoked by a concurrent request since the lookup above
+		if (!previous) {
+			return { status: "revoked", key: existing } as const;
+		}
+
+		const created = await insertKey(
+			{
+				name: previous.name,
+				scopes: previous.scopes as ApiKeyScope[],
+				expiresAt: options.expiresAt,
+				tenantId: previous.tenantId ?? undefined,
+				createdBy: options.rotatedBy,
+			},
+			previous.id,
+			tx,
+		);
+		return { status: "rotated", previous, ...created } as const;
+	});
+};
+
+/**
+ * Permanently disable a key
+ */
+export const revokeApiKey = async (id: string): Promise<RevokeApiKeyResult> => {
+	const [key] = await db
+		.update(apiKey)
+		.set({ revokedAt: new Date() })
+		.where(and(eq(apiKey.id, id), isNull(apiKey.revokedAt)))
+		.returning(publicColumns);
+	if (key) {
+		return { status: "revoked", key };
+	}
+
+	const existing = await findKey(id);
+	return existing
+		? { status: "already_revoked", key: existing }
+		: { status: "not_found" };
+};
+
+/**
+ * Look up the key a request presented
+ * @returns The key if it exists, is not revoked and has not expired; null otherwise
+ */
+export const findActiveApiKey = async (
+	secret: string,
+): Promise<ApiKey | null> => {
+	if (!secret.startsWith(KEY_PREFIX)) {
+		return null;
+	}
+
+	const [key] = await db
+		.select(publicColumns)
+		.from(apiKey)
+		.where(and(eq(apiKey.keyHash, hashApiKey(secret)), isNull(apiKey.revokedAt)));
+	if (!key || (key.expiresAt && key.expiresAt <= new Date())) {
+		return null;
+	}
+
+	const now = new Date();
+	if (
+		!key.lastUsedAt ||
+		now.getTime() - key.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+	) {
+		db.update(apiKey)
+			.set({ lastUsedAt: now })
+			.where(eq(apiKey.id, key.id))
+			.catch((error) => {
+				logger.error("Failed to record API key use", {
+					apiKeyId: key.id,
+					err: error,
+				});
+			});
+	}
+
+	return key;
+};
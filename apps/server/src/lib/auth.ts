@@ -1,9 +1,106 @@
-import { betterAuth, type BetterAuthOptions } from "better-auth";
+import { createOTPSMSJob, parsePhoneNumber } from "@repo/queue";
+import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import {
+	APIError,
+	createAuthMiddleware,
+	getSessionFromCtx,
+} from "better-auth/api";
+import { phoneNumber, twoFactor } from "better-auth/plugins";
+import { eq } from "drizzle-orm";
 import { db } from "../db";
 import * as schema from "../db/schema/auth";
+import { sendWelcomeOnPhoneVerified, sendWelcomeOnSignUp } from "./welcome";
 
-export const auth = betterAuth<BetterAuthOptions>({
+const PHONE_CODE_TTL_SECONDS = 300;
+
+const TWO_FACTOR_CODE_TTL_MINUTES = 5;
+
+const PHONE_SEND_PATH = "/phone-number/send-otp";
+const PHONE_VERIFY_PATH = "/phone-number/verify";
+const TWO_FACTOR_ENABLE_PATH = "/two-factor/enable";
+
+/**
+ * Phone number two-factor codes go to, or null if the user has not verified one
+ */
+const findVerifiedPhoneNumber = async (
+	userId: string,
+): Promise<string | null> => {
+	const [row] = await db
+		.select({
+			phoneNumber: schema.user.phoneNumber,
+			phoneNumberVerified: schema.user.phoneNumberVerified,
+		})
+		.from(schema.user)
+		.where(eq(schema.user.id, userId))
+		.limit(1);
+	return row?.phoneNumberVerified && row.phoneNumber ? row.phoneNumber : null;
+};
+
+/**
+ * Restrict phone verification to signed-in users adding or changing their own number
+ * Numbers are normalized to E.164 before the plugin stores the code, so sending to
+ * "0712 345678" and verifying "+254712345678" match. Codes are not sent to numbers
+ * that already belong to an account, and verifying always updates the session user
+ * rather than signing in whoever owns the number.
+ * Two-factor authentication can only be turned on once the user has a verified phone.
+ */
+const phoneVerificationGuard = createAuthMiddleware(async (ctx) => {
+	if (ctx.path === TWO_FACTOR_ENABLE_PATH) {
+		const session = await getSessionFromCtx(ctx);
+		if (session && !(await findVerifiedPhoneNumber(session.user.id))) {
+			throw new APIError("BAD_REQUEST", {
+				message:
+					"Verify a phone number before turning on two-factor authentication",
+			});
+		}
+		return;
+	}
+
+	if (ctx.path !== PHONE_SEND_PATH && ctx.path !== PHONE_VERIFY_PATH) {
+		return;
+	}
+
+	const session = await getSessionFromCtx(ctx);
+	if (!session) {
+		throw new APIError("UNAUTHORIZED", {
+			message: "Sign in to verify a phone number",
+		});
+	}
+
+	const phone = parsePhoneNumber(String(ctx.body?.phoneNumber ?? ""));
+	if (!phone.valid) {
+		throw new APIError("BAD_REQUEST", { message: phone.message });
+	}
+
+	if (ctx.path === PHONE_SEND_PATH) {
+		const [owner] = await db
+			.select({ id: schema.user.id })
+			.from(schema.user)
+			.where(eq(schema.user.phoneNumber, phone.e164))
+			.limit(1);
+		if (owner) {
+			throw new APIError("BAD_REQUEST", {
+				message:
+					owner.id === session.user.id
+						? "This phone number is already verified on your account"
+						: "This phone number belongs to another account",
+			});
+		}
+	}
+
+	return {
+		context: {
+			body: {
+				...ctx.body,
+				phoneNumber: phone.e164,
+				...(ctx.path === PHONE_VERIFY_PATH && { updatePhoneNumber: true }),
+			},
+		},
+	};
+});
+
+export const auth = betterAuth({
 	database: drizzleAdapter(db, {
 		provider: "pg",
 
@@ -13,6 +110,73 @@ export const auth = betterAuth<BetterAuthOptions>({
 	emailAndPassword: {
 		enabled: true,
 	},
+	user: {
+		additionalFields: {
+			// Only admins hold API scopes; users cannot set this themselves
+			role: { type: "string", defaultValue: "user", input: false },
+		},
+	},
+	plugins: [
+		phoneNumber({
+			// Codes go out through the SMS queue like any other OTP
+			sendOTP: async ({ phoneNumber, code }) => {
+				await createOTPSMSJob({
+					recipient: { phoneNumber },
+					code,
+					expiryMinutes: PHONE_CODE_TTL_SECONDS / 60,
+				});
+			},
+			expiresIn: PHONE_CODE_TTL_SECONDS,
+			allowedAttempts: 3,
+			phoneNumberValidator: (value) => parsePhoneNumber(value).valid,
+		}),
+		twoFactor({
+			// The phone was verified by SMS when it was added, so enabling needs no extra code
+			skipVerificationOnEnable: true,
+			otpOptions: {
+				sendOTP: async ({ user, otp }) => {
+					const phoneNumber = await findVerifiedPhoneNumber(user.id);
+					if (!phoneNumber) {
+						throw new APIError("BAD_REQUEST", {
+							message: "No verified phone number to send the code to",
+						});
+					}
+					await createOTPSMSJob({
+						recipient: { phoneNumber, name: user.name },
+						createdBy: { type: "user", id: user.id },
+						code: otp,
+						expiryMinutes: TWO_FACTOR_CODE_TTL_MINUTES,
+					});
+				},
+				period: TWO_FACTOR_CODE_TTL_MINUTES,
+				storeOTP: "hashed",
+				allowedAttempts: 5,
+			},
+		}),
+	],
+	hooks: {
+		before: phoneVerificationGuard,
+	},
+	databaseHooks: {
+		user: {
+			create: {
+				after: (user) => sendWelcomeOnSignUp(user),
+			},
+			update: {
+				after: async (user, ctx) => {
+					if (ctx?.path === PHONE_VERIFY_PATH) {
+						await sendWelcomeOnPhoneVerified(user);
+					}
+				},
+			},
+		},
+	},
+	rateLimit: {
+		customRules: {
+			[PHONE_SEND_PATH]: { window: 60, max: 3 },
+			[PHONE_VERIFY_PATH]: { window: 60, max: 10 },
+		},
+	},
 	advanced: {
 		defaultCookieAttributes: {
 			sameSite: "none",
@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+const IV_LENGTH = 12;
+
+/**
+ * Read the 32-byte encryption key from TENANT_CREDENTIALS_KEY (base64)
+ * @throws Error if the key is missing or not 32 bytes
+ */
+const getKey = (): Buffer => {
+	const value = process.env.TENANT_CREDENTIALS_KEY;
+	if (!value) {
+		throw new Error("TENANT_CREDENTIALS_KEY environment variable is required");
+	}
+
+	const key = Buffer.from(value, "base64");
+	if (key.length !== 32) {
+		throw new Error(
+			"Invalid TENANT_CREDENTIALS_KEY. Must be 32 bytes, base64 encoded.",
+		);
+	}
+	return key;
+};
+
+/**
+ * Encrypt provider credentials for storage with AES-256-GCM
+ * @param credentials - Plaintext credential fields
+ * @param owner - Id of the record holding them; decryption fails if the value is moved to another record
+ * @returns `v1:<iv>:<tag>:<ciphertext>`, each part base64url encoded
+ */
+export const encryptCredentials = (
+	credentials: Record<string, string>,
+	owner: string,
+): string => {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+	cipher.setAAD(Buffer.from(owner));
+
+	const ciphertext = Buffer.concat([
+		cipher.update(JSON.stringify(credentials), "utf8"),
+		cipher.final(),
+	]);
+
+	return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+		.map((part) =>
+			typeof part === "string" ? part : part.toString("base64url"),
+		)
+		.join(":");
+};
+
+/**
+ * Decrypt credentials written by `encryptCredentials`
+ * @throws Error if the value is malformed, was encrypted with another key or belongs to another owner
+ */
+export const decryptCredentials = (
+	value: string,
+	owner: string,
+): Record<string, string> => {
+	const [version, iv, tag, ciphertext] = value.split(":");
+	if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+		throw new Error("Unrecognized encrypted credentials format");
+	}
+
+	const decipher = createDecipheriv(
+		ALGORITHM,
+		getKey(),
+		Buffer.from(iv, "base64url"),
+	);
+	decipher.setAAD(Buffer.from(owner));
+	decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+	const plaintext = Buffer.concat([
+		decipher.update(Buffer.from(ciphertext, "base64url")),
+		decipher.final(),
+	]);
+	return JSON.parse(plaintext.toString("utf8")) as Record<string, string>;
+};
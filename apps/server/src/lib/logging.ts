@@ -0,0 +1,37 @@
+import { logger, withLogContext } from "@repo/queue";
+import { createMiddleware } from "hono/factory";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Ids accepted from callers; anything else (including oversized values) is replaced
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assign a request id and log one line per request
+ * The id is taken from `X-Request-Id` when the caller (or a proxy) sends a usable one, echoed in
+ * the response, attached to every log line written while handling the request and copied into
+ * the data of jobs the request creates.
+ */
+export const requestLogger = createMiddleware(async (c, next) => {
+	const incoming = c.req.header(REQUEST_ID_HEADER);
+	const requestId =
+		incoming && REQUEST_ID_PATTERN.test(incoming)
+			? incoming
+			: crypto.randomUUID();
+	const startedAt = performance.now();
+
+	c.header(REQUEST_ID_HEADER, requestId);
+
+	await withLogContext({ requestId }, async () => {
+		await next();
+
+		logger.info("Request handled", {
+			method: c.req.method,
+			path: c.req.path,
+			status: c.res.status,
+			durationMs: Math.round(performance.now() - startedAt),
+		});
+	});
+});
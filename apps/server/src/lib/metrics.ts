@@ -0,0 +1,52 @@
+import { isMetricsRequestAuthorized, metricsRegistry } from "@repo/queue";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { routePath } from "hono/route";
+import { Counter, Histogram } from "prom-client";
+
+const httpRequestsTotal = new Counter({
+	name: "http_requests_total",
+	help: "HTTP requests handled by the notifications API",
+	labelNames: ["method", "route", "status"] as const,
+	registers: [metricsRegistry],
+});
+
+const httpRequestDurationSeconds = new Histogram({
+	name: "http_request_duration_seconds",
+	help: "Time to produce an HTTP response for the notifications API",
+	labelNames: ["method", "route", "status"] as const,
+	buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+	registers: [metricsRegistry],
+});
+
+/**
+ * Record request counts and latency
+ * Requests are labelled with the matched route pattern (e.g. `/jobs/:jobId`), not the raw path,
+ * so ids in URLs do not create a new series per request.
+ */
+export const httpMetrics = createMiddleware(async (c, next) => {
+	const endTimer = httpRequestDurationSeconds.startTimer();
+	await next();
+
+	const labels = {
+		method: c.req.method,
+		route: routePath(c, -1),
+		status: String(c.res.status),
+	};
+	endTimer(labels);
+	httpRequestsTotal.inc(labels);
+});
+
+/**
+ * Serve the shared registry in the Prometheus text format
+ * When METRICS_TOKEN is set, scrapers must send it as a bearer token.
+ */
+export const metricsHandler = async (c: Context) => {
+	if (!isMetricsRequestAuthorized(c.req.header("Authorization"))) {
+		return c.text("Unauthorized", 401);
+	}
+
+	return c.body(await metricsRegistry.metrics(), 200, {
+		"Content-Type": metricsRegistry.contentType,
+	});
+};
@@ -0,0 +1,152 @@
+import type {
+	DeliveryReport,
+	NotificationMessageEntry,
+	NotificationMessageStatus,
+	NotificationMessageStore,
+} from "@repo/queue";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { notificationMessage } from "../db/schema/notifications";
+
+/**
+ * Statuses each worker transition may replace
+ * Transitions only move forward, so a late or replayed write (e.g. `sent` landing after the
+ * delivery report) leaves the newer status in place. `failed` can be replaced because admins
+ * may retry failed jobs under the same id.
+ */
+const REPLACEABLE_STATUSES: Record<
+	NotificationMessageStatus,
+	NotificationMessageStatus[]
+> = {
+	queued: [],
+	processing: ["queued", "processing", "retrying", "failed"],
+	retrying: ["queued", "processing", "retrying", "failed"],
+	sent: ["queued", "processing", "retrying", "failed"],
+	failed: ["queued", "processing", "retrying"],
+	skipped: ["queued", "processing", "retrying"],
+	delivered: [],
+	expired: [],
+	rejected: [],
+};
+
+/**
+ * Statuses a delivery report may replace; reports only follow a send
+ */
+const REPORTABLE_STATUSES: NotificationMessageStatus[] = [
+	"queued",
+	"processing",
+	"retrying",
+	"sent",
+];
+
+/**
+ * Lifecycle timestamp column written for each status
+ */
+const transitionTimestamps = (entry: NotificationMessageEntry) => {
+	switch (entry.status) {
+		case "processing":
+			return { processedAt: entry.occurredAt };
+		case "sent":
+			return { sentAt: entry.occurredAt };
+		case "failed":
+			return { failedAt: entry.occurredAt };
+		default:
+			return {};
+	}
+};
+
+/**
+ * Postgres-backed message store passed to the notification workers and job creators
+ * Each transition upserts the row keyed by job id; undefined fields are skipped by
+ * drizzle so values captured at earlier transitions (e.g. the rendered message) are kept.
+ * A transition that would move the message back to an earlier status is dropped.
+ */
+export const notificationMessageStore: NotificationMessageStore = {
+	async record(entry) {
+		const fields = {
+			queueName: entry.queueName,
+			channel: entry.channel,
+			type: entry.type,
+			batchId: entry.batchId,
+			recipient: entry.recipient,
+			subject: entry.subject,
+			message: entry.message,
+			segments: entry.segments,
+			encoding: entry.encoding,
+			provider: entry.provider,
+			providerMessageId: entry.providerMessageId,
+			status: entry.status,
+			attempts: entry.attempts,
+			// A successful retry clears the error left by the previous attempt
+			error: entry.status === "sent" ? null : entry.error,
+			metadata: entry.metadata,
+			...transitionTimestamps(entry),
+			updatedAt: entry.occurredAt,
+		};
+
+		const replaceable = REPLACEABLE_STATUSES[entry.status];
+		const insert = db.insert(notificationMessage).values({
+			id: entry.jobId,
+			...fields,
+			queuedAt: entry.queuedAt,
+			createdAt: entry.occurredAt,
+		});
+
+		if (replaceable.length === 0) {
+			await insert.onConflictDoNothing({ target: notificationMessage.id });
+			return;
+		}
+
+		await insert.onConflictDoUpdate({
+			target: notificationMessage.id,
+			set: fields,
+			setWhere: inArray(notificationMessage.status, replaceable),
+		});
+	},
+};
+
+export interface DeliveredMessage {
+	jobId: string;
+	batchId: string | null;
+	queueName: string;
+}
+
+/**
+ * Apply a provider delivery report to the message it refers to
+ * Messages that already have a final delivery status keep it, so a duplicate or late report
+ * does not overwrite the first one.
+ * @param report - Normalized delivery report
+ * @returns The updated messages (empty if the provider message id is unknown or already reported)
+ */
+export const applyDeliveryReport = async (
+	report: DeliveryReport,
+): Promise<DeliveredMessage[]> => {
+	const reportedAt = report.reportedAt ?? new Date();
+
+	const updated = await db
+		.update(notificationMessage)
+		.set({
+			status: report.status,
+			deliveredAt: report.status === "delivered" ? reportedAt : undefined,
+			error:
+				report.status === "delivered"
+					? null
+					: report.description || report.rawStatus,
+			deliveryReportedAt: reportedAt,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(notificationMessage.provider, report.provider),
+				eq(notificationMessage.providerMessageId, report.messageId),
+				inArray(notificationMessage.status, REPORTABLE_STATUSES),
+			),
+		)
+		.returning({
+			jobId: notificationMessage.id,
+			batchId: notificationMessage.batchId,
+			queueName: notificationMessage.queueName,
+		});
+
+	return updated;
+};
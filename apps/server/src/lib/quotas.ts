@@ -0,0 +1,77 @@
+import {
+	logger,
+	releaseSMSQuota,
+	reserveSMSQuota,
+	type SMSQuotaResult,
+} from "@repo/queue";
+import type { Context } from "hono";
+import { getTenant, toSMSQuota } from "./tenant-store";
+
+type SMSQuotaExceeded = Extract<SMSQuotaResult, { allowed: false }>;
+
+/**
+ * Reserve SMS quota for messages the request is about to queue
+ * The worker enforces the same quota again when it sends.
+ * @param count - Messages being queued
+ * @returns The quota check, or null when the request has no tenant or the tenant has no quota
+ */
+export const reserveTenantSMSQuota = async (
+	c: Context,
+	count: number,
+): Promise<SMSQuotaResult | null> => {
+	const tenantId = c.get("caller").tenantId;
+	if (!tenantId) {
+		return null;
+	}
+
+	const tenant = await getTenant(tenantId);
+	const quota = tenant && toSMSQuota(tenant);
+	return quota ? reserveSMSQuota(tenantId, quota, count) : null;
+};
+
+/**
+ * Give back quota reserved for messages that were not queued after all
+ * Errors are logged rather than thrown so they do not hide the failure being handled.
+ */
+export const releaseTenantSMSQuota = async (
+	c: Context,
+	count: number,
+): Promise<void> => {
+	const tenantId = c.get("caller").tenantId;
+	if (!tenantId || count <= 0) {
+		return;
+	}
+
+	try {
+		await releaseSMSQuota(tenantId, count);
+	} catch (error) {
+		logger.error("Failed to release SMS quota", {
+			err: error,
+			tenantId,
+			count,
+		});
+	}
+};
+
+/**
+ * 429 response for a request over its tenant's SMS quota, with what is left in each period
+ */
+export const smsQuotaExceeded = (c: Context, result: SMSQuotaExceeded) => {
+	c.header(
+		"Retry-After",
+		Math.ceil((result.resetAt.getTime() - Date.now()) / 1000).toString(),
+	);
+	return c.json(
+		{
+			success: false,
+			message: `${result.period === "daily" ? "Daily" : "Monthly"} SMS quota of ${result.limit} exceeded`,
+			data: {
+				period: result.period,
+				limit: result.limit,
+				remaining: result.remaining,
+				resetAt: result.resetAt,
+			},
+		},
+		429,
+	);
+};
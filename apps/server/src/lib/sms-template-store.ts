@@ -0,0 +1,341 @@
+import type { SMSTemplateStore } from "@repo/queue";
+import { and, asc, desc, eq, lt, max } from "drizzle-orm";
+import { db } from "../db";
+import { smsTemplate } from "../db/schema/templates";
+
+export type SMSTemplate = typeof smsTemplate.$inferSelect;
+
+export interface SMSTemplateSummary {
+	key: string;
+	latestVersion: number;
+	publishedVersion: number | null;
+	updatedAt: Date;
+}
+
+export type CreateSMSTemplateDraftResult =
+	| { status: "created"; template: SMSTemplate }
+	| { status: "conflict" };
+
+export type UpdateSMSTemplateDraftResult =
+	| { status: "updated"; template: SMSTemplate }
+	| { status: "not_found" }
+	| { status: "not_draft"; template: SMSTemplate };
+
+export type DeleteSMSTemplateDraftResult =
+	| { status: "deleted" }
+	| { status: "not_found" }
+	| { status: "not_draft"; template: SMSTemplate };
+
+export type PublishSMSTemplateResult =
+	| { status: "published"; template: SMSTemplate; previousVersion: number | null }
+	| { status: "not_found" }
+	| { status: "already_published"; template: SMSTemplate };
+
+export type RollbackSMSTemplateResult =
+	| { status: "rolled_back"; template: SMSTemplate; previousVersion: number }
+	| { status: "not_found" }
+	| { status: "no_previous_version" };
+
+/**
+ * Attempts at picking the next version before giving up on concurrent drafts of the same key
+ */
+const DRAFT_VERSION_ATTEMPTS = 3;
+
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Whether a query failed on a unique index; drizzle wraps the pg error in `cause`
+ */
+const isUniqueViolation = (error: unknown): boolean =>
+	[error, error instanceof Error ? error.cause : undefined].some(
+		(candidate) =>
+			typeof candidate === "object" &&
+			candidate !== null &&
+			"code" in candidate &&
+			candidate.code === UNIQUE_VIOLATION,
+	);
+
+const findVersion = async (key: string, version: number) => {
+	const [template] = await db
+		.select()
+		.from(smsTemplate)
+		.where(and(eq(smsTemplate.key, key), eq(smsTemplate.version, version)));
+	return template ?? null;
+};
+
+const findPublished = async (key: string) => {
+	const [template] = await db
+		.select()
+		.from(smsTemplate)
+		.where(and(eq(smsTemplate.key, key), eq(smsTemplate.status, "published")));
+	return template ?? null;
+};
+
+/**
+ * Postgres-backed template store passed to the SMS worker
+ */
+export const smsTemplateStore: SMSTemplateStore = {
+	async getTemplate(key, version) {
+		const template =
+			version === undefined
+				? await findPublished(key)
+				: await findVersion(key, version);
+
+		if (!template) {
+			return null;
+		}
+
+		return {
+			key: template.key,
+			version: template.version,
+			body: template.body,
+			variants: template.variants ?? undefined,
+			status: template.status,
+		};
+	},
+};
+
+/**
+ * List template keys with their latest and published versions
+ */
+export const listSMSTemplates = async (): Promise<SMSTemplateSummary[]> => {
+	const rows = await db
+		.select()
+		.from(smsTemplate)
+		.orderBy(asc(smsTemplate.key), desc(smsTemplate.version));
+
+	const summaries = new Map<string, SMSTemplateSummary>();
+	for (const row of rows) {
+		const summary = summaries.get(row.key) ?? {
+			key: row.key,
+			latestVersion: row.version,
+			publishedVersion: null,
+			updatedAt: row.updatedAt,
+		};
+
+		if (row.status === "published") {
+			summary.publishedVersion = row.version;
+		}
+		if (row.updatedAt > summary.updatedAt) {
+			summary.updatedAt = row.updatedAt;
+		}
+		summaries.set(row.key, summary);
+	}
+
+	return [...summaries.values()];
+};
+
+/**
+ * List every version of a template, newest first
+ */
+export const getSMSTemplateVersions = async (
+	key: string,
+): Promise<SMSTemplate[]> => {
+	return db
+		.select()
+		.from(smsTemplate)
+		.where(eq(smsTemplate.key, key))
+		.orderBy(desc(smsTemplate.version));
+};
+
+/**
+ * Get a single template version
+ * @returns The version, or null if it does not exist
+ */
+export const getSMSTemplateVersion = findVersion;
+
+export interface SMSTemplateDraftFields {
+	body: string; // Text with `{{variable}}` placeholders, used when no locale variant matches
+	variants?: Record<string, string>; // Localized bodies keyed by locale
+	description?: string; // Note describing the change
+}
+
+/**
+ * Add a draft as the next version of a template, creating the key if it is new
+ * Drafts saved at the same time can pick the same version; the unique index on key and
+ * version rejects all but one, and the others retry with the next number.
+ * @param key - Template key
+ * @param fields - Default body, locale variants and description
+ * @returns The draft, or conflict if concurrent drafts kept taking the version
+ */
+export const createSMSTemplateDraft = async (
+	key: string,
+	fields: SMSTemplateDraftFields,
+): Promise<CreateSMSTemplateDraftResult> => {
+	for (let attempt = 1; attempt <= DRAFT_VERSION_ATTEMPTS; attempt++) {
+		const [{ latest }] = await db
+			.select({ latest: max(smsTemplate.version) })
+			.from(smsTemplate)
+			.where(eq(smsTemplate.key, key));
+
+		const now = new Date();
+		try {
+			const [template] = await db
+				.insert(smsTemplate)
+				.values({
+					id: crypto.randomUUID(),
+					key,
+					version: (latest ?? 0) + 1,
+					body: fields.body,
+					variants: fields.variants,
+					status: "draft",
+					description: fields.description,
+					createdAt: now,
+					updatedAt: now,
+				})
+				.returning();
+
+			return { status: "created", template };
+		} catch (error) {
+			if (!isUniqueViolation(error)) {
+				throw error;
+			}
+		}
+	}
+
+	return { status: "conflict" };
+};
+
+/**
+ * Edit a draft version; published and archived versions are immutable
+ */
+export const updateSMSTemplateDraft = async (
+	key: string,
+	version: number,
+	updates: Partial<SMSTemplateDraftFields>,
+): Promise<UpdateSMSTemplateDraftResult> => {
+	const existing = await findVersion(key, version);
+	if (!existing) {
+		return { status: "not_found" };
+	}
+	if (existing.status !== "draft") {
+		return { status: "not_draft", template: existing };
+	}
+
+	const [template] = await db
+		.update(smsTemplate)
+		.set({
+			body: updates.body,
+			variants: updates.variants,
+			description: updates.description,
+			updatedAt: new Date(),
+		})
+		.where(eq(smsTemplate.id, existing.id))
+		.returning();
+
+	return { status: "updated", template };
+};
+
+/**
+ * Delete a draft version that was never published
+ */
+export const deleteSMSTemplateDraft = async (
+	key: string,
+	version: number,
+): Promise<DeleteSMSTemplateDraftResult> => {
+	const existing = await findVersion(key, version);
+	if (!existing) {
+		return { status: "not_found" };
+	}
+	if (existing.status !== "draft") {
+		return { status: "not_draft", template: existing };
+	}
+
+	await db.delete(smsTemplate).where(eq(smsTemplate.id, existing.id));
+	return { status: "deleted" };
+};
+
+const publishVersion = async (
+	target: SMSTemplate,
+): Promise<{ template: SMSTemplate; previousVersion: number | null }> => {
+	return db.transaction(async (tx) => {
+		const now = new Date();
+
+		// Concurrent publishes of the same key wait here, so each archives the version the other published
+		await tx
+			.select({ id: smsTemplate.id })
+			.from(smsTemplate)
+			.where(eq(smsTemplate.key, target.key))
+			.for("update");
+
+		const archived = await tx
+			.update(smsTemplate)
+			.set({ status: "archived", updatedAt: now })
+			.where(
+				and(
+					eq(smsTemplate.key, target.key),
+					eq(smsTemplate.status, "published"),
+				),
+			)
+			.returning({ version: smsTemplate.version });
+
+		const [template] = await tx
+			.update(smsTemplate)
+			.set({ status: "published", publishedAt: now, updatedAt: now })
+			.where(eq(smsTemplate.id, target.id))
+			.returning();
+
+		return { template, previousVersion: archived[0]?.version ?? null };
+	});
+};
+
+/**
+ * Make a version the one workers render, archiving the currently published version
+ * Publishing an archived version restores it.
+ */
+export const publishSMSTemplateVersion = async (
+	key: string,
+	version: number,
+): Promise<PublishSMSTemplateResult> => {
+	const existing = await findVersion(key, version);
+	if (!existing) {
+		return { status: "not_found" };
+	}
+	if (existing.status === "published") {
+		return { status: "already_published", template: existing };
+	}
+
+	const { template, previousVersion } = await publishVersion(existing);
+	return { status: "published", template, previousVersion };
+};
+
+/**
+ * Re-publish an earlier version that was live before
+ * @param key - Template key
+ * @param version - Archived version to restore; defaults to the newest archived version older than the current one
+ */
+export const rollbackSMSTemplate = async (
+	key: string,
+	version?: number,
+): Promise<RollbackSMSTemplateResult> => {
+	const current = await findPublished(key);
+	if (!current) {
+		return { status: "not_found" };
+	}
+
+	const [previous] = await db
+		.select()
+		.from(smsTemplate)
+		.where(
+			and(
+				eq(smsTemplate.key, key),
+				eq(smsTemplate.status, "archived"),
+				version === undefined
+					? lt(smsTemplate.version, current.version)
+					: eq(smsTemplate.version, version),
+			),
+		)
+		.orderBy(desc(smsTemplate.version))
+		.limit(1);
+
+	if (!previous) {
+		return { status: "no_previous_version" };
+	}
+
+	const { template } = await publishVersion(previous);
+	return {
+		status: "rolled_back",
+		template,
+		previousVersion: current.version,
+	};
+};
@@ -0,0 +1,116 @@
+import {
+	invalidateSuppressionCache,
+	type SuppressionCategory,
+	type SuppressionStore,
+} from "@repo/queue";
+import { and, count, desc, eq, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { smsSuppression } from "../db/schema/notifications";
+
+export type SMSSuppression = typeof smsSuppression.$inferSelect;
+
+export interface AddSuppressionParams {
+	phoneNumber: string;
+	category: SuppressionCategory;
+	reason?: string;
+	source: string; // Where the opt-out came from, e.g. "admin" or "stop-keyword"
+}
+
+export interface ListSuppressionsParams {
+	phoneNumber?: string;
+	category?: SuppressionCategory;
+	offset: number;
+	limit: number;
+}
+
+/**
+ * Postgres-backed opt-out list read by the SMS worker
+ * Wrap with `createCachedSuppressionStore` so each job does not hit the database.
+ */
+export const postgresSuppressionStore: SuppressionStore = {
+	async getOptOutCategories(phoneNumber) {
+		const rows = await db
+			.select({ category: smsSuppression.category })
+			.from(smsSuppression)
+			.where(eq(smsSuppression.phoneNumber, phoneNumber));
+
+		return rows.map((row) => row.category);
+	},
+};
+
+/**
+ * Add an opt-out, or refresh the reason and source of an existing one
+ * @param params - E.164 number, category and origin of the opt-out
+ * @returns The stored entry
+ */
+export const addSuppression = async (
+	params: AddSuppressionParams,
+): Promise<SMSSuppression> => {
+	const [entry] = await db
+		.insert(smsSuppression)
+		.values({
+			id: crypto.randomUUID(),
+			phoneNumber: params.phoneNumber,
+			category: params.category,
+			reason: params.reason,
+			source: params.source,
+			createdAt: new Date(),
+		})
+		.onConflictDoUpdate({
+			target: [smsSuppression.phoneNumber, smsSuppression.category],
+			set: { reason: params.reason, source: params.source },
+		})
+		.returning();
+
+	await invalidateSuppressionCache(params.phoneNumber);
+	return entry;
+};
+
+/**
+ * Remove an opt-out so the number receives that category again
+ * @returns The removed entry, or null if no entry has this id
+ */
+export const removeSuppression = async (
+	id: string,
+): Promise<SMSSuppression | null> => {
+	const [entry] = await db
+		.delete(smsSuppression)
+		.where(eq(smsSuppression.id, id))
+		.returning();
+
+	if (!entry) {
+		return null;
+	}
+
+	await invalidateSuppressionCache(entry.phoneNumber);
+	return entry;
+};
+
+/**
+ * List opt-outs, newest first, optionally filtered by number and category
+ */
+export const listSuppressions = async (
+	params: ListSuppressionsParams,
+): Promise<{ items: SMSSuppression[]; total: number }> => {
+	const filters: SQL[] = [];
+	if (params.phoneNumber) {
+		filters.push(eq(smsSuppression.phoneNumber, params.phoneNumber));
+	}
+	if (params.category) {
+		filters.push(eq(smsSuppression.category, params.category));
+	}
+	const where = filters.length > 0 ? and(...filters) : undefined;
+
+	const [items, [{ total }]] = await Promise.all([
+		db
+			.select()
+			.from(smsSuppression)
+			.where(where)
+			.orderBy(desc(smsSuppression.createdAt))
+			.offset(params.offset)
+			.limit(params.limit),
+		db.select({ total: count() }).from(smsSuppression).where(where),
+	]);
+
+	return { items, total };
+};
@@ -0,0 +1,192 @@
+import type { SMSProviderAccount, SMSQuota, TenantStore } from "@repo/queue";
+import { asc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { type StoredSMSAccount, tenant } from "../db/schema/tenants";
+import { decryptCredentials, encryptCredentials } from "./credentials";
+
+/**
+ * Provider account as returned to callers; credentials never leave the store
+ */
+export interface TenantSMSAccountSummary {
+	provider: string;
+	senderId: string;
+}
+
+export type TenantRecord = Omit<typeof tenant.$inferSelect, "smsAccounts"> & {
+	smsAccounts: TenantSMSAccountSummary[];
+};
+
+export interface TenantFields {
+	name: string;
+	defaultLocale?: string | null; // Locale for recipients without one; null clears it
+	smsAccounts: SMSProviderAccount[]; // Failover order with plaintext credentials; empty uses the deployment's providers
+	rateLimit?: { max: number; windowSeconds: number } | null; // null removes the limit
+	quota?: { daily?: number; monthly?: number } | null; // Omitted periods are unlimited; null removes both
+}
+
+export type UpdateTenantResult =
+	| { status: "updated"; tenant: TenantRecord }
+	| { status: "not_found" };
+
+export type DeleteTenantResult =
+	| { status: "deleted"; tenant: TenantRecord }
+	| { status: "not_found" };
+
+const toRecord = (row: typeof tenant.$inferSelect): TenantRecord => ({
+	...row,
+	smsAccounts: row.smsAccounts.map(({ provider, senderId }) => ({
+		provider,
+		senderId,
+	})),
+});
+
+const encryptAccounts = (
+	tenantId: string,
+	accounts: SMSProviderAccount[],
+): StoredSMSAccount[] =>
+	accounts.map((account) => ({
+		provider: account.provider,
+		senderId: account.senderId,
+		credentials: encryptCredentials(account.credentials, tenantId),
+	}));
+
+const toRateLimitColumns = (rateLimit: TenantFields["rateLimit"]) =>
+	rateLimit === undefined
+		? {}
+		: {
+				rateLimitMax: rateLimit?.max ?? null,
+				rateLimitWindowSeconds: rateLimit?.windowSeconds ?? null,
+			};
+
+const toQuotaColumns = (quota: TenantFields["quota"]) =>
+	quota === undefined
+		? {}
+		: {
+				dailySmsQuota: quota?.daily ?? null,
+				monthlySmsQuota: quota?.monthly ?? null,
+			};
+
+/**
+ * SMS quota of a tenant row, or undefined when both periods are unlimited
+ */
+export const toSMSQuota = (
+	row: Pick<typeof tenant.$inferSelect, "dailySmsQuota" | "monthlySmsQuota">,
+): SMSQuota | undefined =>
+	row.dailySmsQuota !== null || row.monthlySmsQuota !== null
+		? {
+				daily: row.dailySmsQuota ?? undefined,
+				monthly: row.monthlySmsQuota ?? undefined,
+			}
+		: undefined;
+
+/**
+ * Postgres-backed tenant store passed to the SMS worker; decrypts provider credentials
+ */
+export const postgresTenantStore: TenantStore = {
+	async getTenant(id) {
+		const [row] = await db.select().from(tenant).where(eq(tenant.id, id));
+		if (!row) {
+			return null;
+		}
+
+		return {
+			id: row.id,
+			name: row.name,
+			defaultLocale: row.defaultLocale ?? undefined,
+			smsAccounts: row.smsAccounts.map((account) => ({
+				provider: account.provider,
+				senderId: account.senderId,
+				credentials: decryptCredentials(account.credentials, row.id),
+			})),
+			rateLimit:
+				row.rateLimitMax !== null && row.rateLimitWindowSeconds !== null
+					? {
+							max: row.rateLimitMax,
+							durationMs: row.rateLimitWindowSeconds * 1000,
+						}
+					: undefined,
+			quota: toSMSQuota(row),
+			updatedAt: row.updatedAt,
+		};
+	},
+};
+
+/**
+ * List tenants by name
+ */
+export const listTenants = async (): Promise<TenantRecord[]> => {
+	const rows = await db.select().from(tenant).orderBy(asc(tenant.name));
+	return rows.map(toRecord);
+};
+
+/**
+ * Get a single tenant
+ * @returns The tenant, or null if it does not exist
+ */
+export const getTenant = async (id: string): Promise<TenantRecord | null> => {
+	const [row] = await db.select().from(tenant).where(eq(tenant.id, id));
+	return row ? toRecord(row) : null;
+};
+
+/**
+ * Create a tenant, encrypting its provider credentials
+ */
+export const createTenant = async (
+	fields: TenantFields,
+): Promise<TenantRecord> => {
+	const id = crypto.randomUUID();
+	const now = new Date();
+	const [row] = await db
+		.insert(tenant)
+		.values({
+			id,
+			name: fields.name,
+			defaultLocale: fields.defaultLocale,
+			smsAccounts: encryptAccounts(id, fields.smsAccounts),
+			...toRateLimitColumns(fields.rateLimit),
+			...toQuotaColumns(fields.quota),
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning();
+
+	return toRecord(row);
+};
+
+/**
+ * Update a tenant; `smsAccounts`, when given, replaces every account including its credentials
+ * Workers pick up the change when their cached copy of the tenant expires.
+ */
+export const updateTenant = async (
+	id: string,
+	updates: Partial<TenantFields>,
+): Promise<UpdateTenantResult> => {
+	const [row] = await db
+		.update(tenant)
+		.set({
+			name: updates.name,
+			defaultLocale: updates.defaultLocale,
+			smsAccounts:
+				updates.smsAccounts && encryptAccounts(id, updates.smsAccounts),
+			...toRateLimitColumns(updates.rateLimit),
+			...toQuotaColumns(updates.quota),
+			updatedAt: new Date(),
+		})
+		.where(eq(tenant.id, id))
+		.returning();
+
+	return row
+		? { status: "updated", tenant: toRecord(row) }
+		: { status: "not_found" };
+};
+
+/**
+ * Delete a tenant and the API keys bound to it
+ * Queued jobs of the tenant fail without retrying once it is gone.
+ */
+export const deleteTenant = async (id: string): Promise<DeleteTenantResult> => {
+	const [row] = await db.delete(tenant).where(eq(tenant.id, id)).returning();
+	return row
+		? { status: "deleted", tenant: toRecord(row) }
+		: { status: "not_found" };
+};
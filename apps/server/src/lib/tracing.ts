@@ -0,0 +1,52 @@
+import {
+	context,
+	propagation,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import { getRequestId } from "@repo/queue";
+import { createMiddleware } from "hono/factory";
+import { routePath } from "hono/route";
+
+/**
+ * Start a server span for each request
+ * Incoming `traceparent` headers are continued. Job creators called by the handler store the span's
+ * context in job data, so the worker's spans join the same trace. Spans are renamed to the matched
+ * route pattern (e.g. `POST /sms/otp`) once the handler has run.
+ */
+export const httpTracing = createMiddleware(async (c, next) => {
+	const parent = propagation.extract(context.active(), c.req.header());
+	const span = trace.getTracer("@repo/server").startSpan(
+		c.req.method,
+		{
+			kind: SpanKind.SERVER,
+			attributes: {
+				"http.request.method": c.req.method,
+				"url.path": c.req.path,
+				"notification.request_id": getRequestId(),
+			},
+		},
+		parent,
+	);
+
+	try {
+		await context.with(trace.setSpan(parent, span), next);
+
+		const route = routePath(c, -1);
+		span.updateName(`${c.req.method} ${route}`);
+		span.setAttributes({
+			"http.route": route,
+			"http.response.status_code": c.res.status,
+		});
+
+		if (c.error) {
+			span.recordException(c.error);
+		}
+		if (c.res.status >= 500) {
+			span.setStatus({ code: SpanStatusCode.ERROR });
+		}
+	} finally {
+		span.end();
+	}
+});
@@ -0,0 +1,102 @@
+import type { SMSUsageLedger } from "@repo/queue";
+import { and, asc, count, eq, gte, lt, type SQL, sql, sum } from "drizzle-orm";
+import { db } from "../db";
+import { smsUsage } from "../db/schema/usage";
+
+export const USAGE_GROUP_BY = ["day", "type", "tenant", "provider"] as const;
+
+export type UsageGroupBy = (typeof USAGE_GROUP_BY)[number];
+
+export interface SMSUsageFilter {
+	from: Date;
+	to: Date; // Exclusive
+	tenantId?: string;
+	groupBy: UsageGroupBy[];
+}
+
+/**
+ * Totals for one combination of the grouped fields; fields not grouped by are omitted
+ */
+export interface SMSUsageAggregate {
+	day?: string; // UTC date, YYYY-MM-DD
+	type?: string;
+	tenantId?: string | null; // null for sends without a tenant
+	provider?: string;
+	currency: string;
+	messages: number;
+	segments: number;
+	cost: number;
+}
+
+/**
+ * Postgres-backed usage ledger passed to the SMS worker
+ */
+export const postgresUsageLedger: SMSUsageLedger = {
+	async record(entry) {
+		await db.insert(smsUsage).values({
+			id: crypto.randomUUID(),
+			jobId: entry.jobId,
+			tenantId: entry.tenantId,
+			type: entry.type,
+			segments: entry.segments,
+			provider: entry.provider,
+			cost: entry.cost,
+			currency: entry.currency,
+			createdByType: entry.createdBy?.type,
+			createdById: entry.createdBy?.id,
+			occurredAt: entry.occurredAt,
+		});
+	},
+};
+
+const groupColumns: Record<UsageGroupBy, SQL> = {
+	day: sql`to_char(${smsUsage.occurredAt}, 'YYYY-MM-DD')`, // Timestamps are stored in UTC
+	type: sql`${smsUsage.type}`,
+	tenant: sql`${smsUsage.tenantId}`,
+	provider: sql`${smsUsage.provider}`,
+};
+
+const aggregateKeys: Record<UsageGroupBy, keyof SMSUsageAggregate> = {
+	day: "day",
+	type: "type",
+	tenant: "tenantId",
+	provider: "provider",
+};
+
+/**
+ * Sum messages, segments and cost in a time range, grouped by any of day, type, tenant and provider
+ * Rows are always split by currency so costs in different currencies are never added together.
+ */
+export const getSMSUsage = async (
+	filter: SMSUsageFilter,
+): Promise<SMSUsageAggregate[]> => {
+	const conditions = [
+		gte(smsUsage.occurredAt, filter.from),
+		lt(smsUsage.occurredAt, filter.to),
+	];
+	if (filter.tenantId) {
+		conditions.push(eq(smsUsage.tenantId, filter.tenantId));
+	}
+
+	const groups = filter.groupBy.map((group) => groupColumns[group]);
+
+	const rows = await db
+		.select({
+			...Object.fromEntries(
+				filter.groupBy.map((group) => [
+					aggregateKeys[group],
+					groupColumns[group],
+				]),
+			),
+			currency: smsUsage.currency,
+			messages: count(),
+			segments: sum(smsUsage.segments).mapWith(Number),
+			cost: sum(smsUsage.cost).mapWith(Number),
+		})
+		.from(smsUsage)
+		.where(and(...conditions))
+		.groupBy(...groups, smsUsage.currency)
+		.orderBy(...groups.map((group) => asc(group)), asc(smsUsage.currency));
+
+	return rows as SMSUsageAggregate[];
+};
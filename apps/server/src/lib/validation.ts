@@ -0,0 +1,50 @@
+import { normalizeLocale, parsePhoneNumber } from "@repo/queue";
+import { z } from "zod";
+
+/**
+ * Phone number field that validates the number and normalizes it to E.164
+ * Validation issues carry the phone error code (e.g. TOO_SHORT, UNSUPPORTED_REGION) in `params.code`.
+ */
+export const phoneNumberSchema = z
+	.string()
+	.min(1, "Phone number is required")
+	.transform((value, ctx) => {
+		const result = parsePhoneNumber(value);
+		if (!result.valid) {
+			ctx.addIssue({
+				code: "custom",
+				message: result.message,
+				params: { code: result.code },
+			});
+			return z.NEVER;
+		}
+		return result.e164;
+	});
+
+/**
+ * Recipient locale as a BCP 47 tag, canonicalized (e.g. "sw-ke" becomes "sw-KE")
+ */
+export const localeSchema = z.string().transform((value, ctx) => {
+	const locale = normalizeLocale(value);
+	if (!locale) {
+		ctx.addIssue({ code: "custom", message: `Invalid locale: ${value}` });
+		return z.NEVER;
+	}
+	return locale;
+});
+
+/**
+ * SMS category used for opt-out checks; untagged notifications are treated as marketing
+ */
+export const smsCategorySchema = z.enum(["transactional", "marketing"]);
+
+/**
+ * Stored template to render instead of the built-in wording
+ */
+export const smsTemplateReferenceSchema = z.object({
+	key: z.string().min(1),
+	version: z.number().int().min(1).optional(),
+	variables: z
+		.record(z.string(), z.union([z.string(), z.number()]))
+		.optional(),
+});
@@ -0,0 +1,105 @@
+import {
+	createWelcomeEmailJob,
+	createWelcomeSMSJob,
+	type JobCaller,
+	logger,
+} from "@repo/queue";
+
+// Phones verified later than this after sign-up get no welcome SMS; it matches how long
+// completed jobs are kept, so within it the per-user job id stops a second welcome
+const WELCOME_SMS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface WelcomeUser {
+	id: string;
+	name: string;
+	email: string;
+	createdAt: Date;
+	phoneNumber?: unknown;
+	phoneNumberVerified?: unknown;
+}
+
+/**
+ * Whether sign-up queues welcome messages; set WELCOME_MESSAGES_ENABLED=false to turn them off
+ */
+export const welcomeMessagesEnabled = (): boolean =>
+	process.env.WELCOME_MESSAGES_ENABLED !== "false";
+
+// Job ids are derived from the user so a repeated hook is ignored while the first job is retained
+const welcomeSMSJobId = (userId: string) => `welcome-sms-${userId}`;
+const welcomeEmailJobId = (userId: string) => `welcome-email-${userId}`;
+
+const verifiedPhone = (user: WelcomeUser): string | null =>
+	user.phoneNumberVerified === true && typeof user.phoneNumber === "string"
+		? user.phoneNumber
+		: null;
+
+// Welcome messages go out for the deployment itself rather than a tenant
+const createdBy = (user: WelcomeUser): JobCaller => ({
+	type: "user",
+	id: user.id,
+});
+
+const queueWelcomeSMS = async (user: WelcomeUser, phoneNumber: string) => {
+	try {
+		await createWelcomeSMSJob(
+			{
+				recipient: { phoneNumber, name: user.name },
+				userName: user.name,
+				createdBy: createdBy(user),
+			},
+			{ jobId: welcomeSMSJobId(user.id) },
+		);
+	} catch (error) {
+		logger.error("Error queuing welcome SMS", { err: error, userId: user.id });
+	}
+};
+
+/**
+ * Queue the welcome email, and the welcome SMS when the account starts with a verified phone
+ * Failures are logged rather than thrown so they never block sign-up.
+ */
+export const sendWelcomeOnSignUp = async (user: WelcomeUser): Promise<void> => {
+	if (!welcomeMessagesEnabled()) {
+		return;
+	}
+
+	try {
+		await createWelcomeEmailJob(
+			{
+				recipient: { email: user.email, name: user.name },
+				userName: user.name,
+				createdBy: createdBy(user),
+			},
+			{ jobId: welcomeEmailJobId(user.id) },
+		);
+	} catch (error) {
+		logger.error("Error queuing welcome email", {
+			err: error,
+			userId: user.id,
+		});
+	}
+
+	const phoneNumber = verifiedPhone(user);
+	if (phoneNumber) {
+		await queueWelcomeSMS(user, phoneNumber);
+	}
+};
+
+/**
+ * Queue the welcome SMS for a user who verified their first phone number just after signing up
+ * Users who sign up with email add their phone on the dashboard, so this is when most of them
+ * become reachable by SMS. Later number changes do not send it again.
+ */
+export const sendWelcomeOnPhoneVerified = async (
+	user: WelcomeUser,
+): Promise<void> => {
+	const phoneNumber = verifiedPhone(user);
+	if (
+		!welcomeMessagesEnabled() ||
+		!phoneNumber ||
+		Date.now() - user.createdAt.getTime() > WELCOME_SMS_WINDOW_MS
+	) {
+		return;
+	}
+	await queueWelcomeSMS(user, phoneNumber);
+};
@@ -0,0 +1,211 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { logger } from '@repo/queue';
+import { requireAdmin } from '../lib/access';
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_NAMES,
+  DEPLOYMENT_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from '../lib/api-key-store';
+import { getTenant } from '../lib/tenant-store';
+
+const apiKeys = new Hono();
+
+// Only admins grant scopes; API keys cannot create or manage other keys
+apiKeys.use(requireAdmin);
+
+// Validation schemas
+const expiresAtSchema = z.coerce.date().refine((date) => date > new Date(), {
+  message: 'expiresAt must be in the future',
+});
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPE_NAMES)).min(1).transform((scopes) => [...new Set(scopes)]),
+  expiresAt: expiresAtSchema.optional(),
+  tenantId: z.string().min(1).optional(),
+}).refine((data) => !data.tenantId || !data.scopes.some((scope) => DEPLOYMENT_SCOPES.includes(scope)), {
+  message: `Keys bound to a tenant cannot be granted ${DEPLOYMENT_SCOPES.join(', ')}`,
+  path: ['scopes'],
+});
+
+const rotateApiKeySchema = z.object({
+  expiresAt: expiresAtSchema.optional(),
+});
+
+/**
+ * GET /api/notifications/admin/api-keys/scopes
+ * List the scopes keys can be granted, with what each one allows
+ */
+apiKeys.get('/scopes', (c) => {
+  return c.json({
+    success: true,
+    data: Object.entries(API_KEY_SCOPES).map(([scope, description]) => ({ scope, description })),
+  });
+});
+
+/**
+ * GET /api/notifications/admin/api-keys
+ * List keys, newest first; secrets are never returned after creation
+ */
+apiKeys.get('/', async (c) => {
+  try {
+    const keys = await listApiKeys();
+
+    return c.json({
+      success: true,
+      data: keys,
+    });
+  } catch (error) {
+    logger.error('Error listing API keys', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to list API keys',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/api-keys
+ * Create a key, optionally bound to one tenant; the response holds the only copy of the secret
+ */
+apiKeys.post(
+  '/',
+  zValidator('json', createApiKeySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      if (data.tenantId && !(await getTenant(data.tenantId))) {
+        return c.json({
+          success: false,
+          message: `Tenant ${data.tenantId} not found`,
+        }, 404);
+      }
+
+      const created = await createApiKey({ ...data, createdBy: c.get('caller').id });
+
+      return c.json({
+        success: true,
+        message: 'API key created; store the secret now, it cannot be shown again',
+        data: created,
+      }, 201);
+    } catch (error) {
+      logger.error('Error creating API key', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to create API key',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/admin/api-keys/:id/rotate
+ * Revoke a key and issue a new secret with the same name, scopes and tenant
+ */
+apiKeys.post(
+  '/:id/rotate',
+  zValidator('json', rotateApiKeySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const id = c.req.param('id');
+      const data = c.req.valid('json');
+      const result = await rotateApiKey(id, { expiresAt: data.expiresAt, rotatedBy: c.get('caller').id });
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `API key ${id} not found`,
+        }, 404);
+      }
+
+      if (result.status === 'revoked') {
+        return c.json({
+          success: false,
+          message: `API key ${id} is revoked and cannot be rotated`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'API key rotated; store the new secret now, it cannot be shown again',
+        data: {
+          key: result.key,
+          secret: result.secret,
+          previous: result.previous,
+        },
+      }, 201);
+    } catch (error) {
+      logger.error('Error rotating API key', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to rotate API key',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/notifications/admin/api-keys/:id
+ * Revoke a key; requests using it are rejected from then on
+ */
+apiKeys.delete('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const result = await revokeApiKey(id);
+
+    if (result.status === 'not_found') {
+      return c.json({
+        success: false,
+        message: `API key ${id} not found`,
+      }, 404);
+    }
+
+    if (result.status === 'already_revoked') {
+      return c.json({
+        success: false,
+        message: `API key ${id} is already revoked`,
+      }, 409);
+    }
+
+    return c.json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: result.key,
+    });
+  } catch (error) {
+    logger.error('Error revoking API key', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to revoke API key',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default apiKeys;
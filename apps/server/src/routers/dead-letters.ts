@@ -0,0 +1,269 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import {
+  listDeadLetterJobs,
+  getDeadLetterJob,
+  retryDeadLetterJob,
+  retryDeadLetterJobs,
+  removeDeadLetterJob,
+  purgeDeadLetterJobs,
+  SMS_QUEUE_NAME,
+  EMAIL_QUEUE_NAME,
+  logger,
+  type DeadLetterFilter,
+} from '@repo/queue';
+import { jobOwner, requireDeploymentCaller, requireScope } from '../lib/access';
+
+const deadLetters = new Hono();
+
+deadLetters.use(requireScope('queues:admin'), requireDeploymentCaller);
+
+// Validation schemas
+const filterFields = {
+  queueName: z.enum([SMS_QUEUE_NAME, EMAIL_QUEUE_NAME]).optional(),
+  type: z.string().min(1).optional(),
+  failedAfter: z.iso.datetime({ offset: true }).optional(),
+  failedBefore: z.iso.datetime({ offset: true }).optional(),
+};
+
+const listDeadLettersSchema = z.object({
+  ...filterFields,
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Bulk actions need a filter or an explicit `all` so an empty body cannot touch every entry
+const bulkActionSchema = z.object({
+  ...filterFields,
+  all: z.boolean().optional(),
+}).refine((data) => Boolean(data.all || data.queueName || data.type || data.failedAfter || data.failedBefore), {
+  message: 'Provide at least one filter, or all: true',
+});
+
+const toFilter = (data: {
+  queueName?: string;
+  type?: string;
+  failedAfter?: string;
+  failedBefore?: string;
+}): DeadLetterFilter => ({
+  queueName: data.queueName,
+  type: data.type,
+  failedAfter: data.failedAfter ? new Date(data.failedAfter).getTime() : undefined,
+  failedBefore: data.failedBefore ? new Date(data.failedBefore).getTime() : undefined,
+});
+
+/**
+ * GET /api/notifications/dead-letter
+ * List jobs that exhausted their attempts, newest first
+ */
+deadLetters.get(
+  '/',
+  zValidator('query', listDeadLettersSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const { items, total } = await listDeadLetterJobs(toFilter(query), query.offset, query.limit);
+
+      return c.json({
+        success: true,
+        data: {
+          items,
+          total,
+          offset: query.offset,
+          limit: query.limit,
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing dead-lettered jobs', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to list dead-lettered jobs',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/dead-letter/retry
+ * Re-queue every entry matching the filters (or all entries with `all: true`)
+ */
+deadLetters.post(
+  '/retry',
+  zValidator('json', bulkActionSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+      const result = await retryDeadLetterJobs(
+        data.all ? {} : toFilter(data),
+        jobOwner(c.get('caller')).createdBy
+      );
+
+      return c.json({
+        success: true,
+        message: `Retried ${result.retried.length} dead-lettered jobs`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error retrying dead-lettered jobs', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to retry dead-lettered jobs',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/dead-letter/purge
+ * Delete every entry matching the filters (or all entries with `all: true`)
+ */
+deadLetters.post(
+  '/purge',
+  zValidator('json', bulkActionSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+      const removed = await purgeDeadLetterJobs(data.all ? {} : toFilter(data));
+
+      return c.json({
+        success: true,
+        message: `Purged ${removed} dead-lettered jobs`,
+        data: { removed },
+      });
+    } catch (error) {
+      logger.error('Error purging dead-lettered jobs', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to purge dead-lettered jobs',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/dead-letter/:id
+ * Inspect a dead-lettered job with its original payload and error history
+ */
+deadLetters.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const entry = await getDeadLetterJob(id);
+
+    if (!entry) {
+      return c.json({
+        success: false,
+        message: `Dead-lettered job ${id} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    logger.error('Error fetching dead-lettered job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch dead-lettered job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/dead-letter/:id/retry
+ * Re-queue a single entry as a new job linked to the original by `replayOf`
+ */
+deadLetters.post('/:id/retry', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const result = await retryDeadLetterJob(id, jobOwner(c.get('caller')).createdBy);
+
+    if (result.status === 'not_found') {
+      return c.json({
+        success: false,
+        message: `Dead-lettered job ${id} not found`,
+      }, 404);
+    }
+
+    if (result.status === 'unknown_queue') {
+      return c.json({
+        success: false,
+        message: `Queue ${result.queueName} no longer exists`,
+      }, 409);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Dead-lettered job re-queued successfully',
+      data: result,
+    }, 201);
+  } catch (error) {
+    logger.error('Error retrying dead-lettered job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to retry dead-lettered job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api/notifications/dead-letter/:id
+ * Delete a single entry without replaying it
+ */
+deadLetters.delete('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const removed = await removeDeadLetterJob(id);
+
+    if (!removed) {
+      return c.json({
+        success: false,
+        message: `Dead-lettered job ${id} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Dead-lettered job deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting dead-lettered job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to delete dead-lettered job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default deadLetters;
@@ -0,0 +1,119 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import {
+  subscribeToSMSJobEvents,
+  canSubscribeToSMSJobEvents,
+  isSMSJobEventId,
+  logger,
+  type SMSJobEvent,
+  type SMSJobEventFilter,
+} from '@repo/queue';
+import { requireScope, requireTenant, visibleTenant } from '../lib/access';
+
+const events = new Hono();
+
+/**
+ * Comment lines sent while no events flow; Bun closes connections idle for 10 seconds
+ */
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+// Validation schemas
+const streamFilterSchema = z.object({
+  jobId: z.string().min(1).optional(),
+  batchId: z.string().min(1).optional(),
+}).refine((data) => Boolean(data.jobId || data.batchId), {
+  message: 'Provide a jobId or batchId',
+});
+
+/**
+ * GET /api/notifications/sms/events?jobId=...&batchId=...
+ * Stream lifecycle and delivery events for SMS jobs as server-sent events
+ *
+ * Browsers authenticate with their session (EventSource must be opened with `withCredentials: true`);
+ * services send an API key with the `jobs:read` scope.
+ * API keys only see jobs they queued themselves; admins see every job of the tenant they act for.
+ * Jobs and batches the caller may not see are reported as not found.
+ * Each event's id is its position in the queue's event stream; browsers send it back as
+ * `Last-Event-ID` when they reconnect, and events missed in between are replayed first.
+ */
+events.get(
+  '/',
+  requireScope('jobs:read'),
+  requireTenant,
+  zValidator('query', streamFilterSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const caller = c.get('caller');
+    const filter: SMSJobEventFilter = {
+      ...c.req.valid('query'),
+      ...visibleTenant(caller),
+      ...(!caller.admin && { createdBy: { type: caller.type, id: caller.id } }),
+    };
+    const lastEventId = c.req.header('Last-Event-ID');
+    if (lastEventId && !isSMSJobEventId(lastEventId)) {
+      return c.json({
+        success: false,
+        message: 'Invalid Last-Event-ID',
+      }, 400);
+    }
+
+    try {
+      if (!(await canSubscribeToSMSJobEvents(filter))) {
+        return c.json({
+          success: false,
+          message: 'Job or batch not found',
+        }, 404);
+      }
+    } catch (error) {
+      logger.error('Error checking SMS job event access', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to stream job events',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+
+    return streamSSE(
+      c,
+      async (stream) => {
+        const send = (event: SMSJobEvent) => {
+          stream.writeSSE({
+            id: event.id,
+            event: event.event,
+            data: JSON.stringify({
+              jobId: event.jobId,
+              batchId: event.batchId,
+              ...event.data,
+            }),
+          }).catch(() => {
+            // The client went away; onAbort cleans up
+          });
+        };
+
+        const unsubscribe = await subscribeToSMSJobEvents(filter, send, { lastEventId });
+        stream.onAbort(unsubscribe);
+
+        await stream.sleep(HEARTBEAT_INTERVAL_MS);
+        while (!stream.aborted && !stream.closed) {
+          await stream.write(': heartbeat\n\n');
+          await stream.sleep(HEARTBEAT_INTERVAL_MS);
+        }
+        unsubscribe();
+      },
+      async (error) => {
+        logger.error('Error streaming SMS job events', { err: error });
+      }
+    );
+  }
+);
+
+export default events;
@@ -1,7 +1,29 @@
+import apiKeys from './api-keys';
+import deadLetters from './dead-letters';
+import events from './events';
 import notifications from './notifications';
+import otp from './otp';
+import queues from './queues';
+import schedules from './schedules';
+import suppressions from './suppressions';
+import templates from './templates';
+import tenants from './tenants';
+import usage from './usage';
+import webhooks from './webhooks';
 
 export const appRouter = {
+  apiKeys,
+  deadLetters,
+  events,
   notifications,
+  otp,
+  queues,
+  schedules,
+  suppressions,
+  templates,
+  tenants,
+  usage,
+  webhooks,
 };
 
 export type AppRouter = typeof appRouter;
@@ -1,35 +1,105 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
+import { localeSchema, phoneNumberSchema, smsCategorySchema, smsTemplateReferenceSchema } from '../lib/validation';
 import {
   createWelcomeSMSJob,
   createOTPSMSJob,
   createNotificationSMSJob,
+  createBulkNotificationSMSJobs,
+  BulkEnqueueError,
+  createWelcomeEmailJob,
+  createOTPEmailJob,
+  createNotificationEmailJob,
+  getNotificationJobStatus,
+  cancelNotificationJob,
+  analyzeSMS,
+  applySegmentPolicy,
+  estimateSMSCost,
+  getSegmentConfig,
+  logger,
   type CreateWelcomeSMSJobParams,
   type CreateOTPSMSJobParams,
   type CreateNotificationSMSJobParams,
+  type CreateBulkNotificationSMSJobsParams,
+  type CreateWelcomeEmailJobParams,
+  type CreateOTPEmailJobParams,
+  type CreateNotificationEmailJobParams,
 } from '@repo/queue';
+import { checkSMSCategory, jobOwner, requireScope, requireTenant, visibleTenant } from '../lib/access';
+import { releaseTenantSMSQuota, reserveTenantSMSQuota, smsQuotaExceeded } from '../lib/quotas';
 
 const notifications = new Hono();
 
 // Validation schemas
 const welcomeSMSSchema = z.object({
-  phoneNumber: z.string().min(9, 'Phone number must be at least 9 digits'),
+  phoneNumber: phoneNumberSchema,
   name: z.string().optional(),
+  locale: localeSchema.optional(),
   userName: z.string().min(1, 'User name is required'),
+  template: smsTemplateReferenceSchema.optional(),
 });
 
 const otpSMSSchema = z.object({
-  phoneNumber: z.string().min(9, 'Phone number must be at least 9 digits'),
+  phoneNumber: phoneNumberSchema,
   name: z.string().optional(),
+  locale: localeSchema.optional(),
   code: z.string().min(4, 'OTP code must be at least 4 characters'),
   expiryMinutes: z.number().min(1).max(60).default(10),
+  template: smsTemplateReferenceSchema.optional(),
 });
 
 const notificationSMSSchema = z.object({
-  phoneNumber: z.string().min(9, 'Phone number must be at least 9 digits'),
+  phoneNumber: phoneNumberSchema,
   name: z.string().optional(),
+  locale: localeSchema.optional(),
   message: z.string().min(1, 'Message is required'),
+  category: smsCategorySchema.optional(),
+  template: smsTemplateReferenceSchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  priority: z.number().min(1).max(10).optional(),
+  delay: z.number().min(0).optional(),
+});
+
+// Recipients are validated individually by the job creator so one bad number does not reject the batch
+const bulkNotificationSMSSchema = z.object({
+  recipients: z.array(z.object({
+    phoneNumber: z.string(),
+    name: z.string().optional(),
+    variables: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+  })).min(1, 'At least one recipient is required').max(100000),
+  message: z.string().min(1, 'Message is required'),
+  category: smsCategorySchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  priority: z.number().min(1).max(10).optional(),
+  delay: z.number().min(0).optional(),
+  chunkSize: z.number().int().min(1).max(5000).optional(),
+});
+
+const previewSMSSchema = z.object({
+  message: z.string().min(1, 'Message is required'),
+  recipients: z.number().int().min(1).max(100000).default(1),
+});
+
+const welcomeEmailSchema = z.object({
+  email: z.email('Invalid email address'),
+  name: z.string().optional(),
+  userName: z.string().min(1, 'User name is required'),
+});
+
+const otpEmailSchema = z.object({
+  email: z.email('Invalid email address'),
+  name: z.string().optional(),
+  code: z.string().min(4, 'OTP code must be at least 4 characters'),
+  expiryMinutes: z.number().min(1).max(60).default(10),
+});
+
+const notificationEmailSchema = z.object({
+  email: z.email('Invalid email address'),
+  name: z.string().optional(),
+  subject: z.string().min(1, 'Subject is required'),
+  message: z.string().min(1, 'Message is required'),
+  html: z.string().optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
   priority: z.number().min(1).max(10).optional(),
   delay: z.number().min(0).optional(),
@@ -41,6 +111,8 @@ const notificationSMSSchema = z.object({
  */
 notifications.post(
   '/sms/welcome',
+  requireScope('sms:welcome'),
+  requireTenant,
   zValidator('json', welcomeSMSSchema, (result, c) => {
     if (!result.success) {
       return c.json({
@@ -51,18 +123,31 @@ notifications.post(
     }
   }),
   async (c) => {
+    // Quota reserved for messages that are not queued yet, given back if queuing fails
+    let unqueued = 0;
     try {
       const data = c.req.valid('json');
 
+      // Tenant quotas are reserved before queuing; the worker checks them again at send time
+      const quota = await reserveTenantSMSQuota(c, 1);
+      if (quota && !quota.allowed) {
+        return smsQuotaExceeded(c, quota);
+      }
+      unqueued = quota ? 1 : 0;
+
       const params: CreateWelcomeSMSJobParams = {
+        ...jobOwner(c.get('caller')),
         recipient: {
           phoneNumber: data.phoneNumber,
           name: data.name,
+          locale: data.locale,
         },
         userName: data.userName,
+        template: data.template,
       };
 
       const result = await createWelcomeSMSJob(params);
+      unqueued = 0;
 
       return c.json({
         success: true,
@@ -73,7 +158,8 @@ notifications.post(
         },
       }, 201);
     } catch (error) {
-      console.error('Error queuing welcome SMS:', error);
+      await releaseTenantSMSQuota(c, unqueued);
+      logger.error('Error queuing welcome SMS', { err: error });
       return c.json({
         success: false,
         message: 'Failed to queue welcome SMS',
@@ -89,6 +175,8 @@ notifications.post(
  */
 notifications.post(
   '/sms/otp',
+  requireScope('sms:otp'),
+  requireTenant,
   zValidator('json', otpSMSSchema, (result, c) => {
     if (!result.success) {
       return c.json({
@@ -99,19 +187,31 @@ notifications.post(
     }
   }),
   async (c) => {
+    // Quota reserved for messages that are not queued yet, given back if queuing fails
+    let unqueued = 0;
     try {
       const data = c.req.valid('json');
 
+      const quota = await reserveTenantSMSQuota(c, 1);
+      if (quota && !quota.allowed) {
+        return smsQuotaExceeded(c, quota);
+      }
+      unqueued = quota ? 1 : 0;
+
       const params: CreateOTPSMSJobParams = {
+        ...jobOwner(c.get('caller')),
         recipient: {
           phoneNumber: data.phoneNumber,
           name: data.name,
+          locale: data.locale,
         },
         code: data.code,
         expiryMinutes: data.expiryMinutes,
+        template: data.template,
       };
 
       const result = await createOTPSMSJob(params);
+      unqueued = 0;
 
       return c.json({
         success: true,
@@ -122,7 +222,8 @@ notifications.post(
         },
       }, 201);
     } catch (error) {
-      console.error('Error queuing OTP SMS:', error);
+      await releaseTenantSMSQuota(c, unqueued);
+      logger.error('Error queuing OTP SMS', { err: error });
       return c.json({
         success: false,
         message: 'Failed to queue OTP SMS',
@@ -138,6 +239,8 @@ notifications.post(
  */
 notifications.post(
   '/sms/notification',
+  requireScope('sms:notification'),
+  requireTenant,
   zValidator('json', notificationSMSSchema, (result, c) => {
     if (!result.success) {
       return c.json({
@@ -148,15 +251,42 @@ notifications.post(
     }
   }),
   async (c) => {
+    // Quota reserved for messages that are not queued yet, given back if queuing fails
+    let unqueued = 0;
     try {
       const data = c.req.valid('json');
 
+      const forbidden = checkSMSCategory(c, data.category);
+      if (forbidden) {
+        return forbidden;
+      }
+
+      // Oversized messages are rejected (or transliterated to GSM-7) before they reach the queue
+      const segments = applySegmentPolicy(data.message);
+      if (segments.status === 'rejected') {
+        return c.json({
+          success: false,
+          message: segments.reason,
+          data: segments.info,
+        }, 400);
+      }
+
+      const quota = await reserveTenantSMSQuota(c, 1);
+      if (quota && !quota.allowed) {
+        return smsQuotaExceeded(c, quota);
+      }
+      unqueued = quota ? 1 : 0;
+
       const params: CreateNotificationSMSJobParams = {
+        ...jobOwner(c.get('caller')),
         recipient: {
           phoneNumber: data.phoneNumber,
           name: data.name,
+          locale: data.locale,
         },
-        message: data.message,
+        message: segments.message,
+        category: data.category,
+        template: data.template,
         metadata: data.metadata,
       };
 
@@ -166,6 +296,7 @@ notifications.post(
       };
 
       const result = await createNotificationSMSJob(params, options);
+      unqueued = 0;
 
       return c.json({
         success: true,
@@ -173,10 +304,14 @@ notifications.post(
         data: {
           jobId: result.jobId,
           queueName: result.queueName,
+          segments: segments.info.segments,
+          encoding: segments.info.encoding,
+          transliterated: segments.status === 'transliterated',
         },
       }, 201);
     } catch (error) {
-      console.error('Error queuing notification SMS:', error);
+      await releaseTenantSMSQuota(c, unqueued);
+      logger.error('Error queuing notification SMS', { err: error });
       return c.json({
         success: false,
         message: 'Failed to queue notification SMS',
@@ -186,4 +321,374 @@ notifications.post(
   }
 );
 
+/**
+ * POST /api/notifications/sms/notification/bulk
+ * Send a personalized notification SMS to many recipients as one batch
+ */
+notifications.post(
+  '/sms/notification/bulk',
+  requireScope('sms:notification'),
+  requireTenant,
+  zValidator('json', bulkNotificationSMSSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    // Quota reserved for messages that are not queued yet, given back if queuing fails
+    let unqueued = 0;
+    try {
+      const data = c.req.valid('json');
+
+      const forbidden = checkSMSCategory(c, data.category);
+      if (forbidden) {
+        return forbidden;
+      }
+
+      // The whole batch must fit in the quota; invalid recipients are given back below
+      const quota = await reserveTenantSMSQuota(c, data.recipients.length);
+      if (quota && !quota.allowed) {
+        return smsQuotaExceeded(c, quota);
+      }
+      unqueued = quota ? data.recipients.length : 0;
+
+      const params: CreateBulkNotificationSMSJobsParams = {
+        ...jobOwner(c.get('caller')),
+        recipients: data.recipients,
+        message: data.message,
+        category: data.category,
+        metadata: data.metadata,
+      };
+
+      const options = {
+        priority: data.priority,
+        delay: data.delay,
+        chunkSize: data.chunkSize,
+      };
+
+      const result = await createBulkNotificationSMSJobs(params, options);
+      await releaseTenantSMSQuota(c, unqueued - result.queued);
+      unqueued = 0;
+
+      if (result.queued === 0) {
+        return c.json({
+          success: false,
+          message: 'No valid recipients to queue',
+          data: result,
+        }, 400);
+      }
+
+      return c.json({
+        success: true,
+        message: `Queued ${result.queued} of ${result.total} notification SMS`,
+        data: result,
+      }, 201);
+    } catch (error) {
+      // Chunks queued before the failure stay queued; only the rest of the reservation is given back
+      if (error instanceof BulkEnqueueError) {
+        await releaseTenantSMSQuota(c, unqueued - error.result.queued);
+        logger.error('Error queuing bulk notification SMS', { err: error, batchId: error.result.batchId });
+        return c.json({
+          success: false,
+          message: 'Failed to queue part of the bulk notification SMS',
+          error: error.message,
+          data: error.result,
+        }, 500);
+      }
+
+      await releaseTenantSMSQuota(c, unqueued);
+      logger.error('Error queuing bulk notification SMS', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to queue bulk notification SMS',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/sms/preview
+ * Report encoding, segment count and estimated cost of a message, and how the length policy treats it
+ */
+notifications.post(
+  '/sms/preview',
+  requireScope('sms:notification'),
+  zValidator('json', previewSMSSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      const info = analyzeSMS(data.message);
+      const policy = applySegmentPolicy(data.message);
+      const { maxSegments } = getSegmentConfig();
+
+      return c.json({
+        success: true,
+        data: {
+          ...info,
+          cost: estimateSMSCost(info, data.recipients),
+          policy: {
+            status: policy.status,
+            maxSegments,
+            message: policy.status === 'transliterated' ? policy.message : undefined,
+            segments: policy.info.segments,
+            reason: policy.status === 'rejected' ? policy.reason : undefined,
+          },
+        },
+      });
+    } catch (error) {
+      logger.error('Error previewing SMS', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to preview SMS',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/email/welcome
+ * Send a welcome email to a new user
+ */
+notifications.post(
+  '/email/welcome',
+  requireScope('email:welcome'),
+  requireTenant,
+  zValidator('json', welcomeEmailSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      const params: CreateWelcomeEmailJobParams = {
+        ...jobOwner(c.get('caller')),
+        recipient: {
+          email: data.email,
+          name: data.name,
+        },
+        userName: data.userName,
+      };
+
+      const result = await createWelcomeEmailJob(params);
+
+      return c.json({
+        success: true,
+        message: 'Welcome email queued successfully',
+        data: {
+          jobId: result.jobId,
+          queueName: result.queueName,
+        },
+      }, 201);
+    } catch (error) {
+      logger.error('Error queuing welcome email', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to queue welcome email',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/email/otp
+ * Send an OTP email for verification
+ */
+notifications.post(
+  '/email/otp',
+  requireScope('email:otp'),
+  requireTenant,
+  zValidator('json', otpEmailSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      const params: CreateOTPEmailJobParams = {
+        ...jobOwner(c.get('caller')),
+        recipient: {
+          email: data.email,
+          name: data.name,
+        },
+        code: data.code,
+        expiryMinutes: data.expiryMinutes,
+      };
+
+      const result = await createOTPEmailJob(params);
+
+      return c.json({
+        success: true,
+        message: 'OTP email queued successfully',
+        data: {
+          jobId: result.jobId,
+          queueName: result.queueName,
+        },
+      }, 201);
+    } catch (error) {
+      logger.error('Error queuing OTP email', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to queue OTP email',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/email/notification
+ * Send a generic notification email
+ */
+notifications.post(
+  '/email/notification',
+  requireScope('email:notification'),
+  requireTenant,
+  zValidator('json', notificationEmailSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      const params: CreateNotificationEmailJobParams = {
+        ...jobOwner(c.get('caller')),
+        recipient: {
+          email: data.email,
+          name: data.name,
+        },
+        subject: data.subject,
+        message: data.message,
+        html: data.html,
+        metadata: data.metadata,
+      };
+
+      const options = {
+        priority: data.priority,
+        delay: data.delay,
+      };
+
+      const result = await createNotificationEmailJob(params, options);
+
+      return c.json({
+        success: true,
+        message: 'Notification email queued successfully',
+        data: {
+          jobId: result.jobId,
+          queueName: result.queueName,
+        },
+      }, 201);
+    } catch (error) {
+      logger.error('Error queuing notification email', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to queue notification email',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/jobs/:jobId
+ * Look up the state, attempts and delivery result of a queued notification
+ * Jobs of other tenants are reported as not found.
+ */
+notifications.get('/jobs/:jobId', requireScope('jobs:read'), requireTenant, async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+    const status = await getNotificationJobStatus(jobId, visibleTenant(c.get('caller')));
+
+    if (!status) {
+      return c.json({
+        success: false,
+        message: `Job ${jobId} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    logger.error('Error fetching job status', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch job status',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api/notifications/jobs/:jobId
+ * Cancel a notification that is still waiting or delayed, giving back its reserved quota
+ */
+notifications.delete('/jobs/:jobId', requireScope('jobs:cancel'), requireTenant, async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+    const result = await cancelNotificationJob(jobId, visibleTenant(c.get('caller')));
+
+    switch (result.status) {
+      case 'not_found':
+        return c.json({
+          success: false,
+          message: `Job ${jobId} not found`,
+        }, 404);
+      case 'not_cancellable':
+        return c.json({
+          success: false,
+          message: `Job ${jobId} cannot be cancelled in state '${result.state}'`,
+          data: { jobId, queueName: result.queueName, state: result.state },
+        }, 409);
+      case 'cancelled':
+        return c.json({
+          success: true,
+          message: 'Job cancelled successfully',
+          data: { jobId, queueName: result.queueName },
+        });
+    }
+  } catch (error) {
+    logger.error('Error cancelling job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to cancel job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 export default notifications;
@@ -0,0 +1,158 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { localeSchema, phoneNumberSchema } from '../lib/validation';
+import { sendOTP, verifyOTP, logger } from '@repo/queue';
+import { jobOwner, requireScope, requireTenant } from '../lib/access';
+import { releaseTenantSMSQuota, reserveTenantSMSQuota, smsQuotaExceeded } from '../lib/quotas';
+
+const otp = new Hono();
+
+// Validation schemas
+const sendOTPSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  name: z.string().optional(),
+  locale: localeSchema.optional(),
+  purpose: z.string().min(1).max(64).optional(),
+});
+
+const verifyOTPSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  code: z.string().regex(/^\d{4,10}$/, 'OTP code must be 4 to 10 digits'),
+  purpose: z.string().min(1).max(64).optional(),
+});
+
+/**
+ * POST /api/notifications/otp/send
+ * Generate a one-time code server-side and send it by SMS
+ */
+otp.post(
+  '/send',
+  requireScope('otp:send'),
+  requireTenant,
+  zValidator('json', sendOTPSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    // Quota reserved for a code that is not queued yet, given back if sending fails
+    let unqueued = 0;
+    try {
+      const data = c.req.valid('json');
+
+      const quota = await reserveTenantSMSQuota(c, 1);
+      if (quota && !quota.allowed) {
+        return smsQuotaExceeded(c, quota);
+      }
+      unqueued = quota ? 1 : 0;
+
+      const result = await sendOTP({
+        ...jobOwner(c.get('caller')),
+        recipient: {
+          phoneNumber: data.phoneNumber,
+          name: data.name,
+          locale: data.locale,
+        },
+        purpose: data.purpose,
+      });
+
+      if (result.status !== 'sent') {
+        await releaseTenantSMSQuota(c, unqueued);
+        c.header('Retry-After', result.retryAfterSeconds.toString());
+        return c.json({
+          success: false,
+          message: result.status === 'locked'
+            ? 'Too many failed attempts, try again later'
+            : 'A code was sent recently, wait before requesting another',
+          data: result,
+        }, 429);
+      }
+      unqueued = 0;
+
+      return c.json({
+        success: true,
+        message: 'OTP sent successfully',
+        data: {
+          jobId: result.jobId,
+          queueName: result.queueName,
+          expiresAt: result.expiresAt,
+          resendAvailableAt: result.resendAvailableAt,
+        },
+      }, 201);
+    } catch (error) {
+      await releaseTenantSMSQuota(c, unqueued);
+      logger.error('Error sending OTP', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to send OTP',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/otp/verify
+ * Verify a code; correct codes are consumed and wrong guesses count towards lockout
+ */
+otp.post(
+  '/verify',
+  requireScope('otp:verify'),
+  requireTenant,
+  zValidator('json', verifyOTPSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+      const result = await verifyOTP({ ...data, tenantId: c.get('caller').tenantId });
+
+      switch (result.status) {
+        case 'valid':
+          return c.json({
+            success: true,
+            message: 'OTP verified successfully',
+          });
+        case 'invalid':
+          return c.json({
+            success: false,
+            message: 'Invalid code',
+            data: result,
+          }, 400);
+        case 'not_found':
+          return c.json({
+            success: false,
+            message: 'No active code for this phone number, request a new one',
+            data: result,
+          }, 400);
+        case 'locked':
+          c.header('Retry-After', result.retryAfterSeconds.toString());
+          return c.json({
+            success: false,
+            message: 'Too many failed attempts, try again later',
+            data: result,
+          }, 429);
+      }
+    } catch (error) {
+      logger.error('Error verifying OTP', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to verify OTP',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+export default otp;
@@ -0,0 +1,296 @@
+import { Hono, type Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import {
+  ADMIN_JOB_STATES,
+  getAdminQueue,
+  getQueueOverviews,
+  listQueueJobs,
+  getQueueJobDetail,
+  retryQueueJob,
+  removeQueueJob,
+  promoteQueueJob,
+  pauseQueue,
+  resumeQueue,
+  logger,
+  type QueueJobActionResult,
+} from '@repo/queue';
+import { requireDeploymentCaller, requireScope } from '../lib/access';
+
+const queues = new Hono();
+
+queues.use(requireScope('queues:admin'), requireDeploymentCaller);
+
+// Validation schemas
+const listJobsSchema = z.object({
+  state: z.enum(ADMIN_JOB_STATES).default('waiting'),
+  type: z.string().min(1).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const queueNotFound = (c: Context, name: string) => {
+  return c.json({
+    success: false,
+    message: `Queue ${name} not found`,
+  }, 404);
+};
+
+/**
+ * Map a job action result to a response
+ * @param action - Past-tense verb used in the success message
+ */
+const actionResponse = (c: Context, result: QueueJobActionResult, action: string) => {
+  if (result.status === 'not_found') {
+    return c.json({
+      success: false,
+      message: `Job ${result.jobId} not found`,
+    }, 404);
+  }
+
+  if (result.status === 'invalid_state') {
+    return c.json({
+      success: false,
+      message: `Job ${result.jobId} is ${result.state} and cannot be ${action}`,
+    }, 409);
+  }
+
+  return c.json({
+    success: true,
+    message: `Job ${action} successfully`,
+    data: { jobId: result.jobId },
+  });
+};
+
+/**
+ * GET /api/notifications/admin/queues
+ * Job counts per state and pause status for every queue
+ */
+queues.get('/', async (c) => {
+  try {
+    const overviews = await getQueueOverviews();
+
+    return c.json({
+      success: true,
+      data: overviews,
+    });
+  } catch (error) {
+    logger.error('Error fetching queue overview', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch queue overview',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/queues/:queue/pause
+ * Stop workers from picking up new jobs; active jobs finish normally
+ */
+queues.post('/:queue/pause', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    await pauseQueue(queue);
+
+    return c.json({
+      success: true,
+      message: `Queue ${name} paused`,
+    });
+  } catch (error) {
+    logger.error('Error pausing queue', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to pause queue',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/queues/:queue/resume
+ * Let workers pick up jobs again
+ */
+queues.post('/:queue/resume', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    await resumeQueue(queue);
+
+    return c.json({
+      success: true,
+      message: `Queue ${name} resumed`,
+    });
+  } catch (error) {
+    logger.error('Error resuming queue', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to resume queue',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/notifications/admin/queues/:queue/jobs
+ * List jobs in one state, newest first, optionally filtered by job type
+ */
+queues.get(
+  '/:queue/jobs',
+  zValidator('query', listJobsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const name = c.req.param('queue');
+      const queue = getAdminQueue(name);
+      if (!queue) {
+        return queueNotFound(c, name);
+      }
+
+      const query = c.req.valid('query');
+      const { items, total } = await listQueueJobs(queue, query.state, query);
+
+      return c.json({
+        success: true,
+        data: {
+          items,
+          total,
+          offset: query.offset,
+          limit: query.limit,
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing queue jobs', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to list queue jobs',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/admin/queues/:queue/jobs/:jobId
+ * Inspect a job: payload, options, attempts, stack traces and logs
+ */
+queues.get('/:queue/jobs/:jobId', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const jobId = c.req.param('jobId');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    const job = await getQueueJobDetail(queue, jobId);
+    if (!job) {
+      return c.json({
+        success: false,
+        message: `Job ${jobId} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    logger.error('Error fetching queue job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch queue job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/queues/:queue/jobs/:jobId/retry
+ * Run a failed or completed job again
+ */
+queues.post('/:queue/jobs/:jobId/retry', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    const result = await retryQueueJob(queue, c.req.param('jobId'));
+    return actionResponse(c, result, 'retried');
+  } catch (error) {
+    logger.error('Error retrying queue job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to retry queue job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/queues/:queue/jobs/:jobId/promote
+ * Run a delayed job now instead of at its scheduled time
+ */
+queues.post('/:queue/jobs/:jobId/promote', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    const result = await promoteQueueJob(queue, c.req.param('jobId'));
+    return actionResponse(c, result, 'promoted');
+  } catch (error) {
+    logger.error('Error promoting queue job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to promote queue job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api/notifications/admin/queues/:queue/jobs/:jobId
+ * Remove a job that is not being processed
+ */
+queues.delete('/:queue/jobs/:jobId', async (c) => {
+  try {
+    const name = c.req.param('queue');
+    const queue = getAdminQueue(name);
+    if (!queue) {
+      return queueNotFound(c, name);
+    }
+
+    const result = await removeQueueJob(queue, c.req.param('jobId'));
+    return actionResponse(c, result, 'removed');
+  } catch (error) {
+    logger.error('Error removing queue job', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to remove queue job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default queues;
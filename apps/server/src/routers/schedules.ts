@@ -0,0 +1,346 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { parseExpression } from 'cron-parser';
+import { phoneNumberSchema, smsCategorySchema } from '../lib/validation';
+import {
+  createNotificationSMSSchedule,
+  updateNotificationSMSSchedule,
+  getNotificationSMSSchedule,
+  listNotificationSMSSchedules,
+  removeNotificationSMSSchedule,
+  applySegmentPolicy,
+  logger,
+} from '@repo/queue';
+import { checkSMSCategory, jobOwner, requireScope, requireTenant, visibleTenant } from '../lib/access';
+
+const schedules = new Hono();
+
+schedules.use(requireScope('sms:schedules'), requireTenant);
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Same parser BullMQ uses for repeat patterns, so a pattern accepted here also schedules
+const isValidCron = (pattern: string) => {
+  try {
+    parseExpression(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Validation schemas
+const scheduleFields = {
+  cron: z.string().min(1).refine(isValidCron, 'Invalid cron pattern').optional(),
+  every: z.number().int().min(60000, 'Interval must be at least 60000ms').optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  startDate: z.iso.datetime({ offset: true }).optional(),
+  endDate: z.iso.datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() > Date.now(), 'End date must be in the future')
+    .optional(),
+  limit: z.number().int().min(1).optional(),
+};
+
+const createScheduleSchema = z.object({
+  scheduleId: z.string().min(1).optional(),
+  phoneNumber: phoneNumberSchema,
+  name: z.string().optional(),
+  message: z.string().min(1, 'Message is required'),
+  category: smsCategorySchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  priority: z.number().min(1).max(10).optional(),
+  ...scheduleFields,
+}).refine((data) => !data.cron !== !data.every, {
+  message: 'Provide exactly one of cron or every',
+  path: ['cron'],
+});
+
+const updateScheduleSchema = z.object({
+  phoneNumber: phoneNumberSchema.optional(),
+  name: z.string().optional(),
+  message: z.string().min(1, 'Message is required').optional(),
+  category: smsCategorySchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  ...scheduleFields,
+});
+
+const listSchedulesSchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+/**
+ * POST /api/notifications/sms/schedules
+ * Create a recurring notification SMS (cron pattern or fixed interval)
+ */
+schedules.post(
+  '/',
+  zValidator('json', createScheduleSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+
+      const forbidden = checkSMSCategory(c, data.category);
+      if (forbidden) {
+        return forbidden;
+      }
+
+      // Reusing an id replaces the schedule, which is only allowed within the caller's tenant
+      if (data.scheduleId) {
+        const { tenantId } = visibleTenant(c.get('caller'));
+        const taken = await getNotificationSMSSchedule(data.scheduleId);
+        if (taken && tenantId !== undefined && taken.tenantId !== tenantId) {
+          return c.json({
+            success: false,
+            message: `Schedule id ${data.scheduleId} is already in use`,
+          }, 409);
+        }
+      }
+
+      const segments = applySegmentPolicy(data.message);
+      if (segments.status === 'rejected') {
+        return c.json({
+          success: false,
+          message: segments.reason,
+          data: segments.info,
+        }, 400);
+      }
+
+      const schedule = await createNotificationSMSSchedule(
+        {
+          ...jobOwner(c.get('caller')),
+          scheduleId: data.scheduleId,
+          recipient: {
+            phoneNumber: data.phoneNumber,
+            name: data.name,
+          },
+          message: segments.message,
+          category: data.category,
+          metadata: data.metadata,
+        },
+        {
+          cron: data.cron,
+          every: data.every,
+          timezone: data.timezone,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          limit: data.limit,
+        },
+        { priority: data.priority }
+      );
+
+      return c.json({
+        success: true,
+        message: 'Schedule created successfully',
+        data: schedule,
+      }, 201);
+    } catch (error) {
+      logger.error('Error creating schedule', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to create schedule',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/sms/schedules
+ * List notification SMS schedules ordered by next run
+ */
+schedules.get(
+  '/',
+  zValidator('query', listSchedulesSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { offset, limit } = c.req.valid('query');
+      const items = await listNotificationSMSSchedules(
+        offset,
+        offset + limit - 1,
+        visibleTenant(c.get('caller'))
+      );
+
+      return c.json({
+        success: true,
+        data: items,
+      });
+    } catch (error) {
+      logger.error('Error listing schedules', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to list schedules',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/sms/schedules/:scheduleId
+ * Get a single schedule with its run count and next run time
+ */
+schedules.get('/:scheduleId', async (c) => {
+  try {
+    const scheduleId = c.req.param('scheduleId');
+    const schedule = await getNotificationSMSSchedule(scheduleId, visibleTenant(c.get('caller')));
+
+    if (!schedule) {
+      return c.json({
+        success: false,
+        message: `Schedule ${scheduleId} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    logger.error('Error fetching schedule', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch schedule',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * PATCH /api/notifications/sms/schedules/:scheduleId
+ * Update the message, recipient or timing of a schedule
+ */
+schedules.patch(
+  '/:scheduleId',
+  zValidator('json', updateScheduleSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const scheduleId = c.req.param('scheduleId');
+      const data = c.req.valid('json');
+
+      const forbidden = checkSMSCategory(c, data.category);
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const filter = visibleTenant(c.get('caller'));
+      const existing = await getNotificationSMSSchedule(scheduleId, filter);
+      if (!existing) {
+        return c.json({
+          success: false,
+          message: `Schedule ${scheduleId} not found`,
+        }, 404);
+      }
+
+      const segments = data.message ? applySegmentPolicy(data.message) : null;
+      if (segments?.status === 'rejected') {
+        return c.json({
+          success: false,
+          message: segments.reason,
+          data: segments.info,
+        }, 400);
+      }
+
+      const schedule = await updateNotificationSMSSchedule(scheduleId, {
+        recipient: data.phoneNumber
+          ? { phoneNumber: data.phoneNumber, name: data.name }
+          : data.name !== undefined
+            ? { ...existing.recipient, name: data.name }
+            : undefined,
+        message: segments?.message,
+        category: data.category,
+        metadata: data.metadata,
+        cron: data.cron,
+        every: data.every,
+        timezone: data.timezone,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        limit: data.limit,
+      }, filter);
+
+      if (!schedule) {
+        return c.json({
+          success: false,
+          message: `Schedule ${scheduleId} not found`,
+        }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Schedule updated successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      logger.error('Error updating schedule', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to update schedule',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/notifications/sms/schedules/:scheduleId
+ * Delete a schedule; runs already queued still go out
+ */
+schedules.delete('/:scheduleId', async (c) => {
+  try {
+    const scheduleId = c.req.param('scheduleId');
+    const removed = await removeNotificationSMSSchedule(scheduleId, visibleTenant(c.get('caller')));
+
+    if (!removed) {
+      return c.json({
+        success: false,
+        message: `Schedule ${scheduleId} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Schedule deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting schedule', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to delete schedule',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default schedules;
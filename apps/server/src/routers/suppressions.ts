@@ -0,0 +1,145 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { logger } from '@repo/queue';
+import { phoneNumberSchema } from '../lib/validation';
+import {
+  addSuppression,
+  removeSuppression,
+  listSuppressions,
+} from '../lib/suppression-store';
+import { requireDeploymentCaller, requireScope } from '../lib/access';
+
+const suppressions = new Hono();
+
+// The opt-out list applies to every tenant's messages
+suppressions.use(requireDeploymentCaller);
+
+// Validation schemas
+// Transactional messages ignore opt-outs, so a transactional opt-out would never take effect
+const suppressionCategorySchema = z.enum(['all', 'marketing']);
+
+const addSuppressionSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  category: suppressionCategorySchema.default('all'),
+  reason: z.string().max(500).optional(),
+  source: z.string().min(1).max(100).default('admin'),
+});
+
+const listSuppressionsSchema = z.object({
+  phoneNumber: phoneNumberSchema.optional(),
+  category: suppressionCategorySchema.optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+/**
+ * POST /api/notifications/suppressions
+ * Opt a number out of all messages or of marketing messages
+ */
+suppressions.post(
+  '/',
+  requireScope('suppressions:write'),
+  zValidator('json', addSuppressionSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+      const entry = await addSuppression(data);
+
+      return c.json({
+        success: true,
+        message: 'Suppression added successfully',
+        data: entry,
+      }, 201);
+    } catch (error) {
+      logger.error('Error adding suppression', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to add suppression',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/suppressions
+ * List opt-outs, newest first, filtered by phone number and category
+ */
+suppressions.get(
+  '/',
+  requireScope('suppressions:read'),
+  zValidator('query', listSuppressionsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const { items, total } = await listSuppressions(query);
+
+      return c.json({
+        success: true,
+        data: {
+          items,
+          total,
+          offset: query.offset,
+          limit: query.limit,
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing suppressions', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to list suppressions',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/notifications/suppressions/:id
+ * Remove an opt-out so the number receives messages again
+ */
+suppressions.delete('/:id', requireScope('suppressions:write'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const removed = await removeSuppression(id);
+
+    if (!removed) {
+      return c.json({
+        success: false,
+        message: `Suppression ${id} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Suppression removed successfully',
+      data: removed,
+    });
+  } catch (error) {
+    logger.error('Error removing suppression', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to remove suppression',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default suppressions;
@@ -0,0 +1,475 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { localeSchema } from '../lib/validation';
+import {
+  DEFAULT_SMS_TEMPLATE_KEYS,
+  SMS_TEMPLATE_VARIABLES,
+  findUnknownTemplateVariables,
+  logger,
+  type SMSJobType,
+} from '@repo/queue';
+import {
+  listSMSTemplates,
+  getSMSTemplateVersions,
+  getSMSTemplateVersion,
+  createSMSTemplateDraft,
+  updateSMSTemplateDraft,
+  deleteSMSTemplateDraft,
+  publishSMSTemplateVersion,
+  rollbackSMSTemplate,
+} from '../lib/sms-template-store';
+import { requireDeploymentCaller, requireScope } from '../lib/access';
+
+const templates = new Hono();
+
+/**
+ * Variables available to a template key
+ * Default keys are rendered from job data alone, so they may only use that job type's variables.
+ */
+const allowedVariablesFor = (key: string): string[] | undefined => {
+  const type = Object.entries(DEFAULT_SMS_TEMPLATE_KEYS).find(([, defaultKey]) => defaultKey === key)?.[0];
+  return type ? SMS_TEMPLATE_VARIABLES[type as SMSJobType] : undefined;
+};
+
+const validateBodies = (key: string, bodies: string[]) => {
+  const allowed = allowedVariablesFor(key);
+  const unknown = new Set(bodies.flatMap((body) => findUnknownTemplateVariables(body, allowed)));
+  return unknown.size > 0
+    ? `Unknown variables for template ${key}: ${[...unknown].join(', ')}`
+    : null;
+};
+
+// Validation schemas
+const templateKeySchema = z.string().regex(/^[a-z0-9][a-z0-9._-]{0,99}$/, 'Invalid template key');
+
+const versionParamsSchema = z.object({
+  key: templateKeySchema,
+  version: z.coerce.number().int().min(1),
+});
+
+const templateBodySchema = z.string().min(1, 'Body is required').max(1600);
+
+const createDraftSchema = z.object({
+  body: templateBodySchema,
+  variants: z.record(localeSchema, templateBodySchema).optional(),
+  description: z.string().max(500).optional(),
+});
+
+const updateDraftSchema = createDraftSchema.partial();
+
+const rollbackSchema = z.object({
+  version: z.number().int().min(1).optional(),
+});
+
+/**
+ * GET /api/notifications/sms/templates
+ * List template keys with their latest and published versions
+ */
+templates.get('/', requireScope('templates:read'), async (c) => {
+  try {
+    const items = await listSMSTemplates();
+
+    return c.json({
+      success: true,
+      data: items,
+    });
+  } catch (error) {
+    logger.error('Error listing templates', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to list templates',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/notifications/sms/templates/:key
+ * List every version of a template, newest first
+ */
+templates.get('/:key', requireScope('templates:read'), async (c) => {
+  try {
+    const key = c.req.param('key');
+    const versions = await getSMSTemplateVersions(key);
+
+    if (versions.length === 0) {
+      return c.json({
+        success: false,
+        message: `Template ${key} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        key,
+        variables: allowedVariablesFor(key) ?? null,
+        versions,
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching template', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch template',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/sms/templates/:key/versions
+ * Save a new draft version; the key is created on its first version
+ */
+templates.post(
+  '/:key/versions',
+  requireScope('templates:write'),
+  requireDeploymentCaller,
+  zValidator('param', z.object({ key: templateKeySchema }), (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  zValidator('json', createDraftSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const invalid = validateBodies(key, [data.body, ...Object.values(data.variants ?? {})]);
+      if (invalid) {
+        return c.json({
+          success: false,
+          message: invalid,
+        }, 400);
+      }
+
+      const result = await createSMSTemplateDraft(key, data);
+
+      if (result.status === 'conflict') {
+        return c.json({
+          success: false,
+          message: `Another draft of template ${key} was saved at the same time; try again`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Template draft created successfully',
+        data: result.template,
+      }, 201);
+    } catch (error) {
+      logger.error('Error creating template draft', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to create template draft',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/sms/templates/:key/versions/:version
+ * Get a single template version
+ */
+templates.get(
+  '/:key/versions/:version',
+  requireScope('templates:read'),
+  zValidator('param', versionParamsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key, version } = c.req.valid('param');
+      const template = await getSMSTemplateVersion(key, version);
+
+      if (!template) {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} not found`,
+        }, 404);
+      }
+
+      return c.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Error fetching template version', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to fetch template version',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * PATCH /api/notifications/sms/templates/:key/versions/:version
+ * Edit a draft; published and archived versions cannot change
+ */
+templates.patch(
+  '/:key/versions/:version',
+  requireScope('templates:write'),
+  requireDeploymentCaller,
+  zValidator('param', versionParamsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  zValidator('json', updateDraftSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key, version } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const invalid = validateBodies(key, [
+        ...(data.body ? [data.body] : []),
+        ...Object.values(data.variants ?? {}),
+      ]);
+      if (invalid) {
+        return c.json({
+          success: false,
+          message: invalid,
+        }, 400);
+      }
+
+      const result = await updateSMSTemplateDraft(key, version, data);
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} not found`,
+        }, 404);
+      }
+
+      if (result.status === 'not_draft') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} is ${result.template.status}; create a new version instead`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Template draft updated successfully',
+        data: result.template,
+      });
+    } catch (error) {
+      logger.error('Error updating template draft', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to update template draft',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/notifications/sms/templates/:key/versions/:version
+ * Delete a draft that was never published
+ */
+templates.delete(
+  '/:key/versions/:version',
+  requireScope('templates:write'),
+  requireDeploymentCaller,
+  zValidator('param', versionParamsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key, version } = c.req.valid('param');
+      const result = await deleteSMSTemplateDraft(key, version);
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} not found`,
+        }, 404);
+      }
+
+      if (result.status === 'not_draft') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} is ${result.template.status} and cannot be deleted`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Template draft deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Error deleting template draft', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to delete template draft',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/sms/templates/:key/versions/:version/publish
+ * Make a version live; the previously published version is archived
+ */
+templates.post(
+  '/:key/versions/:version/publish',
+  requireScope('templates:write'),
+  requireDeploymentCaller,
+  zValidator('param', versionParamsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key, version } = c.req.valid('param');
+      const result = await publishSMSTemplateVersion(key, version);
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} not found`,
+        }, 404);
+      }
+
+      if (result.status === 'already_published') {
+        return c.json({
+          success: false,
+          message: `Template ${key} v${version} is already published`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Template published successfully',
+        data: {
+          template: result.template,
+          previousVersion: result.previousVersion,
+        },
+      });
+    } catch (error) {
+      logger.error('Error publishing template', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to publish template',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/notifications/sms/templates/:key/rollback
+ * Re-publish an archived version (the one before the current version by default)
+ */
+templates.post(
+  '/:key/rollback',
+  requireScope('templates:write'),
+  requireDeploymentCaller,
+  zValidator('param', z.object({ key: templateKeySchema }), (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  zValidator('json', rollbackSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const { key } = c.req.valid('param');
+      const { version } = c.req.valid('json');
+      const result = await rollbackSMSTemplate(key, version);
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `Template ${key} has no published version`,
+        }, 404);
+      }
+
+      if (result.status === 'no_previous_version') {
+        return c.json({
+          success: false,
+          message: version === undefined
+            ? `Template ${key} has no earlier published version`
+            : `Template ${key} v${version} was never published`,
+        }, 409);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Template rolled back successfully',
+        data: {
+          template: result.template,
+          previousVersion: result.previousVersion,
+        },
+      });
+    } catch (error) {
+      logger.error('Error rolling back template', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to roll back template',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+export default templates;
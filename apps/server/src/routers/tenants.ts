@@ -0,0 +1,239 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { logger, SMS_PROVIDER_CREDENTIALS } from '@repo/queue';
+import { requireAdmin } from '../lib/access';
+import { localeSchema } from '../lib/validation';
+import {
+  createTenant,
+  deleteTenant,
+  getTenant,
+  listTenants,
+  updateTenant,
+} from '../lib/tenant-store';
+
+const tenants = new Hono();
+
+// Tenants hold provider credentials, so only admins may manage them
+tenants.use(requireAdmin);
+
+// Validation schemas
+const smsAccountSchema = z
+  .object({
+    provider: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .refine((provider) => provider in SMS_PROVIDER_CREDENTIALS, {
+        message: `provider must be one of: ${Object.keys(SMS_PROVIDER_CREDENTIALS).join(', ')}`,
+      }),
+    senderId: z.string().trim().min(1).max(20),
+    credentials: z.record(z.string(), z.string().min(1)).default({}),
+  })
+  .superRefine((account, ctx) => {
+    const missing = (SMS_PROVIDER_CREDENTIALS[account.provider] ?? []).filter(
+      (field) => !account.credentials[field]
+    );
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['credentials'],
+        message: `Missing credentials for ${account.provider}: ${missing.join(', ')}`,
+      });
+    }
+  });
+
+const rateLimitSchema = z.object({
+  max: z.number().int().min(1),
+  windowSeconds: z.number().int().min(1).max(86400),
+});
+
+const quotaSchema = z
+  .object({
+    daily: z.number().int().min(0).optional(),
+    monthly: z.number().int().min(0).optional(),
+  })
+  .refine((quota) => quota.daily === undefined || quota.monthly === undefined || quota.daily <= quota.monthly, {
+    message: 'daily quota cannot exceed the monthly quota',
+  });
+
+const createTenantSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  defaultLocale: localeSchema.optional(),
+  smsAccounts: z.array(smsAccountSchema).max(5).default([]),
+  rateLimit: rateLimitSchema.optional(),
+  quota: quotaSchema.optional(),
+});
+
+const updateTenantSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  defaultLocale: localeSchema.nullable().optional(),
+  smsAccounts: z.array(smsAccountSchema).max(5).optional(),
+  rateLimit: rateLimitSchema.nullable().optional(),
+  quota: quotaSchema.nullable().optional(),
+});
+
+/**
+ * GET /api/notifications/admin/tenants
+ * List tenants with their sender IDs; credentials are never returned
+ */
+tenants.get('/', async (c) => {
+  try {
+    const list = await listTenants();
+
+    return c.json({
+      success: true,
+      data: list,
+    });
+  } catch (error) {
+    logger.error('Error listing tenants', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to list tenants',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/notifications/admin/tenants/:id
+ * Get a single tenant
+ */
+tenants.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const tenant = await getTenant(id);
+
+    if (!tenant) {
+      return c.json({
+        success: false,
+        message: `Tenant ${id} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (error) {
+    logger.error('Error fetching tenant', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to fetch tenant',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/notifications/admin/tenants
+ * Create a tenant; provider credentials are encrypted before they are stored
+ */
+tenants.post(
+  '/',
+  zValidator('json', createTenantSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const data = c.req.valid('json');
+      const tenant = await createTenant(data);
+
+      return c.json({
+        success: true,
+        message: 'Tenant created successfully',
+        data: tenant,
+      }, 201);
+    } catch (error) {
+      logger.error('Error creating tenant', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to create tenant',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * PATCH /api/notifications/admin/tenants/:id
+ * Update a tenant; `smsAccounts` replaces every account, so credentials must be sent again
+ */
+tenants.patch(
+  '/:id',
+  zValidator('json', updateTenantSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const id = c.req.param('id');
+      const data = c.req.valid('json');
+      const result = await updateTenant(id, data);
+
+      if (result.status === 'not_found') {
+        return c.json({
+          success: false,
+          message: `Tenant ${id} not found`,
+        }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Tenant updated successfully',
+        data: result.tenant,
+      });
+    } catch (error) {
+      logger.error('Error updating tenant', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to update tenant',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/notifications/admin/tenants/:id
+ * Delete a tenant together with the API keys bound to it
+ */
+tenants.delete('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const result = await deleteTenant(id);
+
+    if (result.status === 'not_found') {
+      return c.json({
+        success: false,
+        message: `Tenant ${id} not found`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Tenant deleted successfully',
+      data: result.tenant,
+    });
+  } catch (error) {
+    logger.error('Error deleting tenant', { err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to delete tenant',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default tenants;
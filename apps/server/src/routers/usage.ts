@@ -0,0 +1,108 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { logger } from '@repo/queue';
+import { requireScope, requireTenant } from '../lib/access';
+import { USAGE_GROUP_BY, getSMSUsage, type SMSUsageAggregate } from '../lib/usage-store';
+
+const usage = new Hono();
+
+usage.use(requireScope('usage:read'), requireTenant);
+
+const MAX_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+const startOfUTCMonth = (): Date => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+};
+
+// Validation schemas
+const usageQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    tenantId: z.string().min(1).optional(),
+    groupBy: z
+      .string()
+      .default('day,type,tenant')
+      .transform((value) => [...new Set(value.split(',').map((group) => group.trim()).filter(Boolean))])
+      .pipe(z.array(z.enum(USAGE_GROUP_BY))),
+  })
+  .transform((query) => ({
+    ...query,
+    from: query.from ?? startOfUTCMonth(),
+    to: query.to ?? new Date(),
+  }))
+  .refine((query) => query.from < query.to, { message: 'from must be before to', path: ['from'] })
+  .refine((query) => query.to.getTime() - query.from.getTime() <= MAX_RANGE_MS, {
+    message: 'Range cannot exceed 366 days',
+    path: ['to'],
+  });
+
+/**
+ * Add up aggregates per currency
+ */
+const totalsByCurrency = (rows: SMSUsageAggregate[]) => {
+  const totals = new Map<string, { currency: string; messages: number; segments: number; cost: number }>();
+  for (const row of rows) {
+    const total = totals.get(row.currency) ?? { currency: row.currency, messages: 0, segments: 0, cost: 0 };
+    total.messages += row.messages;
+    total.segments += row.segments;
+    total.cost = Math.round((total.cost + row.cost) * 10000) / 10000;
+    totals.set(row.currency, total);
+  }
+  return [...totals.values()];
+};
+
+/**
+ * GET /api/notifications/usage
+ * SMS sent, segments and cost from the usage ledger, grouped by day, type, tenant and/or provider
+ * Defaults to the current UTC month grouped by day, type and tenant. Keys bound to a tenant only see that tenant.
+ */
+usage.get(
+  '/',
+  zValidator('query', usageQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.error.issues,
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const callerTenantId = c.get('caller').tenantId;
+
+      if (callerTenantId && query.tenantId && query.tenantId !== callerTenantId) {
+        return c.json({
+          success: false,
+          message: `Cannot read usage of tenant ${query.tenantId}`,
+        }, 403);
+      }
+
+      const rows = await getSMSUsage({ ...query, tenantId: callerTenantId ?? query.tenantId });
+
+      return c.json({
+        success: true,
+        data: {
+          from: query.from,
+          to: query.to,
+          groupBy: query.groupBy,
+          rows,
+          totals: totalsByCurrency(rows),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching usage', { err: error });
+      return c.json({
+        success: false,
+        message: 'Failed to fetch usage',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+export default usage;
@@ -0,0 +1,143 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Hono } from 'hono';
+import {
+  parseDeliveryReports,
+  supportsDeliveryReports,
+  publishSMSDeliveryEvent,
+  SMS_QUEUE_NAME,
+  logger,
+} from '@repo/queue';
+import { applyDeliveryReport } from '../lib/notification-message-store';
+
+const webhooks = new Hono();
+
+/**
+ * Compare the callback token with the secret in constant time
+ * Both sides are hashed first so their lengths match and the secret's length is not revealed.
+ */
+const isValidToken = (token: string | undefined, secret: string): boolean => {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return token !== undefined && timingSafeEqual(digest(token), digest(secret));
+};
+
+/**
+ * Read a callback body sent either as JSON or as form fields
+ */
+const readCallbackBody = async (request: Request): Promise<unknown> => {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('application/json')) {
+    return request.json();
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    return Object.fromEntries(
+      [...form.entries()].filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  }
+
+  const text = await request.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+};
+
+/**
+ * POST /api/notifications/webhooks/dlr/:provider
+ * Receive delivery receipts from an SMS provider and update the stored message status
+ *
+ * The provider must call the URL with `?token=<DLR_WEBHOOK_SECRET>`. Callbacks are rejected while
+ * the secret is not set, so receipts cannot be forged on a misconfigured deployment.
+ */
+webhooks.post('/dlr/:provider', async (c) => {
+  const provider = c.req.param('provider');
+
+  const secret = process.env.DLR_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('DLR_WEBHOOK_SECRET is not set; rejecting delivery report', { provider });
+    return c.json({
+      success: false,
+      message: 'Delivery report webhooks are not configured',
+    }, 503);
+  }
+
+  if (!isValidToken(c.req.query('token'), secret)) {
+    return c.json({
+      success: false,
+      message: 'Invalid webhook token',
+    }, 401);
+  }
+
+  if (!supportsDeliveryReports(provider)) {
+    return c.json({
+      success: false,
+      message: `Delivery reports are not supported for provider '${provider}'`,
+    }, 404);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await readCallbackBody(c.req.raw);
+  } catch {
+    return c.json({
+      success: false,
+      message: 'Malformed delivery report body',
+    }, 400);
+  }
+
+  try {
+    const reports = parseDeliveryReports(provider, payload);
+
+    let matched = 0;
+    const unmatched: string[] = [];
+
+    for (const report of reports) {
+      const updated = await applyDeliveryReport(report);
+      if (updated.length > 0) {
+        matched += updated.length;
+      } else {
+        unmatched.push(report.messageId);
+      }
+
+      // Stream subscribers get the receipt next to the job's lifecycle events
+      for (const message of updated.filter((row) => row.queueName === SMS_QUEUE_NAME)) {
+        await publishSMSDeliveryEvent({
+          jobId: message.jobId,
+          batchId: message.batchId ?? undefined,
+          provider: report.provider,
+          messageId: report.messageId,
+          status: report.status,
+          description: report.description,
+        }).catch((error) => {
+          logger.error('Failed to publish delivery event', { jobId: message.jobId, err: error });
+        });
+      }
+    }
+
+    if (unmatched.length > 0) {
+      logger.warn('Delivery reports for unknown or already reported message ids', { provider, messageIds: unmatched });
+    }
+
+    // Always acknowledge parsed callbacks so the provider does not keep retrying them
+    return c.json({
+      success: true,
+      data: {
+        received: reports.length,
+        matched,
+        unmatched,
+      },
+    });
+  } catch (error) {
+    logger.error('Error processing delivery report', { provider, err: error });
+    return c.json({
+      success: false,
+      message: 'Failed to process delivery report',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default webhooks;
@@ -0,0 +1,37 @@
+/**
+ * Set a user's role
+ *
+ * Admins hold every API scope and manage API keys and tenants. Sign-up always creates
+ * plain users, so the first admin is promoted here.
+ *
+ * Usage:
+ *   bun run user:role <email> <admin|user>
+ */
+
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { user } from "../db/schema/auth";
+
+const ROLES = ["admin", "user"];
+
+const [email, role] = process.argv.slice(2);
+
+if (!email || !role || !ROLES.includes(role)) {
+	console.error("Usage: bun run user:role <email> <admin|user>");
+	process.exit(1);
+}
+
+const updated = await db
+	.update(user)
+	.set({ role, updatedAt: new Date() })
+	.where(eq(user.email, email.trim().toLowerCase()))
+	.returning({ id: user.id });
+
+if (updated.length === 0) {
+	console.error(`No user with email ${email}`);
+	process.exit(1);
+}
+
+console.log(`${email} is now ${role === "admin" ? "an admin" : "a user"}`);
+process.exit(0);
@@ -8,26 +8,91 @@
  *   bun run apps/server/src/workers/start-workers.ts
  */
 
-import { createSMSWorker, closeSMSWorker } from '@repo/queue';
+import { createServer, type Server } from 'node:http';
+import {
+    createSMSWorker,
+    closeSMSWorker,
+    createEmailWorker,
+    closeEmailWorker,
+    createCachedSuppressionStore,
+    metricsRegistry,
+    isMetricsRequestAuthorized,
+    logger,
+    initTracing,
+    shutdownTracing,
+} from '@repo/queue';
+import { notificationMessageStore } from '../lib/notification-message-store';
+import { postgresSuppressionStore } from '../lib/suppression-store';
+import { smsTemplateStore } from '../lib/sms-template-store';
+import { postgresTenantStore } from '../lib/tenant-store';
+import { postgresUsageLedger } from '../lib/usage-store';
 
 // Store worker instances for graceful shutdown
 let smsWorker: ReturnType<typeof createSMSWorker> | null = null;
+let emailWorker: ReturnType<typeof createEmailWorker> | null = null;
+let metricsServer: Server | null = null;
+
+/**
+ * Serve worker metrics for Prometheus on WORKER_METRICS_PORT (default 9464)
+ */
+const startMetricsServer = () => {
+    const port = Number.parseInt(process.env.WORKER_METRICS_PORT || '9464', 10);
+
+    metricsServer = createServer(async (req, res) => {
+        if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+            res.writeHead(404).end();
+            return;
+        }
+
+        if (!isMetricsRequestAuthorized(req.headers.authorization)) {
+            res.writeHead(401).end('Unauthorized');
+            return;
+        }
+
+        try {
+            const body = await metricsRegistry.metrics();
+            res.writeHead(200, { 'Content-Type': metricsRegistry.contentType }).end(body);
+        } catch (error) {
+            logger.error('Failed to render metrics', { err: error });
+            res.writeHead(500).end();
+        }
+    });
+
+    metricsServer.listen(port, () => {
+        logger.info('Worker metrics listening', { port, path: '/metrics' });
+    });
+};
 
 /**
  * Initialize and start all workers
  */
 const startWorkers = async () => {
-    console.log('🚀 Starting notification workers...');
+    logger.info('Starting notification workers');
 
     try {
+        initTracing({ serviceName: 'notification-workers' });
+
         // Initialize SMS worker
-        console.log('📱 Initializing SMS worker...');
-        smsWorker = createSMSWorker();
-        console.log('✅ SMS worker started successfully');
+        logger.info('Initializing SMS worker');
+        smsWorker = createSMSWorker({
+            messageStore: notificationMessageStore,
+            suppressionStore: createCachedSuppressionStore(postgresSuppressionStore),
+            templateStore: smsTemplateStore,
+            tenantStore: postgresTenantStore,
+            usageLedger: postgresUsageLedger,
+        });
+        logger.info('SMS worker started');
+
+        // Initialize email worker
+        logger.info('Initializing email worker');
+        emailWorker = createEmailWorker({ messageStore: notificationMessageStore });
+        logger.info('Email worker started');
 
-        console.log('✨ All workers are running and ready to process jobs');
+        startMetricsServer();
+
+        logger.info('All workers are running and ready to process jobs');
     } catch (error) {
-        console.error('❌ Failed to start workers:', error);
+        logger.error('Failed to start workers', { err: error });
         process.exit(1);
     }
 };
@@ -36,42 +101,55 @@ const startWorkers = async () => {
  * Gracefully shutdown all workers
  */
 const shutdownWorkers = async () => {
-    console.log('\n🛑 Shutting down workers gracefully...');
+    logger.info('Shutting down workers gracefully');
 
     try {
         if (smsWorker) {
-            console.log('📱 Closing SMS worker...');
+            logger.info('Closing SMS worker');
             await closeSMSWorker(smsWorker);
-            console.log('✅ SMS worker closed');
+            logger.info('SMS worker closed');
         }
 
-        console.log('✨ All workers shut down successfully');
+        if (emailWorker) {
+            logger.info('Closing email worker');
+            await closeEmailWorker(emailWorker);
+            logger.info('Email worker closed');
+        }
+
+        if (metricsServer) {
+            metricsServer.close();
+        }
+
+        // Export spans still buffered before the process exits
+        await shutdownTracing();
+
+        logger.info('All workers shut down');
         process.exit(0);
     } catch (error) {
-        console.error('❌ Error during shutdown:', error);
+        logger.error('Error during shutdown', { err: error });
         process.exit(1);
     }
 };
 
 // Handle graceful shutdown signals
 process.on('SIGTERM', () => {
-    console.log('📨 Received SIGTERM signal');
+    logger.info('Received shutdown signal', { signal: 'SIGTERM' });
     shutdownWorkers();
 });
 
 process.on('SIGINT', () => {
-    console.log('📨 Received SIGINT signal');
+    logger.info('Received shutdown signal', { signal: 'SIGINT' });
     shutdownWorkers();
 });
 
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
-    console.error('💥 Uncaught exception:', error);
+    logger.error('Uncaught exception', { err: error });
     shutdownWorkers();
 });
 
-process.on('unhandledRejection', (reason, promise) => {
-    console.error('💥 Unhandled rejection at:', promise, 'reason:', reason);
+process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { err: reason });
     shutdownWorkers();
 });
 
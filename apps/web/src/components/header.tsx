@@ -1,11 +1,19 @@
+import { authClient, isAdmin } from "@/lib/auth-client";
 import { Link } from "@tanstack/react-router";
 import { ModeToggle } from "./mode-toggle";
 import UserMenu from "./user-menu";
 
 export default function Header() {
+	const { data: session } = authClient.useSession();
 	const links = [
 		{ to: "/", label: "Home" },
 		{ to: "/dashboard", label: "Dashboard" },
+		...(isAdmin(session?.user)
+			? ([
+					{ to: "/admin/queues", label: "Queues" },
+					{ to: "/admin/api-keys", label: "API keys" },
+				] as const)
+			: []),
 	] as const;
 
 	return (
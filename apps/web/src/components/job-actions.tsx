@@ -0,0 +1,60 @@
+import {
+	type QueueJobAction,
+	availableJobActions,
+	runJobAction,
+} from "@/lib/queue-admin";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+
+const ACTION_LABELS: Record<QueueJobAction, string> = {
+	retry: "Retry",
+	promote: "Run now",
+	remove: "Remove",
+};
+
+export default function JobActions({
+	queueName,
+	jobId,
+	state,
+	onRemoved,
+}: {
+	queueName: string;
+	jobId: string;
+	state: string;
+	onRemoved?: () => void;
+}) {
+	const queryClient = useQueryClient();
+	const mutation = useMutation({
+		mutationFn: (action: QueueJobAction) =>
+			runJobAction(queueName, jobId, action),
+		onSuccess: (message, action) => {
+			toast.success(message ?? "Done");
+			if (action === "remove") {
+				onRemoved?.();
+			}
+		},
+		onError: (error) => {
+			toast.error(error.message);
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: ["queues"] });
+		},
+	});
+
+	return (
+		<div className="flex gap-2">
+			{availableJobActions(state).map((action) => (
+				<Button
+					key={action}
+					size="sm"
+					variant={action === "remove" ? "destructive" : "outline"}
+					disabled={mutation.isPending}
+					onClick={() => mutation.mutate(action)}
+				>
+					{ACTION_LABELS[action]}
+				</Button>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,246 @@
+import { authClient } from "@/lib/auth-client";
+import { useForm } from "@tanstack/react-form";
+import { useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+import Loader from "./loader";
+import { Button } from "./ui/button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+/**
+ * Add, verify or change the signed-in user's phone number
+ * The number only replaces the current one once the SMS code is confirmed.
+ */
+export default function PhoneNumberCard() {
+	const { data: session, isPending, refetch } = authClient.useSession();
+	const [editing, setEditing] = useState(false);
+	const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+
+	if (isPending) {
+		return <Loader />;
+	}
+
+	const current = session?.user.phoneNumberVerified
+		? session.user.phoneNumber
+		: null;
+
+	const reset = () => {
+		setEditing(false);
+		setCodeSentTo(null);
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Phone number</CardTitle>
+				<CardDescription>
+					{current
+						? `Verified: ${current}`
+						: "Add a phone number to receive SMS from your account."}
+				</CardDescription>
+				{!editing && (
+					<CardAction>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => setEditing(true)}
+						>
+							{current ? "Change" : "Add"}
+						</Button>
+					</CardAction>
+				)}
+			</CardHeader>
+			{editing && (
+				<CardContent>
+					{codeSentTo ? (
+						<VerifyCodeForm
+							phoneNumber={codeSentTo}
+							onVerified={() => {
+								reset();
+								refetch();
+							}}
+							onBack={() => setCodeSentTo(null)}
+						/>
+					) : (
+						<SendCodeForm onSent={setCodeSentTo} onCancel={reset} />
+					)}
+				</CardContent>
+			)}
+		</Card>
+	);
+}
+
+function SendCodeForm({
+	onSent,
+	onCancel,
+}: {
+	onSent: (phoneNumber: string) => void;
+	onCancel: () => void;
+}) {
+	const form = useForm({
+		defaultValues: {
+			phoneNumber: "",
+		},
+		onSubmit: async ({ value }) => {
+			const { error } = await authClient.phoneNumber.sendOtp({
+				phoneNumber: value.phoneNumber,
+			});
+			if (error) {
+				toast.error(error.message || error.statusText);
+				return;
+			}
+			onSent(value.phoneNumber);
+			toast.success(`Code sent to ${value.phoneNumber}`);
+		},
+		validators: {
+			onSubmit: z.object({
+				phoneNumber: z.string().trim().min(1, "Phone number is required"),
+			}),
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				form.handleSubmit();
+			}}
+			className="grid gap-4"
+		>
+			<form.Field name="phoneNumber">
+				{(field) => (
+					<div className="space-y-2">
+						<Label htmlFor={field.name}>New phone number</Label>
+						<Input
+							id={field.name}
+							name={field.name}
+							type="tel"
+							autoComplete="tel"
+							placeholder="e.g. +254712345678"
+							value={field.state.value}
+							onBlur={field.handleBlur}
+							onChange={(e) => field.handleChange(e.target.value)}
+						/>
+						{field.state.meta.errors.map((error) => (
+							<p key={error?.message} className="text-red-500">
+								{error?.message}
+							</p>
+						))}
+					</div>
+				)}
+			</form.Field>
+
+			<div className="flex gap-2">
+				<form.Subscribe>
+					{(state) => (
+						<Button
+							type="submit"
+							disabled={!state.canSubmit || state.isSubmitting}
+						>
+							{state.isSubmitting ? "Sending..." : "Send code"}
+						</Button>
+					)}
+				</form.Subscribe>
+				<Button type="button" variant="ghost" onClick={onCancel}>
+					Cancel
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+function VerifyCodeForm({
+	phoneNumber,
+	onVerified,
+	onBack,
+}: {
+	phoneNumber: string;
+	onVerified: () => void;
+	onBack: () => void;
+}) {
+	const form = useForm({
+		defaultValues: {
+			code: "",
+		},
+		onSubmit: async ({ value }) => {
+			const { error } = await authClient.phoneNumber.verify({
+				phoneNumber,
+				code: value.code.trim(),
+				updatePhoneNumber: true,
+			});
+			if (error) {
+				toast.error(error.message || error.statusText);
+				return;
+			}
+			onVerified();
+			toast.success("Phone number verified");
+		},
+		validators: {
+			onSubmit: z.object({
+				code: z
+					.string()
+					.trim()
+					.regex(/^\d{4,8}$/, "Enter the code from the SMS"),
+			}),
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				form.handleSubmit();
+			}}
+			className="grid gap-4"
+		>
+			<form.Field name="code">
+				{(field) => (
+					<div className="space-y-2">
+						<Label htmlFor={field.name}>Code sent to {phoneNumber}</Label>
+						<Input
+							id={field.name}
+							name={field.name}
+							inputMode="numeric"
+							autoComplete="one-time-code"
+							value={field.state.value}
+							onBlur={field.handleBlur}
+							onChange={(e) => field.handleChange(e.target.value)}
+						/>
+						{field.state.meta.errors.map((error) => (
+							<p key={error?.message} className="text-red-500">
+								{error?.message}
+							</p>
+						))}
+					</div>
+				)}
+			</form.Field>
+
+			<div className="flex gap-2">
+				<form.Subscribe>
+					{(state) => (
+						<Button
+							type="submit"
+							disabled={!state.canSubmit || state.isSubmitting}
+						>
+							{state.isSubmitting ? "Verifying..." : "Verify"}
+						</Button>
+					)}
+				</form.Subscribe>
+				<Button type="button" variant="ghost" onClick={onBack}>
+					Use a different number
+				</Button>
+			</div>
+		</form>
+	);
+}
@@ -30,7 +30,14 @@ export default function SignInForm({
 					password: value.password,
 				},
 				{
-					onSuccess: () => {
+					onSuccess: (context) => {
+						// Users with two-factor authentication finish signing in with an SMS code
+						if (context.data?.twoFactorRedirect) {
+							navigate({
+								to: "/two-factor",
+							});
+							return;
+						}
 						navigate({
 							to: "/dashboard",
 						});
@@ -0,0 +1,245 @@
+import { authClient } from "@/lib/auth-client";
+import { useForm } from "@tanstack/react-form";
+import { useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+import Loader from "./loader";
+import { Button } from "./ui/button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+type Action = "enable" | "disable" | "backup-codes";
+
+const ACTION_LABELS: Record<Action, string> = {
+	enable: "Turn on",
+	disable: "Turn off",
+	"backup-codes": "Generate new codes",
+};
+
+/**
+ * Turn SMS two-factor authentication on or off and manage backup codes
+ * Every change asks for the account password again.
+ */
+export default function TwoFactorCard() {
+	const { data: session, isPending } = authClient.useSession();
+	const [action, setAction] = useState<Action | null>(null);
+	const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+	if (isPending) {
+		return <Loader />;
+	}
+
+	const enabled = session?.user.twoFactorEnabled === true;
+	const hasPhone = session?.user.phoneNumberVerified === true;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Two-factor authentication</CardTitle>
+				<CardDescription>
+					{enabled
+						? `On. Sign-in codes are sent to ${session?.user.phoneNumber}.`
+						: hasPhone
+							? "Off. Turn it on to confirm each sign-in with a code sent by SMS."
+							: "Verify a phone number to turn on sign-in codes by SMS."}
+				</CardDescription>
+				{!action && (enabled || hasPhone) && (
+					<CardAction className="flex gap-2">
+						{enabled ? (
+							<>
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={() => setAction("backup-codes")}
+								>
+									Backup codes
+								</Button>
+								<Button
+									size="sm"
+									variant="destructive"
+									onClick={() => setAction("disable")}
+								>
+									Turn off
+								</Button>
+							</>
+						) : (
+							<Button size="sm" onClick={() => setAction("enable")}>
+								Turn on
+							</Button>
+						)}
+					</CardAction>
+				)}
+			</CardHeader>
+			{(action || backupCodes) && (
+				<CardContent>
+					{backupCodes ? (
+						<BackupCodes
+							codes={backupCodes}
+							onDone={() => setBackupCodes(null)}
+						/>
+					) : (
+						action && (
+							<PasswordForm
+								action={action}
+								onDone={(codes) => {
+									setAction(null);
+									setBackupCodes(codes ?? null);
+								}}
+								onCancel={() => setAction(null)}
+							/>
+						)
+					)}
+				</CardContent>
+			)}
+		</Card>
+	);
+}
+
+function PasswordForm({
+	action,
+	onDone,
+	onCancel,
+}: {
+	action: Action;
+	onDone: (backupCodes?: string[]) => void;
+	onCancel: () => void;
+}) {
+	const form = useForm({
+		defaultValues: {
+			password: "",
+		},
+		onSubmit: async ({ value }) => {
+			const { password } = value;
+
+			if (action === "disable") {
+				const { error } = await authClient.twoFactor.disable({ password });
+				if (error) {
+					toast.error(error.message || error.statusText);
+					return;
+				}
+				toast.success("Two-factor authentication turned off");
+				onDone();
+				return;
+			}
+
+			const { data, error } =
+				action === "enable"
+					? await authClient.twoFactor.enable({ password })
+					: await authClient.twoFactor.generateBackupCodes({ password });
+			if (error) {
+				toast.error(error.message || error.statusText);
+				return;
+			}
+			toast.success(
+				action === "enable"
+					? "Two-factor authentication turned on"
+					: "New backup codes generated",
+			);
+			onDone(data.backupCodes);
+		},
+		validators: {
+			onSubmit: z.object({
+				password: z.string().min(1, "Password is required"),
+			}),
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				form.handleSubmit();
+			}}
+			className="grid gap-4"
+		>
+			<form.Field name="password">
+				{(field) => (
+					<div className="space-y-2">
+						<Label htmlFor={field.name}>Confirm your password</Label>
+						<Input
+							id={field.name}
+							name={field.name}
+							type="password"
+							autoComplete="current-password"
+							value={field.state.value}
+							onBlur={field.handleBlur}
+							onChange={(e) => field.handleChange(e.target.value)}
+						/>
+						{field.state.meta.errors.map((error) => (
+							<p key={error?.message} className="text-red-500">
+								{error?.message}
+							</p>
+						))}
+					</div>
+				)}
+			</form.Field>
+			{action === "backup-codes" && (
+				<p className="text-muted-foreground text-sm">
+					Your current backup codes stop working.
+				</p>
+			)}
+
+			<div className="flex gap-2">
+				<form.Subscribe>
+					{(state) => (
+						<Button
+							type="submit"
+							variant={action === "disable" ? "destructive" : "default"}
+							disabled={!state.canSubmit || state.isSubmitting}
+						>
+							{state.isSubmitting ? "Saving..." : ACTION_LABELS[action]}
+						</Button>
+					)}
+				</form.Subscribe>
+				<Button type="button" variant="ghost" onClick={onCancel}>
+					Cancel
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+function BackupCodes({
+	codes,
+	onDone,
+}: {
+	codes: string[];
+	onDone: () => void;
+}) {
+	return (
+		<div className="grid gap-4">
+			<p className="text-sm">
+				Save these backup codes somewhere safe. Each one signs you in once if
+				you cannot receive SMS. They are not shown again.
+			</p>
+			<ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+				{codes.map((code) => (
+					<li key={code}>{code}</li>
+				))}
+			</ul>
+			<div className="flex gap-2">
+				<Button
+					variant="outline"
+					onClick={() =>
+						navigator.clipboard
+							.writeText(codes.join("\n"))
+							.then(() => toast.success("Copied"))
+							.catch(() => toast.error("Could not copy the codes"))
+					}
+				>
+					Copy
+				</Button>
+				<Button onClick={onDone}>Done</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,165 @@
+import { authClient } from "@/lib/auth-client";
+import { useForm } from "@tanstack/react-form";
+import { Link, useNavigate } from "@tanstack/react-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+type Method = "sms" | "backup";
+
+/**
+ * Second sign-in step: confirm the SMS code, or a backup code when the phone is unavailable
+ */
+export default function TwoFactorForm() {
+	const navigate = useNavigate({
+		from: "/two-factor",
+	});
+	const [method, setMethod] = useState<Method>("sms");
+	const [sending, setSending] = useState(false);
+	const sentOnMount = useRef(false);
+
+	const sendCode = useCallback(async () => {
+		setSending(true);
+		const { error } = await authClient.twoFactor.sendOtp();
+		setSending(false);
+		if (error) {
+			toast.error(error.message || error.statusText);
+			return;
+		}
+		toast.success("Code sent to your phone");
+	}, []);
+
+	useEffect(() => {
+		if (!sentOnMount.current) {
+			sentOnMount.current = true;
+			sendCode();
+		}
+	}, [sendCode]);
+
+	const form = useForm({
+		defaultValues: {
+			code: "",
+			trustDevice: false,
+		},
+		onSubmit: async ({ value }) => {
+			const params = {
+				code: value.code.trim(),
+				trustDevice: value.trustDevice,
+			};
+			const { error } =
+				method === "sms"
+					? await authClient.twoFactor.verifyOtp(params)
+					: await authClient.twoFactor.verifyBackupCode(params);
+			if (error) {
+				toast.error(error.message || error.statusText);
+				return;
+			}
+			navigate({
+				to: "/dashboard",
+			});
+			toast.success("Sign in successful");
+		},
+		validators: {
+			onSubmit: z.object({
+				code: z.string().trim().min(1, "Enter your code"),
+				trustDevice: z.boolean(),
+			}),
+		},
+	});
+
+	return (
+		<div className="mx-auto mt-10 w-full max-w-md p-6">
+			<h1 className="mb-2 text-center font-bold text-3xl">
+				Two-factor authentication
+			</h1>
+			<p className="mb-6 text-center text-muted-foreground text-sm">
+				{method === "sms"
+					? "Enter the code we sent to your phone."
+					: "Enter one of the backup codes you saved when turning on two-factor authentication. Each code works once."}
+			</p>
+
+			<form
+				onSubmit={(e) => {
+					e.preventDefault();
+					e.stopPropagation();
+					form.handleSubmit();
+				}}
+				className="space-y-4"
+			>
+				<form.Field name="code">
+					{(field) => (
+						<div className="space-y-2">
+							<Label htmlFor={field.name}>
+								{method === "sms" ? "SMS code" : "Backup code"}
+							</Label>
+							<Input
+								id={field.name}
+								name={field.name}
+								inputMode={method === "sms" ? "numeric" : "text"}
+								autoComplete="one-time-code"
+								value={field.state.value}
+								onBlur={field.handleBlur}
+								onChange={(e) => field.handleChange(e.target.value)}
+							/>
+							{field.state.meta.errors.map((error) => (
+								<p key={error?.message} className="text-red-500">
+									{error?.message}
+								</p>
+							))}
+						</div>
+					)}
+				</form.Field>
+
+				<form.Field name="trustDevice">
+					{(field) => (
+						<Label className="font-normal">
+							<Checkbox
+								checked={field.state.value}
+								onCheckedChange={(checked) =>
+									field.handleChange(checked === true)
+								}
+							/>
+							Trust this device for 30 days
+						</Label>
+					)}
+				</form.Field>
+
+				<form.Subscribe>
+					{(state) => (
+						<Button
+							type="submit"
+							className="w-full"
+							disabled={!state.canSubmit || state.isSubmitting}
+						>
+							{state.isSubmitting ? "Verifying..." : "Verify"}
+						</Button>
+					)}
+				</form.Subscribe>
+			</form>
+
+			<div className="mt-4 flex flex-col items-center">
+				{method === "sms" && (
+					<Button variant="link" disabled={sending} onClick={sendCode}>
+						{sending ? "Sending..." : "Resend code"}
+					</Button>
+				)}
+				<Button
+					variant="link"
+					onClick={() => {
+						setMethod(method === "sms" ? "backup" : "sms");
+						form.reset();
+					}}
+				>
+					{method === "sms" ? "Use a backup code" : "Use an SMS code"}
+				</Button>
+				<Button variant="link" asChild>
+					<Link to="/login">Back to sign in</Link>
+				</Button>
+			</div>
+		</div>
+	);
+}
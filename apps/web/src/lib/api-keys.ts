@@ -0,0 +1,96 @@
+import { queryOptions } from "@tanstack/react-query";
+import { apiFetch } from "./api";
+
+const BASE_PATH = "/api/notifications/admin/api-keys";
+
+export interface ApiKey {
+	id: string;
+	name: string;
+	prefix: string;
+	scopes: string[];
+	tenantId: string | null;
+	createdBy: string;
+	rotatedFromId: string | null;
+	expiresAt: string | null;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+	createdAt: string;
+}
+
+export interface ApiKeyScope {
+	scope: string;
+	description: string;
+}
+
+/**
+ * Key returned by create and rotate; the secret is not available afterwards
+ */
+export interface CreatedApiKey {
+	key: ApiKey;
+	secret: string;
+}
+
+export interface CreateApiKeyParams {
+	name: string;
+	scopes: string[];
+	expiresAt?: string;
+	tenantId?: string;
+}
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+const keyPath = (id: string) => `${BASE_PATH}/${encodeURIComponent(id)}`;
+
+export const apiKeysQuery = () =>
+	queryOptions({
+		queryKey: ["api-keys"],
+		queryFn: async () => (await apiFetch<ApiKey[]>(BASE_PATH)).data,
+	});
+
+export const apiKeyScopesQuery = () =>
+	queryOptions({
+		queryKey: ["api-key-scopes"],
+		queryFn: async () =>
+			(await apiFetch<ApiKeyScope[]>(`${BASE_PATH}/scopes`)).data,
+		staleTime: Number.POSITIVE_INFINITY,
+	});
+
+export async function createApiKey(
+	params: CreateApiKeyParams,
+): Promise<CreatedApiKey> {
+	const response = await apiFetch<CreatedApiKey>(BASE_PATH, {
+		method: "POST",
+		body: JSON.stringify(params),
+	});
+	return response.data;
+}
+
+/**
+ * Issue a new secret for a key; the old secret stops working immediately
+ */
+export async function rotateApiKey(id: string): Promise<CreatedApiKey> {
+	const response = await apiFetch<CreatedApiKey>(`${keyPath(id)}/rotate`, {
+		method: "POST",
+		body: JSON.stringify({}),
+	});
+	return response.data;
+}
+
+/**
+ * Revoke a key
+ * @returns The server's confirmation message
+ */
+export async function revokeApiKey(id: string): Promise<string | undefined> {
+	const response = await apiFetch(keyPath(id), { method: "DELETE" });
+	return response.message;
+}
+
+export function apiKeyStatus(key: ApiKey): ApiKeyStatus {
+	if (key.revokedAt) {
+		return "revoked";
+	}
+	if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+		return "expired";
+	}
+	return "active";
+}
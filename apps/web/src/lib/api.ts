@@ -0,0 +1,43 @@
+export interface ApiResponse<T> {
+	success: true;
+	message?: string;
+	data: T;
+}
+
+export class ApiError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+/**
+ * Call the server API with the session cookie
+ * Throws an ApiError when the response is not a `{ success: true }` envelope.
+ */
+export async function apiFetch<T>(
+	path: string,
+	init?: RequestInit,
+): Promise<ApiResponse<T>> {
+	const response = await fetch(`${import.meta.env.VITE_SERVER_URL}${path}`, {
+		...init,
+		credentials: "include",
+		headers: {
+			"Content-Type": "application/json",
+			...init?.headers,
+		},
+	});
+
+	const body = await response.json().catch(() => null);
+	if (!response.ok || !body?.success) {
+		throw new ApiError(
+			body?.message ?? `Request failed with status ${response.status}`,
+			response.status,
+		);
+	}
+
+	return body;
+}
@@ -1,5 +1,23 @@
+import {
+	inferAdditionalFields,
+	phoneNumberClient,
+	twoFactorClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 
 export const authClient = createAuthClient({
 	baseURL: import.meta.env.VITE_SERVER_URL,
+	plugins: [
+		inferAdditionalFields({
+			user: { role: { type: "string", required: false, input: false } },
+		}),
+		phoneNumberClient(),
+		twoFactorClient(),
+	],
 });
+
+/**
+ * Whether a user may open the admin pages; the server enforces the same role
+ */
+export const isAdmin = (user: { role?: string | null } | undefined) =>
+	user?.role === "admin";
@@ -0,0 +1,154 @@
+import { queryOptions } from "@tanstack/react-query";
+import { apiFetch } from "./api";
+
+const BASE_PATH = "/api/notifications/admin/queues";
+
+export const JOB_STATES = [
+	"waiting",
+	"active",
+	"delayed",
+	"completed",
+	"failed",
+] as const;
+
+export type JobState = (typeof JOB_STATES)[number];
+
+export interface QueueOverview {
+	name: string;
+	paused: boolean;
+	counts: Record<JobState, number>;
+}
+
+export interface QueueJobSummary {
+	id: string;
+	name: string;
+	type: string;
+	recipient?: string;
+	attemptsMade: number;
+	maxAttempts: number;
+	failedReason?: string;
+	createdAt: number;
+	processedAt?: number;
+	finishedAt?: number;
+	delayUntil?: number;
+}
+
+export interface QueueJobDetail extends QueueJobSummary {
+	queueName: string;
+	state: string;
+	data: Record<string, unknown>;
+	options: Record<string, unknown>;
+	returnValue: unknown;
+	stacktrace: string[];
+	logs: string[];
+}
+
+export interface QueueJobList {
+	items: QueueJobSummary[];
+	total: number;
+	offset: number;
+	limit: number;
+}
+
+export interface QueueJobListParams {
+	state: JobState;
+	type?: string;
+	offset: number;
+	limit: number;
+}
+
+export type QueueJobAction = "retry" | "promote" | "remove";
+
+/**
+ * Counts refresh on this interval so the overview stays live
+ */
+const POLL_INTERVAL_MS = 3000;
+
+const jobPath = (queueName: string, jobId: string) =>
+	`${BASE_PATH}/${encodeURIComponent(queueName)}/jobs/${encodeURIComponent(jobId)}`;
+
+export const queueOverviewQuery = () =>
+	queryOptions({
+		queryKey: ["queues"],
+		queryFn: async () => (await apiFetch<QueueOverview[]>(BASE_PATH)).data,
+		refetchInterval: POLL_INTERVAL_MS,
+	});
+
+export const queueJobsQuery = (queueName: string, params: QueueJobListParams) =>
+	queryOptions({
+		queryKey: ["queues", queueName, "jobs", params],
+		queryFn: async () => {
+			const search = new URLSearchParams({
+				state: params.state,
+				offset: String(params.offset),
+				limit: String(params.limit),
+			});
+			if (params.type) {
+				search.set("type", params.type);
+			}
+
+			const path = `${BASE_PATH}/${encodeURIComponent(queueName)}/jobs?${search}`;
+			return (await apiFetch<QueueJobList>(path)).data;
+		},
+		refetchInterval: POLL_INTERVAL_MS,
+	});
+
+export const queueJobQuery = (queueName: string, jobId: string) =>
+	queryOptions({
+		queryKey: ["queues", queueName, "job", jobId],
+		queryFn: async () =>
+			(await apiFetch<QueueJobDetail>(jobPath(queueName, jobId))).data,
+		refetchInterval: POLL_INTERVAL_MS,
+	});
+
+/**
+ * Retry, promote or remove a job
+ * @returns The server's confirmation message
+ */
+export async function runJobAction(
+	queueName: string,
+	jobId: string,
+	action: QueueJobAction,
+): Promise<string | undefined> {
+	const response =
+		action === "remove"
+			? await apiFetch(jobPath(queueName, jobId), { method: "DELETE" })
+			: await apiFetch(`${jobPath(queueName, jobId)}/${action}`, {
+					method: "POST",
+				});
+	return response.message;
+}
+
+/**
+ * Pause or resume a queue
+ * @returns The server's confirmation message
+ */
+export async function setQueuePaused(
+	queueName: string,
+	paused: boolean,
+): Promise<string | undefined> {
+	const action = paused ? "pause" : "resume";
+	const response = await apiFetch(
+		`${BASE_PATH}/${encodeURIComponent(queueName)}/${action}`,
+		{ method: "POST" },
+	);
+	return response.message;
+}
+
+/**
+ * Actions the server accepts for a job in a given state
+ */
+export function availableJobActions(state: string): QueueJobAction[] {
+	switch (state) {
+		case "failed":
+		case "completed":
+			return ["retry", "remove"];
+		case "delayed":
+			return ["promote", "remove"];
+		case "waiting":
+		case "prioritized":
+			return ["remove"];
+		default:
+			return [];
+	}
+}
@@ -0,0 +1,31 @@
+import { queryOptions } from "@tanstack/react-query";
+import { apiFetch } from "./api";
+
+const BASE_PATH = "/api/notifications/admin/tenants";
+
+export interface TenantSMSAccount {
+	provider: string;
+	senderId: string;
+}
+
+/**
+ * Tenant as returned by the API; provider credentials are never included
+ */
+export interface Tenant {
+	id: string;
+	name: string;
+	defaultLocale: string | null;
+	smsAccounts: TenantSMSAccount[];
+	rateLimitMax: number | null;
+	rateLimitWindowSeconds: number | null;
+	dailySmsQuota: number | null;
+	monthlySmsQuota: number | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export const tenantsQuery = () =>
+	queryOptions({
+		queryKey: ["tenants"],
+		queryFn: async () => (await apiFetch<Tenant[]>(BASE_PATH)).data,
+	});
@@ -0,0 +1,31 @@
+import { authClient, isAdmin } from "@/lib/auth-client";
+import { Outlet, createFileRoute, redirect } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/admin")({
+	component: RouteComponent,
+	beforeLoad: async () => {
+		const session = await authClient.getSession();
+		if (!session.data) {
+			redirect({
+				to: "/login",
+				throw: true,
+			});
+		}
+		// Queue and key management is for admins only
+		if (!isAdmin(session.data?.user)) {
+			redirect({
+				to: "/dashboard",
+				throw: true,
+			});
+		}
+		return { session };
+	},
+});
+
+function RouteComponent() {
+	return (
+		<div className="container mx-auto max-w-6xl overflow-y-auto px-4 py-4">
+			<Outlet />
+		</div>
+	);
+}
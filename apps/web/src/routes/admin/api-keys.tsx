@@ -0,0 +1,430 @@
+import Loader from "@/components/loader";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	type ApiKey,
+	type CreatedApiKey,
+	apiKeyScopesQuery,
+	apiKeyStatus,
+	apiKeysQuery,
+	createApiKey,
+	revokeApiKey,
+	rotateApiKey,
+} from "@/lib/api-keys";
+import { tenantsQuery } from "@/lib/tenants";
+import { useForm } from "@tanstack/react-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+
+export const Route = createFileRoute("/admin/api-keys")({
+	component: RouteComponent,
+});
+
+function RouteComponent() {
+	const [created, setCreated] = useState<CreatedApiKey | null>(null);
+	const keys = useQuery(apiKeysQuery());
+
+	return (
+		<div className="grid gap-6">
+			<h1 className="font-semibold text-2xl">API keys</h1>
+			<p className="text-muted-foreground text-sm">
+				Services send a key as <code>X-API-Key</code> or{" "}
+				<code>Authorization: Bearer</code>. A key can only call the routes its
+				scopes allow. Keys send from their tenant's sender IDs, so a key that is
+				not bound to a tenant cannot send.
+			</p>
+
+			{created && (
+				<SecretNotice created={created} onDismiss={() => setCreated(null)} />
+			)}
+
+			<CreateKeyForm onCreated={setCreated} />
+
+			{keys.isPending ? (
+				<Loader />
+			) : keys.isError ? (
+				<p className="text-destructive">
+					Failed to load API keys: {keys.error.message}
+				</p>
+			) : keys.data.length === 0 ? (
+				<p className="text-muted-foreground">No API keys yet</p>
+			) : (
+				<KeyTable keys={keys.data} onRotated={setCreated} />
+			)}
+		</div>
+	);
+}
+
+function SecretNotice({
+	created,
+	onDismiss,
+}: {
+	created: CreatedApiKey;
+	onDismiss: () => void;
+}) {
+	return (
+		<Card className="border-primary">
+			<CardHeader>
+				<CardTitle>Secret for {created.key.name}</CardTitle>
+				<CardDescription>
+					Copy it now. It is not stored and cannot be shown again.
+				</CardDescription>
+				<CardAction>
+					<Button size="sm" variant="outline" onClick={onDismiss}>
+						Done
+					</Button>
+				</CardAction>
+			</CardHeader>
+			<CardContent className="flex gap-2">
+				<Input readOnly className="font-mono" value={created.secret} />
+				<Button
+					onClick={() =>
+						navigator.clipboard
+							.writeText(created.secret)
+							.then(() => toast.success("Copied"))
+							.catch(() => toast.error("Could not copy the secret"))
+					}
+				>
+					Copy
+				</Button>
+			</CardContent>
+		</Card>
+	);
+}
+
+function CreateKeyForm({
+	onCreated,
+}: {
+	onCreated: (created: CreatedApiKey) => void;
+}) {
+	const queryClient = useQueryClient();
+	const scopes = useQuery(apiKeyScopesQuery());
+	const tenants = useQuery(tenantsQuery());
+
+	const form = useForm({
+		defaultValues: {
+			name: "",
+			scopes: [] as string[],
+			expiresAt: "",
+			tenantId: "",
+		},
+		onSubmit: async ({ value, formApi }) => {
+			try {
+				const created = await createApiKey({
+					name: value.name,
+					scopes: value.scopes,
+					expiresAt: value.expiresAt || undefined,
+					tenantId: value.tenantId || undefined,
+				});
+				onCreated(created);
+				formApi.reset();
+				toast.success("API key created");
+			} catch (error) {
+				toast.error(error instanceof Error ? error.message : String(error));
+			} finally {
+				queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+			}
+		},
+		validators: {
+			onSubmit: z.object({
+				name: z.string().trim().min(1, "Name is required"),
+				scopes: z.array(z.string()).min(1, "Select at least one scope"),
+				expiresAt: z.string(),
+				tenantId: z.string(),
+			}),
+		},
+	});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>New key</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						e.stopPropagation();
+						form.handleSubmit();
+					}}
+					className="grid gap-4"
+				>
+					<div className="grid gap-4 md:grid-cols-3">
+						<form.Field name="name">
+							{(field) => (
+								<div className="space-y-2">
+									<Label htmlFor={field.name}>Name</Label>
+									<Input
+										id={field.name}
+										name={field.name}
+										placeholder="e.g. checkout-service"
+										value={field.state.value}
+										onBlur={field.handleBlur}
+										onChange={(e) => field.handleChange(e.target.value)}
+									/>
+									{field.state.meta.errors.map((error) => (
+										<p key={error?.message} className="text-red-500">
+											{error?.message}
+										</p>
+									))}
+								</div>
+							)}
+						</form.Field>
+
+						<form.Field name="expiresAt">
+							{(field) => (
+								<div className="space-y-2">
+									<Label htmlFor={field.name}>Expires (optional)</Label>
+									<Input
+										id={field.name}
+										name={field.name}
+										type="date"
+										value={field.state.value}
+										onBlur={field.handleBlur}
+										onChange={(e) => field.handleChange(e.target.value)}
+									/>
+								</div>
+							)}
+						</form.Field>
+
+						<form.Field name="tenantId">
+							{(field) => (
+								<div className="space-y-2">
+									<Label htmlFor={field.name}>Tenant</Label>
+									<select
+										id={field.name}
+										name={field.name}
+										className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+										value={field.state.value}
+										onBlur={field.handleBlur}
+										onChange={(e) => field.handleChange(e.target.value)}
+									>
+										<option value="">None (cannot send)</option>
+										{tenants.data?.map((tenant) => (
+											<option key={tenant.id} value={tenant.id}>
+												{tenant.name}
+											</option>
+										))}
+									</select>
+								</div>
+							)}
+						</form.Field>
+					</div>
+
+					<form.Field name="scopes">
+						{(field) => (
+							<fieldset className="space-y-2">
+								<legend className="font-medium text-sm">Scopes</legend>
+								{scopes.isPending ? (
+									<Loader />
+								) : scopes.isError ? (
+									<p className="text-destructive">
+										Failed to load scopes: {scopes.error.message}
+									</p>
+								) : (
+									<div className="grid gap-2 md:grid-cols-2">
+										{scopes.data.map(({ scope, description }) => (
+											<Label key={scope} className="items-start font-normal">
+												<Checkbox
+													checked={field.state.value.includes(scope)}
+													onCheckedChange={(checked) =>
+														field.handleChange(
+															checked
+																? [...field.state.value, scope]
+																: field.state.value.filter((s) => s !== scope),
+														)
+													}
+												/>
+												<span>
+													<span className="font-mono">{scope}</span>
+													<span className="block text-muted-foreground">
+														{description}
+													</span>
+												</span>
+											</Label>
+										))}
+									</div>
+								)}
+								{field.state.meta.errors.map((error) => (
+									<p key={error?.message} className="text-red-500">
+										{error?.message}
+									</p>
+								))}
+							</fieldset>
+						)}
+					</form.Field>
+
+					<form.Subscribe>
+						{(state) => (
+							<Button
+								type="submit"
+								className="justify-self-start"
+								disabled={!state.canSubmit || state.isSubmitting}
+							>
+								{state.isSubmitting ? "Creating..." : "Create key"}
+							</Button>
+						)}
+					</form.Subscribe>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
+
+function KeyTable({
+	keys,
+	onRotated,
+}: {
+	keys: ApiKey[];
+	onRotated: (created: CreatedApiKey) => void;
+}) {
+	const tenants = useQuery(tenantsQuery());
+	const tenantNames = new Map(
+		tenants.data?.map((tenant) => [tenant.id, tenant.name]),
+	);
+
+	return (
+		<div className="overflow-x-auto rounded-lg border">
+			<table className="w-full text-sm">
+				<thead className="bg-muted text-left">
+					<tr>
+						<th className="p-2">Name</th>
+						<th className="p-2">Key</th>
+						<th className="p-2">Scopes</th>
+						<th className="p-2">Tenant</th>
+						<th className="p-2">Status</th>
+						<th className="p-2">Created</th>
+						<th className="p-2">Last used</th>
+						<th className="p-2" />
+					</tr>
+				</thead>
+				<tbody>
+					{keys.map((key) => (
+						<KeyRow
+							key={key.id}
+							apiKey={key}
+							tenantName={
+								key.tenantId
+									? (tenantNames.get(key.tenantId) ?? key.tenantId)
+									: undefined
+							}
+							onRotated={onRotated}
+						/>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
+
+function KeyRow({
+	apiKey,
+	tenantName,
+	onRotated,
+}: {
+	apiKey: ApiKey;
+	tenantName?: string;
+	onRotated: (created: CreatedApiKey) => void;
+}) {
+	const queryClient = useQueryClient();
+	const status = apiKeyStatus(apiKey);
+
+	const rotate = useMutation({
+		mutationFn: () => rotateApiKey(apiKey.id),
+		onSuccess: (created) => {
+			onRotated(created);
+			toast.success("API key rotated");
+		},
+		onError: (error) => {
+			toast.error(error.message);
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+		},
+	});
+
+	const revoke = useMutation({
+		mutationFn: () => revokeApiKey(apiKey.id),
+		onSuccess: (message) => {
+			toast.success(message ?? "Done");
+		},
+		onError: (error) => {
+			toast.error(error.message);
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+		},
+	});
+
+	const pending = rotate.isPending || revoke.isPending;
+
+	return (
+		<tr className="border-t align-top">
+			<td className="p-2">{apiKey.name}</td>
+			<td className="p-2 font-mono">{apiKey.prefix}…</td>
+			<td className="p-2 font-mono text-xs">{apiKey.scopes.join(", ")}</td>
+			<td className="p-2">{tenantName ?? "None"}</td>
+			<td className="p-2 capitalize">
+				{status}
+				{status === "active" && apiKey.expiresAt && (
+					<span className="block text-muted-foreground text-xs normal-case">
+						until {new Date(apiKey.expiresAt).toLocaleDateString()}
+					</span>
+				)}
+			</td>
+			<td className="p-2">{new Date(apiKey.createdAt).toLocaleString()}</td>
+			<td className="p-2">
+				{apiKey.lastUsedAt
+					? new Date(apiKey.lastUsedAt).toLocaleString()
+					: "Never"}
+			</td>
+			<td className="p-2">
+				{status !== "revoked" && (
+					<div className="flex gap-2">
+						<Button
+							size="sm"
+							variant="outline"
+							disabled={pending}
+							onClick={() => {
+								if (
+									window.confirm(
+										`Rotate ${apiKey.name}? The current secret stops working immediately.`,
+									)
+								) {
+									rotate.mutate();
+								}
+							}}
+						>
+							Rotate
+						</Button>
+						<Button
+							size="sm"
+							variant="destructive"
+							disabled={pending}
+							onClick={() => {
+								if (window.confirm(`Revoke ${apiKey.name}?`)) {
+									revoke.mutate();
+								}
+							}}
+						>
+							Revoke
+						</Button>
+					</div>
+				)}
+			</td>
+		</tr>
+	);
+}
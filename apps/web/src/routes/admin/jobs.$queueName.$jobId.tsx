@@ -0,0 +1,150 @@
+import JobActions from "@/components/job-actions";
+import Loader from "@/components/loader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { queueJobQuery } from "@/lib/queue-admin";
+import { useQuery } from "@tanstack/react-query";
+import { Link, createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/admin/jobs/$queueName/$jobId")({
+	component: RouteComponent,
+});
+
+const formatTime = (timestamp?: number) =>
+	timestamp ? new Date(timestamp).toLocaleString() : "-";
+
+function RouteComponent() {
+	const { queueName, jobId } = Route.useParams();
+	const navigate = Route.useNavigate();
+	const job = useQuery(queueJobQuery(queueName, jobId));
+
+	if (job.isPending) {
+		return <Loader />;
+	}
+
+	if (job.isError) {
+		return (
+			<p className="text-destructive">
+				Failed to load job {jobId}: {job.error.message}
+			</p>
+		);
+	}
+
+	const { data } = job;
+
+	return (
+		<div className="grid gap-6">
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<div>
+					<Link
+						to="/admin/queues"
+						search={{ queue: queueName }}
+						className="text-muted-foreground text-sm underline"
+					>
+						{queueName}
+					</Link>
+					<h1 className="font-mono font-semibold text-2xl">{data.id}</h1>
+				</div>
+				<JobActions
+					queueName={queueName}
+					jobId={data.id}
+					state={data.state}
+					onRemoved={() =>
+						navigate({ to: "/admin/queues", search: { queue: queueName } })
+					}
+				/>
+			</div>
+
+			<Card>
+				<CardContent>
+					<dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm md:grid-cols-4">
+						<Field label="State" value={data.state} />
+						<Field label="Type" value={data.type} />
+						<Field label="Recipient" value={data.recipient ?? "-"} />
+						<Field
+							label="Attempts"
+							value={`${data.attemptsMade}/${data.maxAttempts}`}
+						/>
+						<Field label="Created" value={formatTime(data.createdAt)} />
+						<Field label="Runs at" value={formatTime(data.delayUntil)} />
+						<Field label="Processed" value={formatTime(data.processedAt)} />
+						<Field label="Finished" value={formatTime(data.finishedAt)} />
+					</dl>
+					{data.failedReason && (
+						<p className="mt-4 text-destructive text-sm">{data.failedReason}</p>
+					)}
+				</CardContent>
+			</Card>
+
+			<JsonCard title="Payload" value={data.data} />
+			<JsonCard title="Options" value={data.options} />
+			{data.returnValue != null && (
+				<JsonCard title="Result" value={data.returnValue} />
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Stack traces ({data.stacktrace.length})</CardTitle>
+				</CardHeader>
+				<CardContent className="grid gap-2">
+					{data.stacktrace.length === 0 ? (
+						<p className="text-muted-foreground text-sm">No failed attempts</p>
+					) : (
+						data.stacktrace
+							.map((trace, index) => ({ trace, attempt: index + 1 }))
+							.map(({ trace, attempt }) => (
+								<pre
+									key={`${attempt}:${trace}`}
+									className="overflow-x-auto rounded-md bg-muted p-2 text-xs"
+								>
+									<span className="text-muted-foreground">
+										Attempt {attempt}
+										{"\n"}
+									</span>
+									{trace}
+								</pre>
+							))
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Logs ({data.logs.length})</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{data.logs.length === 0 ? (
+						<p className="text-muted-foreground text-sm">No log lines</p>
+					) : (
+						<pre className="overflow-x-auto rounded-md bg-muted p-2 text-xs">
+							{data.logs.join("\n")}
+						</pre>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
+
+function Field({ label, value }: { label: string; value: string }) {
+	return (
+		<div>
+			<dt className="text-muted-foreground">{label}</dt>
+			<dd>{value}</dd>
+		</div>
+	);
+}
+
+function JsonCard({ title, value }: { title: string; value: unknown }) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>{title}</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<pre className="overflow-x-auto rounded-md bg-muted p-2 text-xs">
+					{JSON.stringify(value, null, 2)}
+				</pre>
+			</CardContent>
+		</Card>
+	);
+}
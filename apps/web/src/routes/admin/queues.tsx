@@ -0,0 +1,294 @@
+import JobActions from "@/components/job-actions";
+import Loader from "@/components/loader";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	JOB_STATES,
+	type JobState,
+	type QueueOverview,
+	queueJobsQuery,
+	queueOverviewQuery,
+	setQueuePaused,
+} from "@/lib/queue-admin";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { toast } from "sonner";
+import z from "zod";
+
+const PAGE_SIZE = 25;
+
+const searchSchema = z.object({
+	queue: z.string().optional(),
+	state: z.enum(JOB_STATES).optional(),
+	type: z.string().optional(),
+	page: z.number().int().min(1).optional(),
+});
+
+export const Route = createFileRoute("/admin/queues")({
+	component: RouteComponent,
+	validateSearch: (search) => searchSchema.parse(search),
+});
+
+function RouteComponent() {
+	const search = Route.useSearch();
+	const overview = useQuery(queueOverviewQuery());
+
+	if (overview.isPending) {
+		return <Loader />;
+	}
+
+	if (overview.isError) {
+		return (
+			<p className="text-destructive">
+				Failed to load queues: {overview.error.message}
+			</p>
+		);
+	}
+
+	const selected = search.queue ?? overview.data[0]?.name;
+
+	return (
+		<div className="grid gap-6">
+			<h1 className="font-semibold text-2xl">Queues</h1>
+			<div className="grid gap-4 md:grid-cols-2">
+				{overview.data.map((queue) => (
+					<QueueCard
+						key={queue.name}
+						queue={queue}
+						selected={queue.name === selected}
+					/>
+				))}
+			</div>
+			{selected && (
+				<JobList
+					queueName={selected}
+					state={search.state ?? "waiting"}
+					type={search.type}
+					page={search.page ?? 1}
+				/>
+			)}
+		</div>
+	);
+}
+
+function QueueCard({
+	queue,
+	selected,
+}: {
+	queue: QueueOverview;
+	selected: boolean;
+}) {
+	const queryClient = useQueryClient();
+	const togglePause = useMutation({
+		mutationFn: () => setQueuePaused(queue.name, !queue.paused),
+		onSuccess: (message) => {
+			toast.success(message ?? "Done");
+		},
+		onError: (error) => {
+			toast.error(error.message);
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: ["queues"] });
+		},
+	});
+
+	return (
+		<Card className={selected ? "border-primary" : undefined}>
+			<CardHeader>
+				<CardTitle>
+					<Link to="/admin/queues" search={{ queue: queue.name }}>
+						{queue.name}
+					</Link>
+					{queue.paused && (
+						<span className="ml-2 text-muted-foreground text-sm">(paused)</span>
+					)}
+				</CardTitle>
+				<CardAction>
+					<Button
+						size="sm"
+						variant="outline"
+						disabled={togglePause.isPending}
+						onClick={() => togglePause.mutate()}
+					>
+						{queue.paused ? "Resume" : "Pause"}
+					</Button>
+				</CardAction>
+			</CardHeader>
+			<CardContent>
+				<dl className="grid grid-cols-5 gap-2 text-center">
+					{JOB_STATES.map((state) => (
+						<Link
+							key={state}
+							to="/admin/queues"
+							search={{ queue: queue.name, state }}
+							className="rounded-md p-1 hover:bg-accent"
+						>
+							<dt className="text-muted-foreground text-xs capitalize">
+								{state}
+							</dt>
+							<dd className="font-semibold text-xl tabular-nums">
+								{queue.counts[state]}
+							</dd>
+						</Link>
+					))}
+				</dl>
+			</CardContent>
+		</Card>
+	);
+}
+
+function JobList({
+	queueName,
+	state,
+	type,
+	page,
+}: {
+	queueName: string;
+	state: JobState;
+	type?: string;
+	page: number;
+}) {
+	const navigate = Route.useNavigate();
+	const jobs = useQuery(
+		queueJobsQuery(queueName, {
+			state,
+			type,
+			offset: (page - 1) * PAGE_SIZE,
+			limit: PAGE_SIZE,
+		}),
+	);
+	const pageCount = Math.max(1, Math.ceil((jobs.data?.total ?? 0) / PAGE_SIZE));
+
+	return (
+		<section className="grid gap-4">
+			<div className="flex flex-wrap items-center gap-2">
+				{JOB_STATES.map((option) => (
+					<Button
+						key={option}
+						size="sm"
+						variant={option === state ? "default" : "outline"}
+						className="capitalize"
+						onClick={() =>
+							navigate({
+								search: { queue: queueName, state: option, type },
+							})
+						}
+					>
+						{option}
+					</Button>
+				))}
+				<Input
+					key={`${queueName}-${type}`}
+					className="ml-auto w-48"
+					placeholder="Filter by type"
+					defaultValue={type}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") {
+							navigate({
+								search: {
+									queue: queueName,
+									state,
+									type: e.currentTarget.value.trim() || undefined,
+								},
+							});
+						}
+					}}
+				/>
+			</div>
+
+			{jobs.isPending ? (
+				<Loader />
+			) : jobs.isError ? (
+				<p className="text-destructive">
+					Failed to load jobs: {jobs.error.message}
+				</p>
+			) : jobs.data.items.length === 0 ? (
+				<p className="text-muted-foreground">No {state} jobs</p>
+			) : (
+				<div className="overflow-x-auto rounded-lg border">
+					<table className="w-full text-sm">
+						<thead className="bg-muted text-left">
+							<tr>
+								<th className="p-2">Job</th>
+								<th className="p-2">Type</th>
+								<th className="p-2">Recipient</th>
+								<th className="p-2">Attempts</th>
+								<th className="p-2">Created</th>
+								<th className="p-2">Details</th>
+								<th className="p-2" />
+							</tr>
+						</thead>
+						<tbody>
+							{jobs.data.items.map((job) => (
+								<tr key={job.id} className="border-t align-top">
+									<td className="p-2 font-mono">
+										<Link
+											to="/admin/jobs/$queueName/$jobId"
+											params={{ queueName, jobId: job.id }}
+											className="underline"
+										>
+											{job.id}
+										</Link>
+									</td>
+									<td className="p-2">{job.type}</td>
+									<td className="p-2">{job.recipient ?? "-"}</td>
+									<td className="p-2 tabular-nums">
+										{job.attemptsMade}/{job.maxAttempts}
+									</td>
+									<td className="p-2">
+										{new Date(job.createdAt).toLocaleString()}
+									</td>
+									<td className="max-w-xs truncate p-2">
+										{state === "delayed" && job.delayUntil
+											? `Runs ${new Date(job.delayUntil).toLocaleString()}`
+											: (job.failedReason ?? "")}
+									</td>
+									<td className="p-2">
+										<JobActions queueName={queueName} jobId={job.id} state={state} />
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			<div className="flex items-center justify-end gap-2 text-sm">
+				<span className="text-muted-foreground">
+					Page {page} of {pageCount}
+				</span>
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={page <= 1}
+					onClick={() =>
+						navigate({
+							search: { queue: queueName, state, type, page: page - 1 },
+						})
+					}
+				>
+					Previous
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={page >= pageCount}
+					onClick={() =>
+						navigate({
+							search: { queue: queueName, state, type, page: page + 1 },
+						})
+					}
+				>
+					Next
+				</Button>
+			</div>
+		</section>
+	);
+}
@@ -1,4 +1,4 @@
-import { Button } from "@/components/ui/button";
+import PhoneNumberCard from "@/components/phone-number-card";
 import { authClient } from "@/lib/auth-client";
 import { createFileRoute, redirect } from "@tanstack/react-router";
 
@@ -20,9 +20,14 @@ function RouteComponent() {
 	const { session } = Route.useRouteContext();
 
 	return (
-		<div>
-			<h1>Dashboard</h1>
-			<p>Welcome {session.data?.user.name}</p>
+		<div className="grid gap-6">
+			<div>
+				<h1>Dashboard</h1>
+				<p>Welcome {session.data?.user.name}</p>
+			</div>
+			<div className="max-w-md">
+				<PhoneNumberCard />
+			</div>
 		</div>
 	);
 }
@@ -0,0 +1,28 @@
+import PhoneNumberCard from "@/components/phone-number-card";
+import TwoFactorCard from "@/components/two-factor-card";
+import { authClient } from "@/lib/auth-client";
+import { createFileRoute, redirect } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/settings")({
+	component: RouteComponent,
+	beforeLoad: async () => {
+		const session = await authClient.getSession();
+		if (!session.data) {
+			redirect({
+				to: "/login",
+				throw: true,
+			});
+		}
+		return { session };
+	},
+});
+
+function RouteComponent() {
+	return (
+		<div className="grid max-w-md gap-6">
+			<h1 className="font-semibold text-2xl">Account settings</h1>
+			<PhoneNumberCard />
+			<TwoFactorCard />
+		</div>
+	);
+}
@@ -0,0 +1,6 @@
+import TwoFactorForm from "@/components/two-factor-form";
+import { createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/two-factor")({
+	component: TwoFactorForm,
+});
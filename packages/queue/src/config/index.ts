@@ -5,5 +5,6 @@
 
 export { getRedisConfig, getRedisConnection } from './redis';
 export type { RedisConfig } from './redis';
+export { getRedisClient, closeRedisClient } from './redis-client';
 
 export { defaultQueueOptions, defaultWorkerOptions } from './queue-options';
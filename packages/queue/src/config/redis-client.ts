@@ -0,0 +1,27 @@
+import { Redis } from 'ioredis';
+import { getRedisConfig } from './redis';
+
+let client: Redis | null = null;
+
+/**
+ * Get the shared Redis client used for non-queue state (OTP codes, caches, counters)
+ * BullMQ queues and workers manage their own connections.
+ * @returns Lazily created ioredis client
+ */
+export const getRedisClient = (): Redis => {
+  if (!client) {
+    client = new Redis(getRedisConfig());
+  }
+  return client;
+};
+
+/**
+ * Gracefully close the shared Redis client
+ * Should be called during application shutdown
+ */
+export const closeRedisClient = async (): Promise<void> => {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+};
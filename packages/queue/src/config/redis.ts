@@ -1,4 +1,5 @@
 import type { ConnectionOptions } from 'bullmq';
+import { logger } from '../logging/logger';
 
 /**
  * Redis configuration interface
@@ -28,7 +29,7 @@ export const getRedisConfig = (): RedisConfig => {
       throw new Error('REDIS_HOST environment variable is required in production');
     }
     if (!process.env.REDIS_PASSWORD) {
-      console.warn('REDIS_PASSWORD is not set. This is not recommended for production.');
+      logger.warn('REDIS_PASSWORD is not set. This is not recommended for production.');
     }
   }
 
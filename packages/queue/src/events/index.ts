@@ -0,0 +1,21 @@
+/**
+ * Job event exports
+ * Live SMS job lifecycle and delivery events for streaming to clients
+ */
+
+export {
+  SMS_JOB_EVENT_NAMES,
+  isSMSJobEventId,
+  subscribeToSMSJobEvents,
+  canSubscribeToSMSJobEvents,
+  publishSMSDeliveryEvent,
+  closeSMSJobEvents,
+} from './sms-job-events';
+export type {
+  SMSJobEventName,
+  SMSJobEvent,
+  SMSJobEventFilter,
+  SMSJobEventListener,
+  SMSJobOwner,
+  SMSDeliveryEvent,
+} from './sms-job-events';
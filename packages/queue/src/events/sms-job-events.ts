@@ -0,0 +1,393 @@
+import { QueueEvents, QueueEventsProducer, type QueueEventsListener } from 'bullmq';
+import { getRedisConnection } from '../config/redis';
+import { smsQueue, SMS_QUEUE_NAME } from '../queues/sms.queue';
+import type { DeliveryStatus } from '../providers/sms/interface';
+import type { JobCaller } from '../types';
+import { logger } from '../logging/logger';
+
+/**
+ * Events streamed to subscribers
+ * All but `delivery` are BullMQ lifecycle events; `delivery` is published when a provider reports
+ * a delivery receipt, so receipts share the queue's event stream (and its ids) with the lifecycle.
+ */
+export const SMS_JOB_EVENT_NAMES = [
+  'waiting',
+  'active',
+  'delayed',
+  'progress',
+  'completed',
+  'failed',
+  'removed',
+  'delivery',
+] as const;
+
+export type SMSJobEventName = (typeof SMS_JOB_EVENT_NAMES)[number];
+
+export interface SMSJobEvent {
+  id: string; // Redis stream entry id; increasing, so it doubles as the SSE event id
+  event: SMSJobEventName;
+  jobId: string;
+  batchId?: string;
+  tenantId?: string; // Tenant of the job, when known
+  createdBy?: JobCaller; // Caller that queued the job, when known
+  data: Record<string, unknown>; // Event fields, e.g. failedReason, returnvalue or delivery status
+}
+
+export interface SMSJobEventFilter {
+  jobId?: string;
+  batchId?: string;
+  tenantId?: string; // Only jobs of this tenant
+  createdBy?: JobCaller; // Only jobs this caller queued
+}
+
+/**
+ * Tenant and creator of a job or batch
+ */
+export interface SMSJobOwner {
+  tenantId?: string;
+  createdBy?: JobCaller;
+}
+
+export interface SMSDeliveryEvent {
+  jobId: string;
+  batchId?: string;
+  provider: string;
+  messageId: string;
+  status: DeliveryStatus;
+  description?: string;
+}
+
+export type SMSJobEventListener = (event: SMSJobEvent) => void;
+
+/**
+ * QueueEvents listener map including the custom `delivery` event
+ */
+interface SMSQueueEventsListener extends QueueEventsListener {
+  delivery: (args: Record<string, unknown>, id: string) => void;
+}
+
+/**
+ * Matches BullMQ's default event stream length so custom events do not trim lifecycle events
+ */
+const EVENT_STREAM_MAX_LENGTH = 10_000;
+
+/**
+ * Maximum number of missed events replayed to a reconnecting subscriber
+ */
+const REPLAY_LIMIT = 1000;
+
+/**
+ * Job id to batch and owner lookups kept in memory; lifecycle events only carry the job id
+ */
+const JOB_CACHE_SIZE = 10_000;
+
+/**
+ * How long batch owners are kept; matches how long failed jobs are kept
+ */
+const BATCH_OWNER_TTL_SECONDS = 7 * 24 * 3600;
+
+const batchOwnerKey = (batchId: string) => `sms-batch-owner:${batchId}`;
+
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+interface Subscriber {
+  filter: SMSJobEventFilter;
+  listener: SMSJobEventListener;
+}
+
+interface JobInfo extends SMSJobOwner {
+  batchId?: string;
+}
+
+const subscribers = new Set<Subscriber>();
+const jobInfos = new Map<string, JobInfo | null>();
+
+let queueEvents: QueueEvents | null = null;
+let producer: QueueEventsProducer | null = null;
+let dispatching: Promise<void> = Promise.resolve();
+
+/**
+ * Check whether a string is a Redis stream id (`<ms>-<seq>`), as sent back in Last-Event-ID
+ */
+export const isSMSJobEventId = (id: string): boolean => STREAM_ID_PATTERN.test(id);
+
+const compareStreamIds = (a: string, b: string): number => {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+};
+
+const sameCaller = (a: JobCaller | undefined, b: JobCaller): boolean =>
+  a !== undefined && a.type === b.type && a.id === b.id;
+
+/**
+ * Batch and owner of a job, or null once the job has been removed and is no longer cached
+ */
+const resolveJobInfo = async (jobId: string): Promise<JobInfo | null> => {
+  const cached = jobInfos.get(jobId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const job = await smsQueue.getJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  if (jobInfos.size >= JOB_CACHE_SIZE) {
+    const oldest = jobInfos.keys().next().value;
+    if (oldest !== undefined) {
+      jobInfos.delete(oldest);
+    }
+  }
+  const info: JobInfo = {
+    batchId: job.data.batchId,
+    tenantId: job.data.tenantId,
+    createdBy: job.data.createdBy,
+  };
+  jobInfos.set(jobId, info);
+  return info;
+};
+
+const matchesOwner = (owner: SMSJobOwner, filter: SMSJobEventFilter): boolean => {
+  return (
+    (filter.tenantId === undefined || owner.tenantId === filter.tenantId) &&
+    (filter.createdBy === undefined || sameCaller(owner.createdBy, filter.createdBy))
+  );
+};
+
+const matchesFilter = (event: SMSJobEvent, filter: SMSJobEventFilter): boolean => {
+  return (
+    (filter.jobId === undefined || event.jobId === filter.jobId) &&
+    (filter.batchId === undefined || event.batchId === filter.batchId) &&
+    matchesOwner(event, filter)
+  );
+};
+
+/**
+ * Build an event from stream fields, as parsed by QueueEvents or read back with XRANGE
+ */
+const toJobEvent = async (
+  id: string,
+  event: SMSJobEventName,
+  fields: Record<string, unknown>
+): Promise<SMSJobEvent | null> => {
+  const { jobId, batchId, prev: _prev, ...data } = fields;
+  if (typeof jobId !== 'string') {
+    return null;
+  }
+
+  const info = await resolveJobInfo(jobId);
+  return {
+    id,
+    event,
+    jobId,
+    batchId: typeof batchId === 'string' ? batchId : info?.batchId,
+    tenantId: info?.tenantId,
+    createdBy: info?.createdBy,
+    data,
+  };
+};
+
+/**
+ * Read stream entries written after `lastEventId`, oldest first
+ * QueueEvents JSON-encodes progress data and return values; they are decoded the same way here.
+ */
+const readEventsSince = async (lastEventId: string): Promise<SMSJobEvent[]> => {
+  const client = await smsQueue.client;
+  const entries = await client.xrange(smsQueue.keys.events, `(${lastEventId}`, '+', 'COUNT', REPLAY_LIMIT);
+
+  const events: SMSJobEvent[] = [];
+  for (const [id, values] of entries) {
+    const fields: Record<string, unknown> = {};
+    for (let i = 0; i < values.length; i += 2) {
+      fields[values[i]] = values[i + 1];
+    }
+
+    const name = fields.event as SMSJobEventName;
+    if (!SMS_JOB_EVENT_NAMES.includes(name)) {
+      continue;
+    }
+
+    try {
+      if (name === 'progress') {
+        fields.data = JSON.parse(fields.data as string);
+      } else if (name === 'completed') {
+        fields.returnvalue = JSON.parse(fields.returnvalue as string);
+      }
+    } catch {
+      // Keep the raw string
+    }
+
+    const { event: _event, ...rest } = fields;
+    const jobEvent = await toJobEvent(id, name, rest);
+    if (jobEvent) {
+      events.push(jobEvent);
+    }
+  }
+
+  return events;
+};
+
+const dispatch = (event: SMSJobEvent): void => {
+  for (const subscriber of subscribers) {
+    if (matchesFilter(event, subscriber.filter)) {
+      subscriber.listener(event);
+    }
+  }
+};
+
+/**
+ * Start the shared QueueEvents reader on first use
+ * Events are dispatched one at a time so batch id lookups cannot reorder them.
+ */
+const ensureQueueEvents = async (): Promise<void> => {
+  if (!queueEvents) {
+    queueEvents = new QueueEvents(SMS_QUEUE_NAME, { connection: getRedisConnection() });
+
+    for (const name of SMS_JOB_EVENT_NAMES) {
+      queueEvents.on<SMSQueueEventsListener>(name, (args: Record<string, unknown>, id: string) => {
+        dispatching = dispatching
+          .then(async () => {
+            const event = await toJobEvent(id, name, args);
+            if (event) {
+              dispatch(event);
+            }
+          })
+          .catch((error) => {
+            logger.error('Failed to dispatch SMS job event', { eventId: id, err: error });
+          });
+      });
+    }
+  }
+
+  await queueEvents.waitUntilReady();
+};
+
+/**
+ * Remember who queued a batch so subscribers can be checked before any of its events arrive
+ */
+export const recordSMSBatchOwner = async (batchId: string, owner: SMSJobOwner): Promise<void> => {
+  const client = await smsQueue.client;
+  await client.set(batchOwnerKey(batchId), JSON.stringify(owner), 'EX', BATCH_OWNER_TTL_SECONDS);
+};
+
+/**
+ * Check that the job or batch a filter names exists and belongs to the filter's tenant and creator
+ * Call before subscribing so callers cannot watch other tenants' jobs. Events are checked again
+ * against the same owner as they arrive.
+ * @returns False if the job or batch is unknown or belongs to someone else
+ */
+export const canSubscribeToSMSJobEvents = async (filter: SMSJobEventFilter): Promise<boolean> => {
+  if (filter.jobId !== undefined) {
+    const info = await resolveJobInfo(filter.jobId);
+    if (!info || !matchesOwner(info, filter) || (filter.batchId !== undefined && info.batchId !== filter.batchId)) {
+      return false;
+    }
+  }
+
+  if (filter.batchId !== undefined) {
+    const client = await smsQueue.client;
+    const stored = await client.get(batchOwnerKey(filter.batchId));
+    if (!stored || !matchesOwner(JSON.parse(stored) as SMSJobOwner, filter)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Listen for SMS job lifecycle and delivery events
+ * With `lastEventId`, events written after it are replayed first (up to 1000, as long as the
+ * event stream still holds them), then live events follow without gaps or duplicates.
+ * Every event is delivered at most once and in stream order: events older than the last one
+ * delivered are dropped, including live events still being dispatched when the replay ends.
+ * @param filter - Only deliver events for this job id and/or batch id, tenant and creator
+ * @param listener - Called once per event, in stream order
+ * @param options - Last event id the subscriber already received
+ * @returns Function that stops the subscription
+ */
+export const subscribeToSMSJobEvents = async (
+  filter: SMSJobEventFilter,
+  listener: SMSJobEventListener,
+  options: { lastEventId?: string } = {}
+): Promise<() => void> => {
+  await ensureQueueEvents();
+
+  // Stream position already covered, by the client before reconnecting or by this subscription
+  let deliveredUpTo =
+    options.lastEventId && isSMSJobEventId(options.lastEventId) ? options.lastEventId : undefined;
+  const deliver = (event: SMSJobEvent) => {
+    if (deliveredUpTo && compareStreamIds(event.id, deliveredUpTo) <= 0) {
+      return;
+    }
+    deliveredUpTo = event.id;
+    listener(event);
+  };
+
+  // Buffer live events while missed ones are replayed
+  const buffered: SMSJobEvent[] = [];
+  const subscriber: Subscriber = { filter, listener: (event) => buffered.push(event) };
+  subscribers.add(subscriber);
+
+  if (deliveredUpTo) {
+    try {
+      for (const event of await readEventsSince(deliveredUpTo)) {
+        if (matchesFilter(event, filter)) {
+          deliver(event);
+        } else {
+          deliveredUpTo = event.id;
+        }
+      }
+    } catch (error) {
+      subscribers.delete(subscriber);
+      throw error;
+    }
+  }
+
+  for (const event of buffered) {
+    deliver(event);
+  }
+  subscriber.listener = deliver;
+
+  return () => {
+    subscribers.delete(subscriber);
+  };
+};
+
+/**
+ * Publish a delivery receipt on the SMS queue's event stream
+ * Subscribers receive it as a `delivery` event next to the job's lifecycle events.
+ */
+export const publishSMSDeliveryEvent = async (delivery: SMSDeliveryEvent): Promise<void> => {
+  if (!producer) {
+    producer = new QueueEventsProducer(SMS_QUEUE_NAME, { connection: getRedisConnection() });
+  }
+
+  const fields: Record<string, string> = {
+    jobId: delivery.jobId,
+    provider: delivery.provider,
+    messageId: delivery.messageId,
+    status: delivery.status,
+  };
+  if (delivery.batchId) {
+    fields.batchId = delivery.batchId;
+  }
+  if (delivery.description) {
+    fields.description = delivery.description;
+  }
+
+  await producer.publishEvent({ eventName: 'delivery', ...fields }, EVENT_STREAM_MAX_LENGTH);
+};
+
+/**
+ * Close the event reader and publisher connections
+ * Should be called during application shutdown
+ */
+export const closeSMSJobEvents = async (): Promise<void> => {
+  subscribers.clear();
+  await Promise.all([queueEvents?.close(), producer?.close()]);
+  queueEvents = null;
+  producer = null;
+};
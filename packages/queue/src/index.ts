@@ -2,7 +2,7 @@
  * @repo/queue - Notification Queue System
  * 
  * A scalable notification queuing system using BullMQ and Redis
- * for handling SMS notifications (with future support for email).
+ * for handling SMS and email notifications.
  * 
  * @example
  * ```typescript
@@ -31,17 +31,251 @@ export * from './jobs';
 
 export * from './types';
 
+// ============================================================================
+// Phone Numbers - E.164 parsing and validation shared by routes, jobs and providers
+// ============================================================================
+
+export * from './phone';
+
+// ============================================================================
+// OTP Service - Server-side code generation, hashed storage and verification
+// ============================================================================
+
+export * from './otp';
+
 // ============================================================================
 // Queue Instances - BullMQ queue instances for monitoring and management
 // ============================================================================
 
-export { smsQueue, closeSMSQueue, SMS_QUEUE_NAME } from './queues';
+export {
+  smsQueue,
+  closeSMSQueue,
+  SMS_QUEUE_NAME,
+  emailQueue,
+  closeEmailQueue,
+  EMAIL_QUEUE_NAME,
+  deadLetterQueue,
+  closeDeadLetterQueue,
+  DEAD_LETTER_QUEUE_NAME,
+} from './queues';
+
+// ============================================================================
+// Job Status - Lookup and cancellation of queued notification jobs
+// ============================================================================
+
+export { getNotificationJobStatus, cancelNotificationJob } from './queues';
+export type { NotificationJobStatus, NotificationJobFilter, CancelNotificationJobResult } from './queues';
+
+// ============================================================================
+// Dead Letters - Exhausted jobs kept with their error history for inspection and replay
+// ============================================================================
+
+export {
+  listDeadLetterJobs,
+  getDeadLetterJob,
+  retryDeadLetterJob,
+  retryDeadLetterJobs,
+  removeDeadLetterJob,
+  purgeDeadLetterJobs,
+} from './queues';
+export type {
+  DeadLetterEntry,
+  DeadLetterFilter,
+  RetryDeadLetterJobResult,
+  RetryDeadLetterJobsResult,
+} from './queues';
+
+// ============================================================================
+// Queue Admin - Live counts, job inspection and operator actions
+// ============================================================================
+
+export {
+  ADMIN_JOB_STATES,
+  getAdminQueue,
+  getQueueOverviews,
+  listQueueJobs,
+  getQueueJobDetail,
+  retryQueueJob,
+  removeQueueJob,
+  promoteQueueJob,
+  pauseQueue,
+  resumeQueue,
+} from './queues';
+export type {
+  AdminJobState,
+  QueueOverview,
+  QueueJobSummary,
+  QueueJobDetail,
+  QueueJobActionResult,
+} from './queues';
+
+// ============================================================================
+// Job Events - Live SMS job lifecycle and delivery events with replay
+// ============================================================================
+
+export {
+  SMS_JOB_EVENT_NAMES,
+  isSMSJobEventId,
+  subscribeToSMSJobEvents,
+  canSubscribeToSMSJobEvents,
+  publishSMSDeliveryEvent,
+  closeSMSJobEvents,
+} from './events';
+export type {
+  SMSJobEventName,
+  SMSJobEvent,
+  SMSJobEventFilter,
+  SMSJobEventListener,
+  SMSJobOwner,
+  SMSDeliveryEvent,
+} from './events';
+
+// ============================================================================
+// Logging - Structured JSON logger with correlation ids and redaction
+// ============================================================================
+
+export {
+  logger,
+  Logger,
+  configureLogger,
+  withLogContext,
+  getRequestId,
+  redactFields,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_RULES,
+} from './logging';
+export type { LogLevel, LogFields, LoggerOptions, RedactionRule, RedactionConfig } from './logging';
+
+// ============================================================================
+// Metrics - Prometheus registry shared by the API server and the workers
+// ============================================================================
+
+export {
+  metricsRegistry,
+  recordJobsEnqueued,
+  timeProviderCall,
+  isMetricsRequestAuthorized,
+} from './metrics';
+
+// ============================================================================
+// Tracing - OpenTelemetry spans from API request through queue wait to provider send
+// ============================================================================
+
+export {
+  initTracing,
+  shutdownTracing,
+  injectTraceContext,
+  withSpan,
+  traceJob,
+  InMemorySpanExporter,
+} from './tracing';
+export type { TracingExporter, TracingOptions } from './tracing';
 
 // ============================================================================
 // Worker Creators - Functions for creating and managing worker processes
 // ============================================================================
 
-export { createSMSWorker, closeSMSWorker } from './workers';
+export {
+  createSMSWorker,
+  closeSMSWorker,
+  createEmailWorker,
+  closeEmailWorker,
+} from './workers';
+export type { NotificationWorkerOptions } from './workers';
+
+// ============================================================================
+// Message Persistence - Store contract for durable outbound message history
+// ============================================================================
+
+export { configureMessageStore } from './persistence';
+export type {
+  NotificationMessageStore,
+  NotificationMessageEntry,
+  NotificationMessageStatus,
+  NotificationChannel,
+} from './persistence';
+
+// ============================================================================
+// Usage - Ledger contract recording every SMS sent for billing
+// ============================================================================
+
+export * from './usage';
+
+// ============================================================================
+// Templates - Stored, versioned and localized SMS templates and the job renderer
+// ============================================================================
+
+export {
+  renderSMSJob,
+  renderTemplateBody,
+  findUnknownTemplateVariables,
+  extractTemplateVariables,
+  TemplateRenderError,
+  DEFAULT_SMS_TEMPLATE_KEYS,
+  SMS_TEMPLATE_VARIABLES,
+  BUILT_IN_SMS_LOCALES,
+  DEFAULT_LOCALE,
+  getLocaleConfig,
+  normalizeLocale,
+  resolveLocaleChain,
+  pickLocaleVariant,
+} from './templates';
+export type {
+  SMSTemplateStore,
+  SMSTemplateVersion,
+  SMSTemplateStatus,
+  TemplateRenderResult,
+  TemplateVariables,
+  LocaleConfig,
+} from './templates';
+
+// ============================================================================
+// Segments - GSM-7/UCS-2 detection, segment counting, cost estimates and length policy
+// ============================================================================
+
+export * from './segments';
+
+// ============================================================================
+// Suppression - Opt-out list contract, Redis cache and exemption policy
+// ============================================================================
+
+export * from './suppression';
+
+// ============================================================================
+// Tenants - Per-tenant sender IDs, provider accounts, default locales and rate limits
+// ============================================================================
+
+export * from './tenants';
+
+// ============================================================================
+// SMS Providers - Provider factory and failover with per-provider circuit breakers
+// ============================================================================
+
+export {
+  createSMSProvider,
+  SMS_PROVIDER_CREDENTIALS,
+  FailoverSMSProvider,
+  CircuitBreaker,
+} from './providers';
+export type {
+  SMSProvider,
+  SMSResult,
+  SMSProviderConfig,
+  SMSProviderAccount,
+  CircuitBreakerOptions,
+  CircuitState,
+} from './providers';
+
+// ============================================================================
+// Delivery Reports - Normalize provider delivery receipt callbacks
+// ============================================================================
+
+export { parseDeliveryReports, supportsDeliveryReports } from './providers';
+export type {
+  DeliveryStatus,
+  DeliveryReport,
+  DeliveryReportParser,
+} from './providers';
 
 // ============================================================================
 // Configuration Utilities - Redis and queue configuration helpers
@@ -50,6 +284,8 @@ export { createSMSWorker, closeSMSWorker } from './workers';
 export { 
   getRedisConfig, 
   getRedisConnection,
+  getRedisClient,
+  closeRedisClient,
   defaultQueueOptions,
   defaultWorkerOptions 
 } from './config';
@@ -0,0 +1,3 @@
+export * from './welcome.job';
+export * from './otp.job';
+export * from './notification.job';
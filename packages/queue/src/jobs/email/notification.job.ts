@@ -0,0 +1,48 @@
+import { emailQueue } from '../../queues/email.queue';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { NotificationEmailData, EmailRecipient, JobOptions, JobOwner } from '../../types';
+import { EmailJobType } from '../../types';
+
+export interface CreateNotificationEmailJobParams extends JobOwner {
+    recipient: EmailRecipient;
+    subject: string;
+    message: string;
+    html?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export const createNotificationEmailJob = async (
+    params: CreateNotificationEmailJobParams,
+    options?: JobOptions
+) => {
+    const jobData: NotificationEmailData = {
+        type: EmailJobType.NOTIFICATION,
+        id: options?.jobId || crypto.randomUUID(),
+        timestamp: Date.now(),
+        requestId: getRequestId(),
+        createdBy: params.createdBy,
+        tenantId: params.tenantId,
+        traceContext: injectTraceContext(),
+        recipient: params.recipient,
+        subject: params.subject,
+        message: params.message,
+        html: params.html,
+        metadata: params.metadata,
+    };
+
+    const job = await emailQueue.add('notification-email', jobData, {
+        priority: options?.priority,
+        delay: options?.delay,
+        jobId: jobData.id,
+    });
+    recordJobsEnqueued(emailQueue.name, jobData.type);
+    await recordQueuedMessage(emailQueue.name, jobData);
+
+    return {
+        jobId: job.id,
+        queueName: emailQueue.name,
+    };
+};
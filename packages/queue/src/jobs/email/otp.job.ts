@@ -0,0 +1,44 @@
+import { emailQueue } from '../../queues/email.queue';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { OTPEmailData, EmailRecipient, JobOptions, JobOwner } from '../../types';
+import { EmailJobType } from '../../types';
+
+export interface CreateOTPEmailJobParams extends JobOwner {
+  recipient: EmailRecipient;
+  code: string;
+  expiryMinutes: number;
+}
+
+export const createOTPEmailJob = async (
+  params: CreateOTPEmailJobParams,
+  options?: JobOptions
+) => {
+  const jobData: OTPEmailData = {
+    type: EmailJobType.OTP,
+    id: options?.jobId || crypto.randomUUID(),
+    timestamp: Date.now(),
+    requestId: getRequestId(),
+    createdBy: params.createdBy,
+    tenantId: params.tenantId,
+    traceContext: injectTraceContext(),
+    recipient: params.recipient,
+    code: params.code,
+    expiryMinutes: params.expiryMinutes,
+  };
+
+  const job = await emailQueue.add('otp-email', jobData, {
+    priority: options?.priority || 1, // OTP has higher priority
+    delay: options?.delay,
+    jobId: jobData.id,
+  });
+  recordJobsEnqueued(emailQueue.name, jobData.type);
+  await recordQueuedMessage(emailQueue.name, jobData);
+
+  return {
+    jobId: job.id,
+    queueName: emailQueue.name,
+  };
+};
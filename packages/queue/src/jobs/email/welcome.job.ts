@@ -0,0 +1,42 @@
+import { emailQueue } from '../../queues/email.queue';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { WelcomeEmailData, EmailRecipient, JobOptions, JobOwner } from '../../types';
+import { EmailJobType } from '../../types';
+
+export interface CreateWelcomeEmailJobParams extends JobOwner {
+  recipient: EmailRecipient;
+  userName: string;
+}
+
+export const createWelcomeEmailJob = async (
+  params: CreateWelcomeEmailJobParams,
+  options?: JobOptions
+) => {
+  const jobData: WelcomeEmailData = {
+    type: EmailJobType.WELCOME,
+    id: options?.jobId || crypto.randomUUID(),
+    timestamp: Date.now(),
+    requestId: getRequestId(),
+    createdBy: params.createdBy,
+    tenantId: params.tenantId,
+    traceContext: injectTraceContext(),
+    recipient: params.recipient,
+    userName: params.userName,
+  };
+
+  const job = await emailQueue.add('welcome-email', jobData, {
+    priority: options?.priority,
+    delay: options?.delay,
+    jobId: jobData.id,
+  });
+  recordJobsEnqueued(emailQueue.name, jobData.type);
+  await recordQueuedMessage(emailQueue.name, jobData);
+
+  return {
+    jobId: job.id,
+    queueName: emailQueue.name,
+  };
+};
@@ -1 +1,2 @@
 export * from './sms';
+export * from './email';
@@ -0,0 +1,190 @@
+import { smsQueue } from '../../queues/sms.queue';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { NotificationSMSData, SMSCategory, SMSRecipient, JobOptions, JobOwner } from '../../types';
+import { SMSJobType } from '../../types';
+import { interpolateTemplate, type TemplateVariables } from '../../templates/variables';
+import { parsePhoneNumber } from '../../phone/phone';
+import { applySegmentPolicy } from '../../segments/segments';
+import { recordSMSBatchOwner } from '../../events/sms-job-events';
+
+/**
+ * Default number of jobs added per `addBulk` call
+ * Each chunk is written to Redis atomically; chunks are added sequentially
+ */
+export const DEFAULT_BULK_CHUNK_SIZE = 500;
+
+export interface BulkSMSRecipient extends SMSRecipient {
+    variables?: TemplateVariables;
+}
+
+export interface CreateBulkNotificationSMSJobsParams extends JobOwner {
+    recipients: BulkSMSRecipient[];
+    /** Message template; `{{name}}` and per-recipient `variables` are substituted */
+    message: string;
+    category?: SMSCategory;
+    metadata?: Record<string, unknown>;
+}
+
+export interface BulkSMSJobOptions extends Omit<JobOptions, 'jobId'> {
+    batchId?: string;
+    chunkSize?: number;
+}
+
+export interface BulkRecipientError {
+    index: number;
+    phoneNumber: string;
+    errors: string[];
+}
+
+export interface BulkNotificationSMSJobsResult {
+    batchId: string;
+    queueName: string;
+    total: number;
+    queued: number;
+    jobIds: string[];
+    rejected: BulkRecipientError[];
+}
+
+/**
+ * Thrown when a chunk of a batch fails to reach Redis after earlier chunks were queued
+ * `result` lists the jobs that were queued before the failure; they stay queued.
+ */
+export class BulkEnqueueError extends Error {
+    readonly result: BulkNotificationSMSJobsResult;
+
+    constructor(result: BulkNotificationSMSJobsResult, cause: unknown) {
+        super(
+            `Queued ${result.queued} of ${result.total} SMS before failing: ${cause instanceof Error ? cause.message : String(cause)}`,
+            { cause }
+        );
+        this.name = 'BulkEnqueueError';
+        this.result = result;
+    }
+}
+
+/**
+ * Validates a bulk recipient and renders its personalized message
+ * The rendered message must satisfy the max-segments policy; it may come back transliterated to GSM-7.
+ * @returns The E.164 number and rendered message, or the list of problems with this recipient
+ */
+const prepareRecipient = (
+    recipient: BulkSMSRecipient,
+    template: string
+): { phoneNumber: string; message: string } | { errors: string[] } => {
+    const errors: string[] = [];
+
+    const phone = parsePhoneNumber(recipient.phoneNumber ?? '');
+    if (!phone.valid) {
+        errors.push(phone.message);
+    }
+
+    const { message, missing } = interpolateTemplate(template, {
+        ...(recipient.name ? { name: recipient.name } : {}),
+        ...recipient.variables,
+    });
+
+    if (missing.length > 0) {
+        errors.push(`Missing merge variables: ${missing.join(', ')}`);
+    }
+
+    const segments = applySegmentPolicy(message);
+    if (segments.status === 'rejected') {
+        errors.push(segments.reason);
+    }
+
+    if (!phone.valid || errors.length > 0) {
+        return { errors };
+    }
+
+    return { phoneNumber: phone.e164, message: segments.message };
+};
+
+/**
+ * Queue the same notification to many recipients with per-recipient personalization
+ * Invalid recipients are reported in `rejected` and do not prevent the valid ones from being queued.
+ * All jobs share a `batchId` so the batch can be tracked as a whole.
+ * @throws BulkEnqueueError if a chunk cannot be queued; earlier chunks stay queued
+ */
+export const createBulkNotificationSMSJobs = async (
+    params: CreateBulkNotificationSMSJobsParams,
+    options?: BulkSMSJobOptions
+): Promise<BulkNotificationSMSJobsResult> => {
+    const batchId = options?.batchId || crypto.randomUUID();
+    const chunkSize = Math.max(1, options?.chunkSize ?? DEFAULT_BULK_CHUNK_SIZE);
+    const timestamp = Date.now();
+    const requestId = getRequestId();
+    const { createdBy, tenantId } = params;
+    const traceContext = injectTraceContext();
+
+    const rejected: BulkRecipientError[] = [];
+    const jobs: Array<{ name: string; data: NotificationSMSData; opts: { priority?: number; delay?: number; jobId: string } }> = [];
+
+    params.recipients.forEach((recipient, index) => {
+        const prepared = prepareRecipient(recipient, params.message);
+
+        if ('errors' in prepared) {
+            rejected.push({ index, phoneNumber: recipient.phoneNumber, errors: prepared.errors });
+            return;
+        }
+
+        const jobData: NotificationSMSData = {
+            type: SMSJobType.NOTIFICATION,
+            id: crypto.randomUUID(),
+            timestamp,
+            requestId,
+            createdBy,
+            tenantId,
+            traceContext,
+            batchId,
+            recipient: {
+                phoneNumber: prepared.phoneNumber,
+                name: recipient.name,
+            },
+            message: prepared.message,
+            category: params.category,
+            metadata: params.metadata,
+        };
+
+        jobs.push({
+            name: 'notification-sms',
+            data: jobData,
+            opts: {
+                priority: options?.priority,
+                delay: options?.delay,
+                jobId: jobData.id,
+            },
+        });
+    });
+
+    if (jobs.length > 0) {
+        await recordSMSBatchOwner(batchId, { tenantId, createdBy });
+    }
+
+    const jobIds: string[] = [];
+    const toResult = (): BulkNotificationSMSJobsResult => ({
+        batchId,
+        queueName: smsQueue.name,
+        total: params.recipients.length,
+        queued: jobIds.length,
+        jobIds,
+        rejected,
+    });
+
+    for (let start = 0; start < jobs.length; start += chunkSize) {
+        const added = await smsQueue.addBulk(jobs.slice(start, start + chunkSize)).catch((error: unknown) => {
+            throw new BulkEnqueueError(toResult(), error);
+        });
+        recordJobsEnqueued(smsQueue.name, SMSJobType.NOTIFICATION, added.length);
+        await Promise.all(added.map((job) => recordQueuedMessage(smsQueue.name, job.data)));
+        for (const job of added) {
+            if (job.id) {
+                jobIds.push(job.id);
+            }
+        }
+    }
+
+    return toResult();
+};
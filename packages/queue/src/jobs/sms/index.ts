@@ -1,3 +1,5 @@
 export * from './welcome.job';
 export * from './otp.job';
 export * from './notification.job';
+export * from './bulk-notification.job';
+export * from './schedule.job';
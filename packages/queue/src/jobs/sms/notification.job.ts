@@ -1,10 +1,17 @@
 import { smsQueue } from '../../queues/sms.queue';
-import type { NotificationSMSData, SMSRecipient, JobOptions } from '../../types';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { NotificationSMSData, SMSCategory, SMSRecipient, SMSTemplateReference, JobOptions, JobOwner } from '../../types';
 import { SMSJobType } from '../../types';
+import { createSMSRecipient } from '../../phone/phone';
 
-export interface CreateNotificationSMSJobParams {
+export interface CreateNotificationSMSJobParams extends JobOwner {
     recipient: SMSRecipient;
     message: string;
+    category?: SMSCategory;
+    template?: SMSTemplateReference;
     metadata?: Record<string, unknown>;
 }
 
@@ -16,16 +23,24 @@ export const createNotificationSMSJob = async (
         type: SMSJobType.NOTIFICATION,
         id: options?.jobId || crypto.randomUUID(),
         timestamp: Date.now(),
-        recipient: params.recipient,
+        requestId: getRequestId(),
+        createdBy: params.createdBy,
+        tenantId: params.tenantId,
+        traceContext: injectTraceContext(),
+        recipient: createSMSRecipient(params.recipient),
         message: params.message,
+        category: params.category,
+        template: params.template,
         metadata: params.metadata,
     };
 
     const job = await smsQueue.add('notification-sms', jobData, {
         priority: options?.priority,
         delay: options?.delay,
-        jobId: options?.jobId,
+        jobId: jobData.id,
     });
+    recordJobsEnqueued(smsQueue.name, jobData.type);
+    await recordQueuedMessage(smsQueue.name, jobData);
 
     return {
         jobId: job.id,
@@ -1,11 +1,17 @@
 import { smsQueue } from '../../queues/sms.queue';
-import type { OTPSMSData, SMSRecipient, JobOptions } from '../../types';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { OTPSMSData, SMSRecipient, SMSTemplateReference, JobOptions, JobOwner } from '../../types';
 import { SMSJobType } from '../../types';
+import { createSMSRecipient } from '../../phone/phone';
 
-export interface CreateOTPSMSJobParams {
+export interface CreateOTPSMSJobParams extends JobOwner {
   recipient: SMSRecipient;
   code: string;
   expiryMinutes: number;
+  template?: SMSTemplateReference;
 }
 
 export const createOTPSMSJob = async (
@@ -16,16 +22,23 @@ export const createOTPSMSJob = async (
     type: SMSJobType.OTP,
     id: options?.jobId || crypto.randomUUID(),
     timestamp: Date.now(),
-    recipient: params.recipient,
+    requestId: getRequestId(),
+    createdBy: params.createdBy,
+    tenantId: params.tenantId,
+    traceContext: injectTraceContext(),
+    recipient: createSMSRecipient(params.recipient),
     code: params.code,
     expiryMinutes: params.expiryMinutes,
+    template: params.template,
   };
 
   const job = await smsQueue.add('otp-sms', jobData, {
     priority: options?.priority || 1, // OTP has higher priority
     delay: options?.delay,
-    jobId: options?.jobId,
+    jobId: jobData.id,
   });
+  recordJobsEnqueued(smsQueue.name, jobData.type);
+  await recordQueuedMessage(smsQueue.name, jobData);
 
   return {
     jobId: job.id,
@@ -0,0 +1,289 @@
+import type { JobSchedulerJson } from 'bullmq';
+import { smsQueue } from '../../queues/sms.queue';
+import type { NotificationSMSData, SMSCategory, SMSJobData, SMSRecipient, JobOptions, JobOwner } from '../../types';
+import { SMSJobType } from '../../types';
+import { createSMSRecipient } from '../../phone/phone';
+import type { NotificationJobFilter } from '../../queues/job-status';
+
+export interface NotificationSMSScheduleOptions {
+  cron?: string; // Cron pattern, e.g. '0 8 * * 1' for every Monday at 08:00
+  every?: number; // Fixed interval in milliseconds (alternative to cron)
+  timezone?: string; // IANA timezone for the cron pattern, e.g. 'Africa/Nairobi'
+  startDate?: Date | string | number;
+  endDate?: Date | string | number;
+  limit?: number; // Maximum number of runs
+}
+
+export interface CreateNotificationSMSScheduleParams extends JobOwner {
+  scheduleId?: string;
+  recipient: SMSRecipient;
+  message: string;
+  category?: SMSCategory;
+  metadata?: Record<string, unknown>;
+}
+
+export type UpdateNotificationSMSScheduleParams = Partial<
+  Omit<CreateNotificationSMSScheduleParams, 'scheduleId'> & NotificationSMSScheduleOptions
+>;
+
+export interface NotificationSMSSchedule {
+  scheduleId: string;
+  queueName: string;
+  tenantId?: string; // Tenant whose accounts and limits the runs use
+  recipient: SMSRecipient;
+  message: string;
+  category?: SMSCategory;
+  metadata?: Record<string, unknown>;
+  cron?: string;
+  every?: number;
+  timezone?: string;
+  startDate?: number;
+  endDate?: number;
+  limit?: number;
+  runCount: number;
+  nextRunAt?: number;
+}
+
+const SCHEDULED_JOB_NAME = 'scheduled-notification-sms';
+
+/**
+ * Schedulers read per Redis call while listing the schedules of one tenant
+ */
+const SCHEDULE_SCAN_PAGE_SIZE = 100;
+
+
+const toTimestamp = (value?: Date | string | number): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const timestamp = new Date(value).getTime();
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return timestamp;
+};
+
+/**
+ * Validates schedule options before they reach BullMQ
+ * @throws Error if the options are inconsistent or reference an unknown timezone
+ */
+const validateScheduleOptions = (schedule: NotificationSMSScheduleOptions): void => {
+  if (!schedule.cron === !schedule.every) {
+    throw new Error('Schedule requires exactly one of cron or every');
+  }
+
+  if (schedule.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      throw new Error(`Unknown timezone: ${schedule.timezone}`);
+    }
+  }
+
+  const endDate = toTimestamp(schedule.endDate);
+  if (endDate !== undefined && endDate <= Date.now()) {
+    throw new Error('Schedule endDate must be in the future');
+  }
+
+  if (schedule.limit !== undefined && (!Number.isInteger(schedule.limit) || schedule.limit < 1)) {
+    throw new Error('Schedule limit must be a positive integer');
+  }
+};
+
+const toNotificationSMSSchedule = (
+  scheduler: JobSchedulerJson<SMSJobData>
+): NotificationSMSSchedule | null => {
+  const data = scheduler.template?.data;
+  if (!data || data.type !== SMSJobType.NOTIFICATION) {
+    return null;
+  }
+
+  return {
+    scheduleId: scheduler.key,
+    queueName: smsQueue.name,
+    tenantId: data.tenantId,
+    recipient: data.recipient,
+    message: data.message,
+    category: data.category,
+    metadata: data.metadata,
+    cron: scheduler.pattern,
+    every: scheduler.every,
+    timezone: scheduler.tz,
+    startDate: scheduler.startDate,
+    endDate: scheduler.endDate,
+    limit: scheduler.limit,
+    runCount: scheduler.iterationCount ?? 0,
+    nextRunAt: scheduler.next ?? undefined,
+  };
+};
+
+const matchesFilter = (schedule: NotificationSMSSchedule, filter: NotificationJobFilter): boolean =>
+  filter.tenantId === undefined || schedule.tenantId === filter.tenantId;
+
+const upsertNotificationSMSSchedule = async (
+  scheduleId: string,
+  owner: JobOwner,
+  params: Omit<CreateNotificationSMSScheduleParams, 'scheduleId' | keyof JobOwner>,
+  schedule: NotificationSMSScheduleOptions,
+  options?: Pick<JobOptions, 'priority'>
+): Promise<NotificationSMSSchedule> => {
+  validateScheduleOptions(schedule);
+
+  const jobData: NotificationSMSData = {
+    type: SMSJobType.NOTIFICATION,
+    id: scheduleId,
+    timestamp: Date.now(),
+    createdBy: owner.createdBy,
+    tenantId: owner.tenantId,
+    recipient: createSMSRecipient(params.recipient),
+    message: params.message,
+    category: params.category,
+    metadata: params.metadata,
+  };
+
+  await smsQueue.upsertJobScheduler(
+    scheduleId,
+    {
+      pattern: schedule.cron,
+      every: schedule.every,
+      tz: schedule.cron ? schedule.timezone : undefined,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      limit: schedule.limit,
+    },
+    {
+      name: SCHEDULED_JOB_NAME,
+      data: jobData,
+      opts: { priority: options?.priority },
+    }
+  );
+
+  const created = await getNotificationSMSSchedule(scheduleId);
+  if (!created) {
+    throw new Error(`Schedule ${scheduleId} was not persisted`);
+  }
+  return created;
+};
+
+/**
+ * Create a recurring notification SMS driven by a BullMQ job scheduler
+ * Reusing an existing scheduleId replaces that schedule.
+ * @param params - Recipient and message sent on every run, and the tenant and caller runs are attributed to
+ * @param schedule - Cron pattern or interval, with optional timezone, end date and run limit
+ */
+export const createNotificationSMSSchedule = async (
+  params: CreateNotificationSMSScheduleParams,
+  schedule: NotificationSMSScheduleOptions,
+  options?: Pick<JobOptions, 'priority'>
+): Promise<NotificationSMSSchedule> => {
+  const { scheduleId = crypto.randomUUID(), tenantId, createdBy, ...rest } = params;
+  return upsertNotificationSMSSchedule(
+    scheduleId,
+    { tenantId, createdBy },
+    rest,
+    schedule,
+    options
+  );
+};
+
+/**
+ * Update fields of an existing notification SMS schedule
+ * Switching between cron and every clears the other trigger. Runs stay attributed to the
+ * caller and tenant that created the schedule.
+ * @param filter - Tenant the schedule must belong to
+ * @returns The updated schedule, or null if no schedule has this id or it belongs to another tenant
+ */
+export const updateNotificationSMSSchedule = async (
+  scheduleId: string,
+  updates: UpdateNotificationSMSScheduleParams,
+  filter: NotificationJobFilter = {}
+): Promise<NotificationSMSSchedule | null> => {
+  const scheduler = await smsQueue.getJobScheduler(scheduleId);
+  const existing = scheduler ? toNotificationSMSSchedule(scheduler) : null;
+  if (!scheduler || !existing || !matchesFilter(existing, filter)) {
+    return null;
+  }
+
+  const usesInterval = updates.every !== undefined;
+  const usesCron = updates.cron !== undefined;
+
+  return upsertNotificationSMSSchedule(
+    scheduleId,
+    { createdBy: scheduler.template?.data?.createdBy, tenantId: existing.tenantId },
+    {
+      recipient: updates.recipient ?? existing.recipient,
+      message: updates.message ?? existing.message,
+      category: updates.category ?? existing.category,
+      metadata: updates.metadata ?? existing.metadata,
+    },
+    {
+      cron: usesInterval ? undefined : updates.cron ?? existing.cron,
+      every: usesCron ? undefined : updates.every ?? existing.every,
+      timezone: updates.timezone ?? existing.timezone,
+      startDate: updates.startDate ?? existing.startDate,
+      endDate: updates.endDate ?? existing.endDate,
+      limit: updates.limit ?? existing.limit,
+    },
+    { priority: scheduler.template?.opts?.priority }
+  );
+};
+
+/**
+ * Get a single notification SMS schedule
+ * @param filter - Tenant the schedule must belong to
+ * @returns The schedule, or null if no schedule has this id or it belongs to another tenant
+ */
+export const getNotificationSMSSchedule = async (
+  scheduleId: string,
+  filter: NotificationJobFilter = {}
+): Promise<NotificationSMSSchedule | null> => {
+  const scheduler = await smsQueue.getJobScheduler(scheduleId);
+  const schedule = scheduler ? toNotificationSMSSchedule(scheduler) : null;
+  return schedule && matchesFilter(schedule, filter) ? schedule : null;
+};
+
+/**
+ * List notification SMS schedules ordered by next run time
+ * Offsets count matching schedules only, so schedulers are read page by page until enough match.
+ * @param start - Zero-based offset
+ * @param end - Inclusive end offset (-1 for all)
+ * @param filter - Only schedules of this tenant
+ */
+export const listNotificationSMSSchedules = async (
+  start = 0,
+  end = -1,
+  filter: NotificationJobFilter = {}
+): Promise<NotificationSMSSchedule[]> => {
+  const wanted = end < 0 ? Number.POSITIVE_INFINITY : end + 1;
+  const matches: NotificationSMSSchedule[] = [];
+
+  for (let offset = 0; matches.length < wanted; offset += SCHEDULE_SCAN_PAGE_SIZE) {
+    const schedulers = await smsQueue.getJobSchedulers(offset, offset + SCHEDULE_SCAN_PAGE_SIZE - 1, true);
+    for (const scheduler of schedulers) {
+      const schedule = toNotificationSMSSchedule(scheduler);
+      if (schedule && matchesFilter(schedule, filter)) {
+        matches.push(schedule);
+      }
+    }
+    if (schedulers.length < SCHEDULE_SCAN_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return matches.slice(start, end < 0 ? undefined : end + 1);
+};
+
+/**
+ * Delete a notification SMS schedule; runs that are already queued are not affected
+ * @param filter - Tenant the schedule must belong to
+ * @returns true if a schedule was removed
+ */
+export const removeNotificationSMSSchedule = async (
+  scheduleId: string,
+  filter: NotificationJobFilter = {}
+): Promise<boolean> => {
+  if (!(await getNotificationSMSSchedule(scheduleId, filter))) {
+    return false;
+  }
+  return smsQueue.removeJobScheduler(scheduleId);
+};
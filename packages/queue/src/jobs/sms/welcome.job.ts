@@ -1,10 +1,16 @@
 import { smsQueue } from '../../queues/sms.queue';
-import type { WelcomeSMSData, SMSRecipient, JobOptions } from '../../types';
+import { recordJobsEnqueued } from '../../metrics/metrics';
+import { recordQueuedMessage } from '../../persistence/recorder';
+import { getRequestId } from '../../logging/logger';
+import { injectTraceContext } from '../../tracing/tracing';
+import type { WelcomeSMSData, SMSRecipient, SMSTemplateReference, JobOptions, JobOwner } from '../../types';
 import { SMSJobType } from '../../types';
+import { createSMSRecipient } from '../../phone/phone';
 
-export interface CreateWelcomeSMSJobParams {
+export interface CreateWelcomeSMSJobParams extends JobOwner {
   recipient: SMSRecipient;
   userName: string;
+  template?: SMSTemplateReference;
 }
 
 export const createWelcomeSMSJob = async (
@@ -15,15 +21,22 @@ export const createWelcomeSMSJob = async (
     type: SMSJobType.WELCOME,
     id: options?.jobId || crypto.randomUUID(),
     timestamp: Date.now(),
-    recipient: params.recipient,
+    requestId: getRequestId(),
+    createdBy: params.createdBy,
+    tenantId: params.tenantId,
+    traceContext: injectTraceContext(),
+    recipient: createSMSRecipient(params.recipient),
     userName: params.userName,
+    template: params.template,
   };
 
   const job = await smsQueue.add('welcome-sms', jobData, {
     priority: options?.priority,
     delay: options?.delay,
-    jobId: options?.jobId,
+    jobId: jobData.id,
   });
+  recordJobsEnqueued(smsQueue.name, jobData.type);
+  await recordQueuedMessage(smsQueue.name, jobData);
 
   return {
     jobId: job.id,
@@ -0,0 +1,4 @@
+export { logger, Logger, configureLogger, withLogContext, getRequestId } from './logger';
+export type { LogLevel, LogFields, LoggerOptions } from './logger';
+export { redactFields, DEFAULT_REDACTED_KEYS, DEFAULT_REDACTION_RULES, REDACTED } from './redact';
+export type { RedactionRule, RedactionConfig } from './redact';
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_RULES,
+  redactFields,
+  type RedactionConfig,
+  type RedactionRule,
+} from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  redactKeys?: string[]; // Added to the default redacted field names
+  redactionRules?: RedactionRule[]; // Added to the default string rules
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+let level: LogLevel | null = null;
+let redaction: RedactionConfig | null = null;
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+/**
+ * Read LOG_LEVEL (debug, info, warn, error; default info)
+ */
+const getLevelFromEnv = (): LogLevel => {
+  const value = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  if (!(value in LOG_LEVELS)) {
+    throw new Error(`Invalid LOG_LEVEL: ${process.env.LOG_LEVEL}. Must be one of: ${Object.keys(LOG_LEVELS).join(', ')}.`);
+  }
+  return value as LogLevel;
+};
+
+/**
+ * Redaction config from the defaults plus LOG_REDACT_KEYS (comma separated field names)
+ */
+const getRedactionFromEnv = (): RedactionConfig => {
+  const extraKeys = (process.env.LOG_REDACT_KEYS || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  return {
+    keys: [...DEFAULT_REDACTED_KEYS, ...extraKeys].map(normalizeKey),
+    rules: DEFAULT_REDACTION_RULES,
+  };
+};
+
+/**
+ * Override the log level or add redaction rules at startup
+ * Settings not passed here are read from LOG_LEVEL and LOG_REDACT_KEYS.
+ */
+export const configureLogger = (options: LoggerOptions): void => {
+  const base = getRedactionFromEnv();
+
+  level = options.level ?? getLevelFromEnv();
+  redaction = {
+    keys: [...base.keys, ...(options.redactKeys ?? []).map(normalizeKey)],
+    rules: [...base.rules, ...(options.redactionRules ?? [])],
+  };
+};
+
+/**
+ * Run a function with fields (e.g. requestId, jobId) added to every log line written inside it,
+ * including lines from async work it starts
+ */
+export const withLogContext = <T>(fields: LogFields, fn: () => T): T => {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+};
+
+/**
+ * Id of the API request being handled, if any; job creators copy it into job data
+ */
+export const getRequestId = (): string | undefined => {
+  const requestId = contextStorage.getStore()?.requestId;
+  return typeof requestId === 'string' ? requestId : undefined;
+};
+
+/**
+ * JSON logger writing one line per entry
+ * Every entry carries the time, level, message, the current log context and the logger's bindings,
+ * with secrets and personal data redacted. Warnings and errors go to stderr.
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /**
+   * Logger that adds fixed fields (e.g. a component name) to every entry
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(entryLevel: LogLevel, message: string, fields?: LogFields): void {
+    level ??= getLevelFromEnv();
+    redaction ??= getRedactionFromEnv();
+
+    if (LOG_LEVELS[entryLevel] < LOG_LEVELS[level]) {
+      return;
+    }
+
+    const entry = redactFields(
+      {
+        time: new Date().toISOString(),
+        level: entryLevel,
+        msg: message,
+        ...contextStorage.getStore(),
+        ...this.bindings,
+        ...fields,
+      },
+      redaction
+    );
+
+    const line = `${JSON.stringify(entry)}\n`;
+    if (LOG_LEVELS[entryLevel] >= LOG_LEVELS.warn) {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+/**
+ * Shared root logger
+ */
+export const logger = new Logger();
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_REDACTED_KEYS, DEFAULT_REDACTION_RULES, redactFields } from './redact';
+
+const config = { keys: DEFAULT_REDACTED_KEYS, rules: DEFAULT_REDACTION_RULES };
+
+describe('redactFields', () => {
+    test('masks OTP codes in message payloads but not in error messages', () => {
+        const redacted = redactFields(
+            {
+                message: 'Your code is 482913',
+                data: { type: 'otp', message: 'Your code is 482913' },
+                err: new Error('Request timed out after 30000ms'),
+            },
+            config
+        );
+
+        expect(redacted.message).toBe('Your code is ******');
+        expect(redacted.data).toEqual({ type: 'otp', message: 'Your code is ******' });
+        expect((redacted.err as { message: string }).message).toBe('Request timed out after 30000ms');
+    });
+
+    test('masks phone numbers from any region, with or without a plus', () => {
+        const redacted = redactFields(
+            { err: new Error('Rejected +14155550100, 07911123456 and 0712345678') },
+            config
+        );
+
+        expect((redacted.err as { message: string }).message).toBe(
+            'Rejected +141******00, 0791*****56 and 0712****78'
+        );
+    });
+
+    test('writes out objects referenced twice and only marks real cycles', () => {
+        const recipient = { name: 'Amina' };
+        const cyclic: Record<string, unknown> = { name: 'loop' };
+        cyclic.self = cyclic;
+
+        const redacted = redactFields({ first: recipient, second: [recipient, recipient], cyclic }, config);
+
+        expect(redacted.first).toEqual({ name: 'Amina' });
+        expect(redacted.second).toEqual([{ name: 'Amina' }, { name: 'Amina' }]);
+        expect(redacted.cyclic).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Rule that masks matches of a pattern inside string values
+ */
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp; // Must use the `g` flag
+  replace: (match: string) => string;
+  keys?: string[]; // Only apply to values under these keys (any string value when omitted)
+  parents?: string[]; // Only apply inside objects under these keys or directly in the log fields (anywhere when omitted)
+}
+
+export interface RedactionConfig {
+  keys: string[]; // Field names whose values are replaced entirely, matched case-insensitively ignoring `-` and `_`
+  rules: RedactionRule[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Nested values deeper than this are replaced rather than walked
+ */
+const MAX_DEPTH = 8;
+
+/**
+ * Keep the first 4 and last 2 characters so logs stay useful for support without exposing the number
+ */
+const maskPhoneNumber = (value: string): string => {
+  return value.length <= 6 ? '*'.repeat(value.length) : `${value.slice(0, 4)}${'*'.repeat(value.length - 6)}${value.slice(-2)}`;
+};
+
+const maskAll = (value: string): string => '*'.repeat(value.length);
+
+/**
+ * Field names that always hold secrets
+ */
+export const DEFAULT_REDACTED_KEYS = [
+  'apikey',
+  'password',
+  'secret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'authorization',
+  'cookie',
+  'otp',
+  'otpcode',
+];
+
+/**
+ * Default string rules: phone numbers, OTP codes and credentials embedded in text (e.g. provider errors)
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'credential-assignment',
+    pattern: /\b(api[-_]?key|password|secret|token|access[-_]?token)(["']?\s*[:=]\s*["']?)([^\s"'&,;}]+)/gi,
+    replace: (match) => match.replace(/^([^:=]+[:=]\s*["']?).*$/, `$1${REDACTED}`),
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\bBearer\s+[\w.~+/=-]+/g,
+    replace: () => `Bearer ${REDACTED}`,
+  },
+  {
+    // OTP job data keeps the code under `code`; error codes such as ECONNREFUSED are left alone
+    name: 'otp-code-field',
+    pattern: /^\d{4,10}$/g,
+    replace: maskAll,
+    keys: ['code'],
+  },
+  {
+    // Message bodies can hold OTP codes, so every run of 4-10 digits in them is masked; other
+    // `message` fields such as Error.message keep their numbers
+    name: 'otp-code-in-message',
+    pattern: /(?<!\d)\d{4,10}(?!\d)/g,
+    replace: maskAll,
+    keys: ['message', 'text', 'html', 'body'],
+    parents: ['data', 'payload', 'job', 'entry'],
+  },
+  {
+    // Any run of 9-15 digits, with or without "+", covers national and international forms in every
+    // region. It runs after the OTP rules so a 9-10 digit code in a message body is masked in full.
+    name: 'phone-number',
+    pattern: /\+?(?<!\d)\d{9,15}(?!\d)/g,
+    replace: maskPhoneNumber,
+  },
+];
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+const matchesKey = (keys: string[], key: string | undefined): boolean => {
+  if (key === undefined) {
+    return false;
+  }
+  const normalizedKey = normalizeKey(key);
+  return keys.some((k) => normalizeKey(k) === normalizedKey);
+};
+
+/**
+ * @param parent - Key of the object holding the value; undefined for the top-level log fields
+ */
+const redactString = (
+  value: string,
+  key: string | undefined,
+  parent: string | undefined,
+  config: RedactionConfig
+): string => {
+  return config.rules.reduce((result, rule) => {
+    if (rule.keys && !matchesKey(rule.keys, key)) {
+      return result;
+    }
+    if (rule.parents && parent !== undefined && !matchesKey(rule.parents, parent)) {
+      return result;
+    }
+    return result.replace(rule.pattern, rule.replace);
+  }, value);
+};
+
+/**
+ * @param seen - Objects on the path from the log fields to this value, to detect cycles
+ */
+const redactValue = (
+  value: unknown,
+  key: string | undefined,
+  parent: string | undefined,
+  config: RedactionConfig,
+  depth: number,
+  seen: WeakSet<object>
+): unknown => {
+  if (key !== undefined && config.keys.includes(normalizeKey(key)) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    return redactString(value, key, parent, config);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  // Only ancestors count as cycles; the same object referenced twice is written out both times
+  seen.add(value);
+  try {
+    return redactObject(value, key, parent, config, depth, seen);
+  } finally {
+    seen.delete(value);
+  }
+};
+
+const redactObject = (
+  value: object,
+  key: string | undefined,
+  parent: string | undefined,
+  config: RedactionConfig,
+  depth: number,
+  seen: WeakSet<object>
+): unknown => {
+  // Errors do not serialize their message and stack by default
+  if (value instanceof Error) {
+    return redactValue(
+      { name: value.name, message: value.message, stack: value.stack, cause: value.cause },
+      key,
+      parent,
+      config,
+      depth,
+      seen
+    );
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, key, parent, config, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [childKey, childValue] of Object.entries(value)) {
+    if (childValue !== undefined) {
+      result[childKey] = redactValue(childValue, childKey, key, config, depth + 1, seen);
+    }
+  }
+  return result;
+};
+
+/**
+ * Copy log fields with secrets and personal data masked
+ * @param fields - Log entry fields; Error instances are expanded to name, message and stack
+ * @param config - Redacted field names and string rules
+ */
+export const redactFields = (
+  fields: Record<string, unknown>,
+  config: RedactionConfig
+): Record<string, unknown> => {
+  return redactValue(fields, undefined, undefined, config, 0, new WeakSet()) as Record<string, unknown>;
+};
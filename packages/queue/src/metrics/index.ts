@@ -0,0 +1,13 @@
+export {
+  metricsRegistry,
+  jobsEnqueuedTotal,
+  jobsCompletedTotal,
+  jobsFailedTotal,
+  jobRetriesTotal,
+  jobProcessingSeconds,
+  providerRequestSeconds,
+  queueJobs,
+  recordJobsEnqueued,
+  timeProviderCall,
+  isMetricsRequestAuthorized,
+} from './metrics';
@@ -0,0 +1,136 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { getQueueOverviews } from '../queues/admin';
+import { logger } from '../logging/logger';
+
+/**
+ * Registry shared by the API server and the workers
+ * Apps register their own metrics (e.g. HTTP requests) here so one `/metrics` response covers everything.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const jobsEnqueuedTotal = new Counter({
+  name: 'notification_jobs_enqueued_total',
+  help: 'Notification jobs added to a queue',
+  labelNames: ['queue', 'type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsCompletedTotal = new Counter({
+  name: 'notification_jobs_completed_total',
+  help: 'Notification jobs that finished without error; skipped jobs have provider "none"',
+  labelNames: ['queue', 'type', 'provider'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsFailedTotal = new Counter({
+  name: 'notification_jobs_failed_total',
+  help: 'Notification jobs that failed their final attempt; provider is "none" if no provider was called',
+  labelNames: ['queue', 'type', 'provider'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobRetriesTotal = new Counter({
+  name: 'notification_job_retries_total',
+  help: 'Failed attempts that will be retried',
+  labelNames: ['queue', 'type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobProcessingSeconds = new Histogram({
+  name: 'notification_job_processing_seconds',
+  help: 'Time spent processing one job attempt',
+  labelNames: ['queue', 'type', 'outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const providerRequestSeconds = new Histogram({
+  name: 'notification_provider_request_seconds',
+  help: 'Time spent in provider send calls, including failover',
+  labelNames: ['channel', 'provider', 'outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Longest a scrape waits for queue counts; BullMQ commands wait indefinitely while Redis is down
+ */
+const QUEUE_DEPTH_TIMEOUT_MS = 2000;
+
+/**
+ * Read from Redis on every scrape, so each process reports the current depth
+ * If Redis does not answer in time the previous values are kept and the scrape still succeeds.
+ */
+export const queueJobs = new Gauge({
+  name: 'notification_queue_jobs',
+  help: 'Jobs per queue and state',
+  labelNames: ['queue', 'state'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const overviews = await Promise.race([
+        getQueueOverviews(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Timed out reading queue counts')), QUEUE_DEPTH_TIMEOUT_MS);
+        }),
+      ]);
+      this.reset();
+      for (const { name, counts } of overviews) {
+        for (const [state, count] of Object.entries(counts)) {
+          this.set({ queue: name, state }, count);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to collect queue depth metrics', { err: error });
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+});
+
+/**
+ * Count jobs added by a job creator
+ * @param count - Number of jobs added (bulk creators add many at once)
+ */
+export const recordJobsEnqueued = (queue: string, type: string, count = 1): void => {
+  jobsEnqueuedTotal.inc({ queue, type }, count);
+};
+
+/**
+ * Time a provider send call and record its outcome
+ * Thrown errors are recorded with provider "unknown" and rethrown.
+ */
+export const timeProviderCall = async <T extends { success: boolean; provider: string }>(
+  channel: 'sms' | 'email',
+  send: () => Promise<T>
+): Promise<T> => {
+  const end = providerRequestSeconds.startTimer({ channel });
+
+  try {
+    const result = await send();
+    end({ provider: result.provider, outcome: result.success ? 'success' : 'failure' });
+    return result;
+  } catch (error) {
+    end({ provider: 'unknown', outcome: 'error' });
+    throw error;
+  }
+};
+
+/**
+ * Check the bearer token of a metrics scrape against METRICS_TOKEN
+ * The header is compared in constant time; both sides are hashed first so their lengths match.
+ * @returns True when no token is configured or the Authorization header matches
+ */
+export const isMetricsRequestAuthorized = (authorization: string | null | undefined): boolean => {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) {
+    return true;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return typeof authorization === 'string' && timingSafeEqual(digest(authorization), digest(`Bearer ${token}`));
+};
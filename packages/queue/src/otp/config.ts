@@ -0,0 +1,52 @@
+/**
+ * OTP policy settings
+ */
+export interface OTPConfig {
+  codeLength: number;
+  ttlSeconds: number; // How long a code stays valid
+  maxAttempts: number; // Wrong guesses allowed before lockout
+  lockoutSeconds: number; // How long verification and resends are blocked after max attempts
+  resendCooldownSeconds: number; // Minimum time between two codes for the same phone and purpose
+  hashSecret: string; // HMAC key for stored code hashes
+}
+
+const readInt = (name: string, fallback: number, min: number): number => {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number.parseInt(raw, 10);
+  if (Number.isNaN(value) || value < min) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be an integer >= ${min}.`);
+  }
+  return value;
+};
+
+/**
+ * Get OTP configuration from environment variables
+ * @returns OTPConfig with defaults applied
+ * @throws Error if OTP_HASH_SECRET is missing outside tests or a numeric setting is invalid
+ */
+export const getOTPConfig = (): OTPConfig => {
+  const hashSecret = process.env.OTP_HASH_SECRET;
+
+  // A shared default would let anyone who reads the code compute hashes for stolen Redis data
+  if (!hashSecret && process.env.NODE_ENV !== 'test') {
+    throw new Error('OTP_HASH_SECRET environment variable is required');
+  }
+
+  const codeLength = readInt('OTP_CODE_LENGTH', 6, 4);
+  if (codeLength > 10) {
+    throw new Error(`Invalid OTP_CODE_LENGTH: ${codeLength}. Must be between 4 and 10.`);
+  }
+
+  return {
+    codeLength,
+    ttlSeconds: readInt('OTP_TTL_SECONDS', 600, 60),
+    maxAttempts: readInt('OTP_MAX_ATTEMPTS', 5, 1),
+    lockoutSeconds: readInt('OTP_LOCKOUT_SECONDS', 900, 0),
+    resendCooldownSeconds: readInt('OTP_RESEND_COOLDOWN_SECONDS', 60, 0),
+    hashSecret: hashSecret || 'test-otp-secret',
+  };
+};
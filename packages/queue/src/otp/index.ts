@@ -0,0 +1,4 @@
+export { sendOTP, verifyOTP } from './otp.service';
+export type { SendOTPParams, SendOTPResult, VerifyOTPParams, VerifyOTPResult } from './otp.service';
+export { getOTPConfig } from './config';
+export type { OTPConfig } from './config';
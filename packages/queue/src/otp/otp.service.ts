@@ -0,0 +1,195 @@
+import { createHmac, randomInt } from 'node:crypto';
+import { getRedisClient } from '../config/redis-client';
+import { createOTPSMSJob } from '../jobs/sms/otp.job';
+import type { JobOwner, SMSRecipient } from '../types';
+import { getOTPConfig } from './config';
+import { toE164 } from '../phone/phone';
+
+export interface SendOTPParams extends JobOwner {
+  recipient: SMSRecipient;
+  purpose?: string; // Separates codes for different flows, e.g. 'login' vs 'phone-verification'
+}
+
+export type SendOTPResult =
+  | { status: 'sent'; jobId: string | undefined; queueName: string; expiresAt: number; resendAvailableAt: number }
+  | { status: 'cooldown'; retryAfterSeconds: number }
+  | { status: 'locked'; retryAfterSeconds: number };
+
+export interface VerifyOTPParams {
+  tenantId?: string; // Must match the tenant the code was sent for
+  phoneNumber: string;
+  code: string;
+  purpose?: string;
+}
+
+export type VerifyOTPResult =
+  | { status: 'valid' }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'not_found' } // Never sent, expired or already used
+  | { status: 'locked'; retryAfterSeconds: number };
+
+const DEFAULT_PURPOSE = 'verification';
+
+/**
+ * Atomically checks a code hash, counts the attempt and consumes or locks out
+ * KEYS[1] = code hash key, KEYS[2] = lockout key
+ * ARGV[1] = candidate hash, ARGV[2] = max attempts, ARGV[3] = lockout seconds
+ */
+const VERIFY_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then
+  return {'locked', redis.call('TTL', KEYS[2])}
+end
+local stored = redis.call('HGET', KEYS[1], 'hash')
+if not stored then
+  return {'not_found', 0}
+end
+if stored == ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return {'valid', 0}
+end
+local attempts = redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+local remaining = tonumber(ARGV[2]) - attempts
+if remaining <= 0 then
+  redis.call('DEL', KEYS[1])
+  if tonumber(ARGV[3]) > 0 then
+    redis.call('SET', KEYS[2], '1', 'EX', ARGV[3])
+  end
+  return {'locked', tonumber(ARGV[3])}
+end
+return {'invalid', remaining}
+`;
+
+/**
+ * Canonical form of a phone number used in Redis keys and hashes
+ * @throws InvalidPhoneNumberError if the number cannot be normalized to E.164
+ */
+const canonicalPhone = (phoneNumber: string): string => {
+  return toE164(phoneNumber);
+};
+
+/**
+ * Codes are scoped to a tenant, so one tenant cannot verify, resend or lock out another
+ * tenant's codes for the same phone; '_' stands for no tenant
+ */
+const tenantScope = (tenantId: string | undefined): string => tenantId ?? '_';
+
+const getKeys = (tenantId: string | undefined, phoneNumber: string, purpose: string) => {
+  const base = `otp:${tenantScope(tenantId)}:${purpose}:${canonicalPhone(phoneNumber)}`;
+  return {
+    code: `${base}:code`,
+    cooldown: `${base}:cooldown`,
+    lock: `${base}:lock`,
+  };
+};
+
+const hashCode = (
+  secret: string,
+  tenantId: string | undefined,
+  phoneNumber: string,
+  purpose: string,
+  code: string
+): string => {
+  return createHmac('sha256', secret)
+    .update(`${tenantScope(tenantId)}:${purpose}:${canonicalPhone(phoneNumber)}:${code}`)
+    .digest('hex');
+};
+
+const generateCode = (length: number): string => {
+  return randomInt(0, 10 ** length).toString().padStart(length, '0');
+};
+
+/**
+ * Generate an OTP, store only its hash and queue it for delivery by SMS
+ * Issuing a new code replaces any previous one; wrong-guess counts carry over so resending
+ * does not reset the lockout budget. Codes belong to `params.tenantId` and can only be
+ * verified for that tenant.
+ * @param params - Recipient, optional purpose, and the tenant and caller the code is sent for
+ * @returns Delivery details, or why no code was sent (cooldown or lockout)
+ */
+export const sendOTP = async (params: SendOTPParams): Promise<SendOTPResult> => {
+  const config = getOTPConfig();
+  const redis = getRedisClient();
+  const purpose = params.purpose || DEFAULT_PURPOSE;
+  const keys = getKeys(params.tenantId, params.recipient.phoneNumber, purpose);
+
+  const lockTtl = await redis.ttl(keys.lock);
+  if (lockTtl > 0) {
+    return { status: 'locked', retryAfterSeconds: lockTtl };
+  }
+
+  if (config.resendCooldownSeconds > 0) {
+    const acquired = await redis.set(keys.cooldown, '1', 'EX', config.resendCooldownSeconds, 'NX');
+    if (!acquired) {
+      return { status: 'cooldown', retryAfterSeconds: Math.max(await redis.ttl(keys.cooldown), 1) };
+    }
+  }
+
+  const code = generateCode(config.codeLength);
+  const previousAttempts = Number.parseInt((await redis.hget(keys.code, 'attempts')) || '0', 10);
+
+  await redis
+    .multi()
+    .del(keys.code)
+    .hset(keys.code, {
+      hash: hashCode(config.hashSecret, params.tenantId, params.recipient.phoneNumber, purpose, code),
+      attempts: previousAttempts,
+    })
+    .expire(keys.code, config.ttlSeconds)
+    .exec();
+
+  try {
+    const job = await createOTPSMSJob({
+      recipient: params.recipient,
+      code,
+      expiryMinutes: Math.ceil(config.ttlSeconds / 60),
+      tenantId: params.tenantId,
+      createdBy: params.createdBy,
+    });
+
+    const now = Date.now();
+    return {
+      status: 'sent',
+      jobId: job.jobId,
+      queueName: job.queueName,
+      expiresAt: now + config.ttlSeconds * 1000,
+      resendAvailableAt: now + config.resendCooldownSeconds * 1000,
+    };
+  } catch (error) {
+    // Nothing was sent, so do not leave a code or cooldown behind
+    await redis.del(keys.code, keys.cooldown);
+    throw error;
+  }
+};
+
+/**
+ * Verify an OTP; a correct code is consumed so it can only be used once
+ * @param params - Tenant, phone number, submitted code and optional purpose
+ * @returns Verification outcome with remaining attempts or lockout time
+ */
+export const verifyOTP = async (params: VerifyOTPParams): Promise<VerifyOTPResult> => {
+  const config = getOTPConfig();
+  const redis = getRedisClient();
+  const purpose = params.purpose || DEFAULT_PURPOSE;
+  const keys = getKeys(params.tenantId, params.phoneNumber, purpose);
+
+  const [status, value] = (await redis.eval(
+    VERIFY_SCRIPT,
+    2,
+    keys.code,
+    keys.lock,
+    hashCode(config.hashSecret, params.tenantId, params.phoneNumber, purpose, params.code.trim()),
+    config.maxAttempts,
+    config.lockoutSeconds
+  )) as [string, number];
+
+  switch (status) {
+    case 'valid':
+      return { status: 'valid' };
+    case 'invalid':
+      return { status: 'invalid', attemptsRemaining: value };
+    case 'locked':
+      return { status: 'locked', retryAfterSeconds: value };
+    default:
+      return { status: 'not_found' };
+  }
+};
@@ -0,0 +1,7 @@
+export { configureMessageStore, recordMessageTransition, recordQueuedMessage } from './recorder';
+export type {
+  NotificationMessageStore,
+  NotificationMessageEntry,
+  NotificationMessageStatus,
+  NotificationChannel,
+} from './interface';
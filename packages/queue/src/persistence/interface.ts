@@ -0,0 +1,55 @@
+import type { SMSEncoding } from '../segments/segments';
+
+/**
+ * Lifecycle states recorded for every outbound message
+ * `queued` is written when the job is created, if a store is configured with `configureMessageStore`.
+ * `skipped` marks messages withheld because the recipient opted out.
+ * `delivered`, `expired` and `rejected` (and a late `failed`) come from provider delivery reports.
+ */
+export type NotificationMessageStatus =
+  | 'queued'
+  | 'processing'
+  | 'retrying'
+  | 'sent'
+  | 'failed'
+  | 'skipped'
+  | 'delivered'
+  | 'expired'
+  | 'rejected';
+
+export type NotificationChannel = 'sms' | 'email';
+
+/**
+ * Snapshot of a message at one lifecycle transition
+ * Fields that are unknown at a given transition are left undefined and must not overwrite stored values.
+ */
+export interface NotificationMessageEntry {
+  jobId: string;
+  queueName: string;
+  channel: NotificationChannel;
+  type: string;
+  batchId?: string;
+  recipient: string;
+  subject?: string;
+  message?: string;
+  segments?: number; // SMS only: parts the message is split into (billed per segment)
+  encoding?: SMSEncoding; // SMS only
+  provider?: string;
+  providerMessageId?: string;
+  status: NotificationMessageStatus;
+  attempts: number;
+  error?: string;
+  metadata?: Record<string, unknown>;
+  queuedAt: Date;
+  occurredAt: Date;
+}
+
+/**
+ * Durable store for outbound message history
+ * Implemented by the application (e.g. a Postgres table) and passed to the worker creators.
+ * Transitions can arrive out of order (e.g. a delivery report before the worker records `sent`),
+ * so implementations must not move a message back to an earlier status.
+ */
+export interface NotificationMessageStore {
+  record(entry: NotificationMessageEntry): Promise<void>;
+}
@@ -0,0 +1,56 @@
+import type { NotificationMessageEntry, NotificationMessageStore } from './interface';
+import { logger } from '../logging/logger';
+import type { EmailJobData, SMSJobData } from '../types';
+
+let enqueueStore: NotificationMessageStore | undefined;
+
+/**
+ * Store the job creators write the initial `queued` row to
+ * Call once at startup in processes that create jobs; workers take their store as an option.
+ */
+export const configureMessageStore = (store: NotificationMessageStore | undefined): void => {
+  enqueueStore = store;
+};
+
+/**
+ * Record a lifecycle transition without letting storage errors fail the job
+ * A message that was handed to the provider must not be re-sent because its log write failed.
+ * @param store - Configured message store, if any
+ * @param entry - Transition to record
+ */
+export const recordMessageTransition = async (
+  store: NotificationMessageStore | undefined,
+  entry: NotificationMessageEntry
+): Promise<void> => {
+  if (!store) {
+    return;
+  }
+
+  try {
+    await store.record(entry);
+  } catch (error) {
+    logger.error('Failed to record message transition', { jobId: entry.jobId, status: entry.status, err: error });
+  }
+};
+
+/**
+ * Record that a job was created, before any worker picks it up
+ * @param queueName - Queue the job was added to
+ * @param data - Data of the created job
+ */
+export const recordQueuedMessage = (queueName: string, data: SMSJobData | EmailJobData): Promise<void> => {
+  const queuedAt = new Date(data.timestamp);
+  return recordMessageTransition(enqueueStore, {
+    jobId: data.id,
+    queueName,
+    channel: 'phoneNumber' in data.recipient ? 'sms' : 'email',
+    type: data.type,
+    batchId: data.batchId,
+    recipient: 'phoneNumber' in data.recipient ? data.recipient.phoneNumber : data.recipient.email,
+    metadata: data.type === 'notification' ? data.metadata : undefined,
+    status: 'queued',
+    attempts: 0,
+    queuedAt,
+    occurredAt: queuedAt,
+  });
+};
@@ -0,0 +1,8 @@
+export {
+  parsePhoneNumber,
+  toE164,
+  createSMSRecipient,
+  getPhoneConfig,
+  InvalidPhoneNumberError,
+} from './phone';
+export type { PhoneConfig, PhoneParseResult, PhoneNumberErrorCode } from './phone';
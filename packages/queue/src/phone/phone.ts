@@ -0,0 +1,147 @@
+import {
+  ParseError,
+  isSupportedCountry,
+  parsePhoneNumberWithError,
+  validatePhoneNumberLength,
+  type CountryCode,
+} from 'libphonenumber-js';
+import type { SMSRecipient } from '../types';
+
+export type PhoneNumberErrorCode =
+  | 'NOT_A_NUMBER'
+  | 'INVALID_COUNTRY'
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'INVALID_NUMBER'
+  | 'UNSUPPORTED_REGION';
+
+export interface PhoneConfig {
+  defaultRegion: CountryCode; // Region assumed for numbers without a country code
+  supportedRegions: CountryCode[] | null; // Regions we can deliver to; null allows any region
+}
+
+export type PhoneParseResult =
+  | { valid: true; e164: string; region?: CountryCode }
+  | { valid: false; code: PhoneNumberErrorCode; message: string };
+
+const ERROR_MESSAGES: Record<Exclude<PhoneNumberErrorCode, 'UNSUPPORTED_REGION'>, string> = {
+  NOT_A_NUMBER: 'Phone number is not a number',
+  INVALID_COUNTRY: 'Phone number has no valid country code',
+  TOO_SHORT: 'Phone number is too short',
+  TOO_LONG: 'Phone number is too long',
+  INVALID_NUMBER: 'Phone number is not valid for its region',
+};
+
+/**
+ * Thrown when a phone number cannot be parsed into a deliverable E.164 number
+ */
+export class InvalidPhoneNumberError extends Error {
+  readonly code: PhoneNumberErrorCode;
+  readonly input: string;
+
+  constructor(input: string, code: PhoneNumberErrorCode, message: string) {
+    super(`${message}: ${input}`);
+    this.name = 'InvalidPhoneNumberError';
+    this.code = code;
+    this.input = input;
+  }
+}
+
+const toRegion = (value: string, variable: string): CountryCode => {
+  const region = value.trim().toUpperCase();
+  if (!isSupportedCountry(region)) {
+    throw new Error(`Invalid ${variable}: ${value}. Must be an ISO 3166-1 alpha-2 region code.`);
+  }
+  return region;
+};
+
+/**
+ * Get phone number settings from environment variables
+ * SMS_DEFAULT_REGION (default KE) and SMS_SUPPORTED_REGIONS (comma separated, empty allows all)
+ * @throws Error if a region code is not recognized
+ */
+export const getPhoneConfig = (): PhoneConfig => {
+  const supported = (process.env.SMS_SUPPORTED_REGIONS || '')
+    .split(',')
+    .filter((region) => region.trim() !== '')
+    .map((region) => toRegion(region, 'SMS_SUPPORTED_REGIONS'));
+
+  return {
+    defaultRegion: toRegion(process.env.SMS_DEFAULT_REGION || 'KE', 'SMS_DEFAULT_REGION'),
+    supportedRegions: supported.length > 0 ? supported : null,
+  };
+};
+
+/**
+ * Parse and validate a phone number
+ * Accepts international (+254712345678, 254712345678) and national (0712345678) formats.
+ * @param input - Phone number as entered
+ * @param config - Overrides for the environment phone configuration
+ * @returns The E.164 number and region, or a precise validation error
+ */
+export const parsePhoneNumber = (input: string, config?: Partial<PhoneConfig>): PhoneParseResult => {
+  const { defaultRegion, supportedRegions } = { ...getPhoneConfig(), ...config };
+
+  // Numbers like 254712345678 carry a country code but no leading +
+  const trimmed = input.trim();
+  const candidates = /^\d{11,15}$/.test(trimmed) && !trimmed.startsWith('0')
+    ? [`+${trimmed}`, trimmed]
+    : [trimmed];
+
+  let failure: PhoneParseResult = { valid: false, code: 'NOT_A_NUMBER', message: ERROR_MESSAGES.NOT_A_NUMBER };
+
+  for (const candidate of candidates) {
+    try {
+      const phone = parsePhoneNumberWithError(candidate, defaultRegion);
+
+      if (!phone.isValid()) {
+        const lengthError = validatePhoneNumberLength(candidate, defaultRegion);
+        const code = lengthError === 'TOO_SHORT' || lengthError === 'TOO_LONG' ? lengthError : 'INVALID_NUMBER';
+        failure = { valid: false, code, message: ERROR_MESSAGES[code] };
+        continue;
+      }
+
+      if (supportedRegions && (!phone.country || !supportedRegions.includes(phone.country))) {
+        return {
+          valid: false,
+          code: 'UNSUPPORTED_REGION',
+          message: `Phone numbers in ${phone.country ?? 'this region'} are not supported (supported: ${supportedRegions.join(', ')})`,
+        };
+      }
+
+      return { valid: true, e164: phone.number, region: phone.country };
+    } catch (error) {
+      if (error instanceof ParseError && error.message in ERROR_MESSAGES) {
+        const code = error.message as keyof typeof ERROR_MESSAGES;
+        failure = { valid: false, code, message: ERROR_MESSAGES[code] };
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return failure;
+};
+
+/**
+ * Format a phone number as E.164 (+254712345678)
+ * @throws InvalidPhoneNumberError if the number is invalid or in an unsupported region
+ */
+export const toE164 = (input: string, config?: Partial<PhoneConfig>): string => {
+  const result = parsePhoneNumber(input, config);
+  if (!result.valid) {
+    throw new InvalidPhoneNumberError(input, result.code, result.message);
+  }
+  return result.e164;
+};
+
+/**
+ * Build an SMS recipient with its phone number normalized to E.164
+ * @throws InvalidPhoneNumberError if the number is invalid or in an unsupported region
+ */
+export const createSMSRecipient = (recipient: SMSRecipient): SMSRecipient => {
+  return {
+    ...recipient,
+    phoneNumber: toE164(recipient.phoneNumber),
+  };
+};
@@ -0,0 +1,20 @@
+import type { EmailProvider } from './interface';
+import { SMTPEmailProvider } from './smtp.provider';
+import { MockEmailProvider } from './mock.provider';
+
+/**
+ * Create the email provider named by EMAIL_PROVIDER (smtp, mock; default mock)
+ * @throws Error for an unknown provider name, so a typo fails at startup instead of silently using mock
+ */
+export const createEmailProvider = (): EmailProvider => {
+  const provider = process.env.EMAIL_PROVIDER || 'mock';
+
+  switch (provider.toLowerCase()) {
+    case 'smtp':
+      return new SMTPEmailProvider();
+    case 'mock':
+      return new MockEmailProvider();
+    default:
+      throw new Error(`Unknown email provider: ${provider}`);
+  }
+};
@@ -0,0 +1,2 @@
+export { createEmailProvider } from './factory';
+export type { EmailProvider, EmailResult, EmailMessage } from './interface';
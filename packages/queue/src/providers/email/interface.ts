@@ -0,0 +1,18 @@
+export interface EmailResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  provider: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  send(message: EmailMessage): Promise<EmailResult>;
+  getName(): string;
+}
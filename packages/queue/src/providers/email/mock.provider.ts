@@ -0,0 +1,26 @@
+import type { EmailMessage, EmailProvider, EmailResult } from './interface';
+import { logger } from '../../logging/logger';
+
+export class MockEmailProvider implements EmailProvider {
+  getName(): string {
+    return 'mock';
+  }
+
+  async send(message: EmailMessage): Promise<EmailResult> {
+    logger.info('Mock email sent', {
+      provider: this.getName(),
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    return {
+      success: true,
+      messageId: `mock-email-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      provider: this.getName(),
+    };
+  }
+}
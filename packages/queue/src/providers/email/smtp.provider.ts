@@ -0,0 +1,86 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailMessage, EmailProvider, EmailResult } from './interface';
+
+interface SMTPConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+}
+
+export class SMTPEmailProvider implements EmailProvider {
+    private config: SMTPConfig;
+    private transporter: Transporter;
+
+    constructor(config?: Partial<SMTPConfig>) {
+        const port = config?.port ?? Number.parseInt(process.env.SMTP_PORT || '587', 10);
+
+        this.config = {
+            host: config?.host || process.env.SMTP_HOST || '',
+            port,
+            // Port 465 uses implicit TLS; other ports upgrade via STARTTLS
+            secure: config?.secure ?? (process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465),
+            user: config?.user || process.env.SMTP_USER,
+            password: config?.password || process.env.SMTP_PASSWORD,
+            from: config?.from || process.env.EMAIL_FROM || '',
+        };
+
+        if (!this.config.host || !this.config.from) {
+            throw new Error('SMTP email provider requires host and from address');
+        }
+
+        if (Number.isNaN(this.config.port) || this.config.port < 1 || this.config.port > 65535) {
+            throw new Error(`Invalid SMTP_PORT: ${process.env.SMTP_PORT}. Must be between 1 and 65535.`);
+        }
+
+        this.transporter = nodemailer.createTransport({
+            host: this.config.host,
+            port: this.config.port,
+            secure: this.config.secure,
+            auth: this.config.user
+                ? { user: this.config.user, pass: this.config.password }
+                : undefined,
+        });
+    }
+
+    getName(): string {
+        return 'smtp';
+    }
+
+    async send(message: EmailMessage): Promise<EmailResult> {
+        try {
+            const info = await this.transporter.sendMail({
+                from: this.config.from,
+                to: message.to,
+                subject: message.subject,
+                html: message.html,
+                text: message.text,
+            });
+
+            // SMTP servers may accept the message but still reject the recipient
+            const rejected = info.rejected ?? [];
+
+            if (rejected.length > 0) {
+                return {
+                    success: false,
+                    error: `Recipient rejected: ${rejected.join(', ')}`,
+                    provider: this.getName(),
+                };
+            }
+
+            return {
+                success: true,
+                messageId: info.messageId,
+                provider: this.getName(),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                provider: this.getName(),
+            };
+        }
+    }
+}
@@ -0,0 +1,71 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldownMs: number; // Time the circuit stays open before a half-open probe is allowed
+}
+
+export const defaultCircuitBreakerOptions: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+/**
+ * Per-provider circuit breaker
+ *
+ * closed    - requests flow normally; consecutive failures are counted
+ * open      - requests are rejected until the cooldown has elapsed
+ * half-open - a single probe request is let through; success closes the circuit, failure reopens it
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private options: CircuitBreakerOptions;
+
+  constructor(options?: Partial<CircuitBreakerOptions>) {
+    this.options = { ...defaultCircuitBreakerOptions, ...options };
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Check whether a request may be attempted, reserving the probe slot when half-open
+   */
+  tryAcquire(): boolean {
+    switch (this.getState()) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (this.probeInFlight) {
+          return false;
+        }
+        this.probeInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.probeInFlight = false;
+  }
+}
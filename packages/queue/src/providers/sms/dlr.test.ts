@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { parseDeliveryReports, supportsDeliveryReports } from './dlr';
+
+// Callback bodies in the shapes Salum posts them: the send API's `responses` envelope,
+// a bare report, and form fields
+const SALUM_JSON_ENVELOPE = {
+    responses: [
+        {
+            'response-code': 200,
+            'response-description': 'Delivered to terminal',
+            mobile: '255712345678',
+            messageid: 70234561,
+            networkid: '1',
+            deliveryStatus: 'DeliveredToTerminal',
+            deliveryTime: '2026-10-18T09:15:42Z',
+        },
+        {
+            'response-code': 200,
+            'response-description': 'Absent subscriber',
+            mobile: '255765432109',
+            messageid: 70234562,
+            networkid: '2',
+            deliveryStatus: 'AbsentSubscriber',
+            deliveryTime: '2026-10-18T09:16:03Z',
+        },
+        {
+            'response-code': 200,
+            'response-description': 'Message buffered',
+            mobile: '255754000111',
+            messageid: 70234563,
+            networkid: '1',
+            deliveryStatus: 'Buffered',
+        },
+    ],
+};
+
+const SALUM_JSON_SINGLE = {
+    messageid: '70234564',
+    status: 'UNDELIV',
+    msisdn: '255712000222',
+    doneDate: 'not a date',
+};
+
+const SALUM_FORM_FIELDS = Object.fromEntries(
+    new URLSearchParams(
+        'message_id=70234565&dlrStatus=EXPIRED&phone=255713333444&description=Validity+period+expired'
+    )
+);
+
+describe('parseDeliveryReports for salum', () => {
+    test('parses every final report in a responses envelope and skips intermediate states', () => {
+        const reports = parseDeliveryReports('salum', SALUM_JSON_ENVELOPE);
+
+        expect(reports).toEqual([
+            {
+                provider: 'salum',
+                messageId: '70234561',
+                status: 'delivered',
+                rawStatus: 'DeliveredToTerminal',
+                phoneNumber: '255712345678',
+                description: 'Delivered to terminal',
+                reportedAt: new Date('2026-10-18T09:15:42Z'),
+            },
+            {
+                provider: 'salum',
+                messageId: '70234562',
+                status: 'failed',
+                rawStatus: 'AbsentSubscriber',
+                phoneNumber: '255765432109',
+                description: 'Absent subscriber',
+                reportedAt: new Date('2026-10-18T09:16:03Z'),
+            },
+        ]);
+    });
+
+    test('parses a single report and drops an unreadable timestamp', () => {
+        expect(parseDeliveryReports('salum', SALUM_JSON_SINGLE)).toEqual([
+            {
+                provider: 'salum',
+                messageId: '70234564',
+                status: 'failed',
+                rawStatus: 'UNDELIV',
+                phoneNumber: '255712000222',
+                description: undefined,
+                reportedAt: undefined,
+            },
+        ]);
+    });
+
+    test('parses form field callbacks', () => {
+        expect(parseDeliveryReports('SALUM', SALUM_FORM_FIELDS)).toEqual([
+            {
+                provider: 'salum',
+                messageId: '70234565',
+                status: 'expired',
+                rawStatus: 'EXPIRED',
+                phoneNumber: '255713333444',
+                description: 'Validity period expired',
+                reportedAt: undefined,
+            },
+        ]);
+    });
+
+    test('ignores bodies without a message id or status', () => {
+        expect(parseDeliveryReports('salum', { messageid: '1' })).toEqual([]);
+        expect(parseDeliveryReports('salum', { status: 'DELIVRD' })).toEqual([]);
+        expect(parseDeliveryReports('salum', 'DELIVRD')).toEqual([]);
+        expect(parseDeliveryReports('salum', null)).toEqual([]);
+    });
+});
+
+describe('supportsDeliveryReports', () => {
+    const nodeEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+        process.env.NODE_ENV = nodeEnv;
+    });
+
+    test('knows salum and mock outside production', () => {
+        process.env.NODE_ENV = 'development';
+        expect(supportsDeliveryReports('salum')).toBe(true);
+        expect(supportsDeliveryReports('mock')).toBe(true);
+        expect(supportsDeliveryReports('unknown')).toBe(false);
+        expect(supportsDeliveryReports('constructor')).toBe(false);
+    });
+
+    test('turns the mock parser off in production', () => {
+        process.env.NODE_ENV = 'production';
+        expect(supportsDeliveryReports('salum')).toBe(true);
+        expect(supportsDeliveryReports('mock')).toBe(false);
+        expect(() => parseDeliveryReports('mock', { messageId: 'mock-1', status: 'delivered' })).toThrow();
+    });
+});
@@ -0,0 +1,52 @@
+import type { DeliveryReport, DeliveryReportParser } from './interface';
+import { parseSalumDeliveryReport } from './salum.dlr';
+import { parseMockDeliveryReport } from './mock.dlr';
+
+/**
+ * Delivery receipt parsers keyed by provider name (as returned by `SMSProvider.getName()`)
+ */
+const deliveryReportParsers: Record<string, DeliveryReportParser> = {
+  salum: parseSalumDeliveryReport,
+  mock: parseMockDeliveryReport,
+};
+
+/**
+ * Parsers for providers that only exist for local testing
+ * They are turned off in production, where anyone could otherwise post receipts in their format.
+ */
+const TEST_ONLY_PARSERS = new Set(['mock']);
+
+const getDeliveryReportParser = (provider: string): DeliveryReportParser | undefined => {
+  const name = provider.toLowerCase();
+  if (!Object.hasOwn(deliveryReportParsers, name)) {
+    return undefined;
+  }
+  if (TEST_ONLY_PARSERS.has(name) && process.env.NODE_ENV === 'production') {
+    return undefined;
+  }
+  return deliveryReportParsers[name];
+};
+
+/**
+ * Check whether a provider has a delivery receipt parser
+ * The mock parser is not available when NODE_ENV is production.
+ * @param provider - Provider name
+ */
+export const supportsDeliveryReports = (provider: string): boolean => {
+  return getDeliveryReportParser(provider) !== undefined;
+};
+
+/**
+ * Parse a delivery receipt callback body for the given provider
+ * @param provider - Provider name
+ * @param payload - Parsed callback body (JSON or form fields)
+ * @returns Normalized final delivery reports
+ * @throws Error if the provider has no delivery receipt parser
+ */
+export const parseDeliveryReports = (provider: string, payload: unknown): DeliveryReport[] => {
+  const parser = getDeliveryReportParser(provider);
+  if (!parser) {
+    throw new Error(`No delivery report parser for SMS provider: ${provider}`);
+  }
+  return parser(payload);
+};
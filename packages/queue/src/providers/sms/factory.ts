@@ -1,17 +1,143 @@
 import type { SMSProvider } from './interface';
 import { SalumSMSProvider } from './salum.provider';
 import { MockSMSProvider } from './mock.provider';
+import { FailoverSMSProvider } from './failover.provider';
+import type { CircuitBreakerOptions } from './circuit-breaker';
 
-export const createSMSProvider = (): SMSProvider => {
-  const provider = process.env.SMS_PROVIDER || 'mock';
+/**
+ * Account a provider sends from instead of the environment's, e.g. a tenant's own
+ */
+export interface SMSProviderAccount {
+  provider: string; // Provider name, e.g. 'salum'
+  senderId: string; // Sender ID or shortcode shown to recipients
+  credentials: Record<string, string>;
+}
 
-  switch (provider.toLowerCase()) {
+export interface SMSProviderConfig {
+  providers?: string[]; // Provider names in failover order
+  accounts?: SMSProviderAccount[]; // Accounts in failover order; replaces `providers` and the environment credentials
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+/**
+ * Credential fields each provider needs when given an explicit account
+ */
+export const SMS_PROVIDER_CREDENTIALS: Record<string, readonly string[]> = {
+  salum: ['apiKey', 'partnerId'],
+  mock: [],
+};
+
+/**
+ * Check that an account names a known provider and holds a sender ID and every credential it needs
+ * @throws Error naming the unknown provider or what the account is missing
+ */
+const assertAccountComplete = (name: string, account: Omit<SMSProviderAccount, 'provider'>): void => {
+  const required = SMS_PROVIDER_CREDENTIALS[name];
+  if (!required) {
+    throw new Error(`Unknown SMS provider: ${name}`);
+  }
+
+  if (!account.senderId) {
+    throw new Error(`SMS provider ${name} is missing a sender ID`);
+  }
+
+  const missing = required.filter((field) => !account.credentials[field]);
+  if (missing.length > 0) {
+    throw new Error(`SMS provider ${name} is missing credentials: ${missing.join(', ')}`);
+  }
+};
+
+/**
+ * Create a single SMS provider by name
+ * Without an account the provider reads its credentials from the environment. With one, it sends
+ * only from that account: missing credentials throw instead of falling back.
+ * @throws Error if the provider is unknown, so a typo in SMS_PROVIDER cannot silently send nothing
+ */
+export const createSMSProviderByName = (
+  name: string,
+  account?: Omit<SMSProviderAccount, 'provider'>
+): SMSProvider => {
+  const normalized = name.toLowerCase();
+  if (account) {
+    assertAccountComplete(normalized, account);
+  }
+
+  switch (normalized) {
     case 'salum':
-      return new SalumSMSProvider();
+      return new SalumSMSProvider(
+        account && {
+          apiKey: account.credentials.apiKey,
+          partnerId: account.credentials.partnerId,
+          shortcode: account.senderId,
+        }
+      );
     case 'mock':
       return new MockSMSProvider();
     default:
-      console.warn(`Unknown SMS provider: ${provider}, falling back to mock`);
-      return new MockSMSProvider();
+      throw new Error(`Unknown SMS provider: ${name}`);
+  }
+};
+
+/**
+ * Read the ordered provider list from SMS_PROVIDERS (comma separated), falling back to SMS_PROVIDER
+ */
+const getProviderNamesFromEnv = (): string[] => {
+  const names = (process.env.SMS_PROVIDERS || process.env.SMS_PROVIDER || 'mock')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.length > 0 ? names : ['mock'];
+};
+
+/**
+ * Read circuit breaker settings from SMS_CIRCUIT_FAILURE_THRESHOLD and SMS_CIRCUIT_COOLDOWN_MS
+ */
+const getCircuitBreakerOptionsFromEnv = (): Partial<CircuitBreakerOptions> => {
+  const options: Partial<CircuitBreakerOptions> = {};
+
+  if (process.env.SMS_CIRCUIT_FAILURE_THRESHOLD) {
+    const threshold = Number.parseInt(process.env.SMS_CIRCUIT_FAILURE_THRESHOLD, 10);
+    if (Number.isNaN(threshold) || threshold < 1) {
+      throw new Error(`Invalid SMS_CIRCUIT_FAILURE_THRESHOLD: ${process.env.SMS_CIRCUIT_FAILURE_THRESHOLD}. Must be a positive integer.`);
+    }
+    options.failureThreshold = threshold;
+  }
+
+  if (process.env.SMS_CIRCUIT_COOLDOWN_MS) {
+    const cooldown = Number.parseInt(process.env.SMS_CIRCUIT_COOLDOWN_MS, 10);
+    if (Number.isNaN(cooldown) || cooldown < 0) {
+      throw new Error(`Invalid SMS_CIRCUIT_COOLDOWN_MS: ${process.env.SMS_CIRCUIT_COOLDOWN_MS}. Must be a non-negative integer.`);
+    }
+    options.cooldownMs = cooldown;
   }
+
+  return options;
+};
+
+/**
+ * Create the SMS provider used by the worker
+ * A single configured provider is returned as-is; several are wrapped in a FailoverSMSProvider
+ * that tries them in order with a circuit breaker per provider.
+ * @param config - Explicit provider order or accounts and breaker settings; defaults to environment variables
+ * @throws Error if a provider is unknown or an account lacks credentials
+ */
+export const createSMSProvider = (config?: SMSProviderConfig): SMSProvider => {
+  if (config?.accounts?.length) {
+    const providers = config.accounts.map((account) => createSMSProviderByName(account.provider, account));
+    return providers.length === 1
+      ? providers[0]
+      : new FailoverSMSProvider(providers, config.circuitBreaker ?? getCircuitBreakerOptionsFromEnv());
+  }
+
+  const names = config?.providers?.length ? config.providers : getProviderNamesFromEnv();
+
+  if (names.length === 1) {
+    return createSMSProviderByName(names[0]);
+  }
+
+  return new FailoverSMSProvider(
+    names.map((name) => createSMSProviderByName(name)),
+    config?.circuitBreaker ?? getCircuitBreakerOptionsFromEnv()
+  );
 };
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import type { SMSProvider, SMSResult } from './interface';
+import { FailoverSMSProvider } from './failover.provider';
+import { createSMSProviderByName } from './factory';
+
+/**
+ * Provider that answers each send with the next queued result
+ */
+const scriptedProvider = (name: string, results: Array<Omit<SMSResult, 'provider'>>): SMSProvider & { calls: number } => ({
+    calls: 0,
+    getName: () => name,
+    async send() {
+        const result = results[Math.min(this.calls, results.length - 1)];
+        this.calls += 1;
+        return { ...result, provider: name };
+    },
+});
+
+describe('FailoverSMSProvider', () => {
+    test('opens the circuit after consecutive provider failures', async () => {
+        const primary = scriptedProvider('primary', [{ success: false, error: 'HTTP error! status: 503' }]);
+        const backup = scriptedProvider('backup', [{ success: true, messageId: 'b-1' }]);
+        const failover = new FailoverSMSProvider([primary, backup], { failureThreshold: 2, cooldownMs: 60_000 });
+
+        for (let i = 0; i < 3; i++) {
+            expect((await failover.send('+254712345678', 'Hello')).provider).toBe('backup');
+        }
+
+        expect(primary.calls).toBe(2);
+        expect(failover.getCircuitStates()[0]).toEqual({ provider: 'primary', state: 'open' });
+    });
+
+    test('does not count recipient errors against the circuit or fail over on them', async () => {
+        const primary = scriptedProvider('primary', [{ success: false, error: 'Invalid mobile number', recipientError: true }]);
+        const backup = scriptedProvider('backup', [{ success: true, messageId: 'b-1' }]);
+        const failover = new FailoverSMSProvider([primary, backup], { failureThreshold: 2, cooldownMs: 60_000 });
+
+        for (let i = 0; i < 3; i++) {
+            const result = await failover.send('+254700000000', 'Hello');
+            expect(result).toEqual({ success: false, error: 'Invalid mobile number', recipientError: true, provider: 'primary' });
+        }
+
+        expect(primary.calls).toBe(3);
+        expect(backup.calls).toBe(0);
+        expect(failover.getCircuitStates()[0]).toEqual({ provider: 'primary', state: 'closed' });
+    });
+});
+
+describe('createSMSProviderByName', () => {
+    test('throws for an unknown provider instead of falling back to mock', () => {
+        expect(() => createSMSProviderByName('salmu')).toThrow('Unknown SMS provider: salmu');
+        expect(createSMSProviderByName('mock').getName()).toBe('mock');
+    });
+});
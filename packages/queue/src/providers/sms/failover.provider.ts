@@ -0,0 +1,83 @@
+import type { SMSProvider, SMSResult } from './interface';
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './circuit-breaker';
+
+interface ProviderSlot {
+    provider: SMSProvider;
+    breaker: CircuitBreaker;
+}
+
+/**
+ * Composite SMS provider that tries an ordered list of providers
+ *
+ * Each provider has its own circuit breaker, so a provider that keeps failing is skipped
+ * until its cooldown expires. The returned `SMSResult.provider` names the provider that
+ * actually accepted the message.
+ * A recipient error (e.g. an invalid number) is returned as is: the provider answered, so it
+ * counts as healthy, and the next provider would reject the recipient too.
+ */
+export class FailoverSMSProvider implements SMSProvider {
+    private slots: ProviderSlot[];
+
+    constructor(providers: SMSProvider[], breakerOptions?: Partial<CircuitBreakerOptions>) {
+        if (providers.length === 0) {
+            throw new Error('Failover SMS provider requires at least one provider');
+        }
+
+        this.slots = providers.map((provider) => ({
+            provider,
+            breaker: new CircuitBreaker(breakerOptions),
+        }));
+    }
+
+    getName(): string {
+        return 'failover';
+    }
+
+    /**
+     * Current circuit state of each provider, in failover order
+     */
+    getCircuitStates(): Array<{ provider: string; state: CircuitState }> {
+        return this.slots.map(({ provider, breaker }) => ({
+            provider: provider.getName(),
+            state: breaker.getState(),
+        }));
+    }
+
+    async send(phoneNumber: string, message: string): Promise<SMSResult> {
+        const errors: string[] = [];
+        let lastResult: SMSResult | undefined;
+
+        for (const { provider, breaker } of this.slots) {
+            if (!breaker.tryAcquire()) {
+                errors.push(`${provider.getName()}: circuit open`);
+                continue;
+            }
+
+            let result: SMSResult;
+            try {
+                result = await provider.send(phoneNumber, message);
+            } catch (error) {
+                result = {
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    provider: provider.getName(),
+                };
+            }
+
+            if (result.success || result.recipientError) {
+                breaker.recordSuccess();
+                return result;
+            }
+
+            breaker.recordFailure();
+            errors.push(`${result.provider}: ${result.error}`);
+            lastResult = result;
+        }
+
+        return {
+            success: false,
+            error: `All SMS providers failed (${errors.join('; ')})`,
+            provider: lastResult?.provider ?? this.getName(),
+        };
+    }
+}
@@ -1,2 +1,17 @@
-export { createSMSProvider } from './factory';
-export type { SMSProvider, SMSResult } from './interface';
+export {
+  createSMSProvider,
+  createSMSProviderByName,
+  SMS_PROVIDER_CREDENTIALS,
+} from './factory';
+export type { SMSProviderConfig, SMSProviderAccount } from './factory';
+export { FailoverSMSProvider } from './failover.provider';
+export { CircuitBreaker } from './circuit-breaker';
+export type { CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+export { parseDeliveryReports, supportsDeliveryReports } from './dlr';
+export type {
+  SMSProvider,
+  SMSResult,
+  DeliveryStatus,
+  DeliveryReport,
+  DeliveryReportParser,
+} from './interface';
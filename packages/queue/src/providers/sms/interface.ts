@@ -2,6 +2,7 @@ export interface SMSResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  recipientError?: boolean; // The provider rejected this recipient (e.g. an invalid number); retrying or failing over will not help
   provider: string;
 }
 
@@ -9,3 +10,24 @@ export interface SMSProvider {
   send(phoneNumber: string, message: string): Promise<SMSResult>;
   getName(): string;
 }
+
+/**
+ * Normalized final delivery states reported by SMS providers
+ */
+export type DeliveryStatus = 'delivered' | 'failed' | 'expired' | 'rejected';
+
+export interface DeliveryReport {
+  provider: string;
+  messageId: string;
+  status: DeliveryStatus;
+  rawStatus: string;
+  phoneNumber?: string;
+  description?: string;
+  reportedAt?: Date;
+}
+
+/**
+ * Turns a provider's delivery receipt callback body into normalized reports
+ * Intermediate states (e.g. "sent to network") are skipped, so the result may be empty.
+ */
+export type DeliveryReportParser = (payload: unknown) => DeliveryReport[];
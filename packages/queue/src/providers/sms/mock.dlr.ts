@@ -0,0 +1,26 @@
+import type { DeliveryReport, DeliveryReportParser, DeliveryStatus } from './interface';
+
+const MOCK_STATUSES: readonly DeliveryStatus[] = ['delivered', 'failed', 'expired', 'rejected'];
+
+/**
+ * Parse a mock delivery receipt: `{ messageId, status }` with an already-normalized status
+ * Useful for exercising the webhook locally against messages sent by the mock provider.
+ */
+export const parseMockDeliveryReport: DeliveryReportParser = (payload) => {
+  const records = Array.isArray(payload) ? payload : [payload];
+
+  return records.flatMap((record): DeliveryReport[] => {
+    const { messageId, status } = (record ?? {}) as { messageId?: unknown; status?: unknown };
+
+    if (typeof messageId !== 'string' || !MOCK_STATUSES.includes(status as DeliveryStatus)) {
+      return [];
+    }
+
+    return [{
+      provider: 'mock',
+      messageId,
+      status: status as DeliveryStatus,
+      rawStatus: status as string,
+    }];
+  });
+};
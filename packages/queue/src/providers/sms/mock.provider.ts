@@ -1,4 +1,6 @@
 import type { SMSProvider, SMSResult } from './interface';
+import { parsePhoneNumber } from '../../phone/phone';
+import { logger } from '../../logging/logger';
 
 export class MockSMSProvider implements SMSProvider {
   getName(): string {
@@ -6,8 +8,17 @@ export class MockSMSProvider implements SMSProvider {
   }
 
   async send(phoneNumber: string, message: string): Promise<SMSResult> {
-    console.log(`[MOCK SMS] Sending to ${phoneNumber}:`);
-    console.log(`[MOCK SMS] Message: ${message}`);
+    const phone = parsePhoneNumber(phoneNumber);
+    if (!phone.valid) {
+      return {
+        success: false,
+        error: phone.message,
+        recipientError: true,
+        provider: this.getName(),
+      };
+    }
+
+    logger.info('Mock SMS sent', { provider: this.getName(), to: phone.e164, message });
     
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 100));
@@ -0,0 +1,91 @@
+import type { DeliveryReport, DeliveryReportParser, DeliveryStatus } from './interface';
+
+/**
+ * Salum delivery states mapped to normalized statuses
+ * Keys are lower-cased with spaces, dashes and underscores removed.
+ */
+const SALUM_STATUS_MAP: Record<string, DeliveryStatus> = {
+    delivered: 'delivered',
+    deliveredtoterminal: 'delivered',
+    delivrd: 'delivered',
+    success: 'delivered',
+    expired: 'expired',
+    expird: 'expired',
+    rejected: 'rejected',
+    rejectd: 'rejected',
+    blacklisted: 'rejected',
+    sendernameblacklisted: 'rejected',
+    invalidnumber: 'rejected',
+    failed: 'failed',
+    undeliv: 'failed',
+    undelivered: 'failed',
+    deliveryimpossible: 'failed',
+    absentsubscriber: 'failed',
+    insufficientcredit: 'failed',
+};
+
+const normalizeStatusKey = (status: string): string => {
+    return status.toLowerCase().replace(/[\s\-_]/g, '');
+};
+
+const readString = (record: Record<string, unknown>, ...keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = record[key];
+        if (typeof value === 'string' && value.trim() !== '') {
+            return value.trim();
+        }
+        if (typeof value === 'number') {
+            return value.toString();
+        }
+    }
+    return undefined;
+};
+
+const parseSalumReport = (record: Record<string, unknown>): DeliveryReport | null => {
+    const messageId = readString(record, 'messageid', 'messageId', 'message_id', 'msgId');
+    const rawStatus = readString(record, 'deliveryStatus', 'status', 'delivery-status', 'dlrStatus');
+    if (!messageId || !rawStatus) {
+        return null;
+    }
+
+    const status = SALUM_STATUS_MAP[normalizeStatusKey(rawStatus)];
+    if (!status) {
+        // Pending, buffered and other intermediate states are not final
+        return null;
+    }
+
+    const timestamp = readString(record, 'deliveryTime', 'timestamp', 'doneDate');
+    const reportedAt = timestamp ? new Date(timestamp) : undefined;
+
+    return {
+        provider: 'salum',
+        messageId,
+        status,
+        rawStatus,
+        phoneNumber: readString(record, 'mobile', 'msisdn', 'phone'),
+        description: readString(record, 'description', 'deliveryDescription', 'response-description'),
+        reportedAt: reportedAt && !Number.isNaN(reportedAt.getTime()) ? reportedAt : undefined,
+    };
+};
+
+/**
+ * Parse a Salum delivery receipt callback
+ * Accepts a single report, an array of reports or a `{ responses: [...] }` envelope,
+ * sent either as JSON or form fields.
+ */
+export const parseSalumDeliveryReport: DeliveryReportParser = (payload) => {
+    if (!payload || typeof payload !== 'object') {
+        return [];
+    }
+
+    const records = Array.isArray(payload)
+        ? payload
+        : Array.isArray((payload as { responses?: unknown }).responses)
+            ? (payload as { responses: unknown[] }).responses
+            : [payload];
+
+    return records
+        .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object')
+        .map(parseSalumReport)
+        .filter((report): report is DeliveryReport => report !== null);
+};
@@ -1,4 +1,5 @@
 import type { SMSProvider, SMSResult } from './interface';
+import { InvalidPhoneNumberError, toE164 } from '../../phone/phone';
 
 interface SalumConfig {
     apiKey: string;
@@ -17,6 +18,12 @@ interface SalumResponse {
     }>;
 }
 
+/**
+ * Salum response codes that reject the recipient rather than the request: 1002 (network not
+ * allowed) and 1003 (invalid mobile number)
+ */
+const RECIPIENT_ERROR_CODES = new Set([1002, 1003]);
+
 export class SalumSMSProvider implements SMSProvider {
     private config: SalumConfig;
 
@@ -39,8 +46,8 @@ export class SalumSMSProvider implements SMSProvider {
 
     async send(phoneNumber: string, message: string): Promise<SMSResult> {
         try {
-            // Normalize phone number to 254 format
-            const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+            // Salum expects the E.164 digits without the leading + (254XXXXXXXXX)
+            const normalizedPhone = toE164(phoneNumber).substring(1);
 
             const requestBody = {
                 apikey: this.config.apiKey,
@@ -86,6 +93,7 @@ export class SalumSMSProvider implements SMSProvider {
                 return {
                     success: false,
                     error: result['response-description'] || 'Unknown error',
+                    recipientError: RECIPIENT_ERROR_CODES.has(result['respose-code']),
                     provider: this.getName(),
                 };
             }
@@ -93,34 +101,9 @@ export class SalumSMSProvider implements SMSProvider {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
+                recipientError: error instanceof InvalidPhoneNumberError,
                 provider: this.getName(),
             };
         }
     }
-
-    /**
-     * Normalize phone number to Kenyan format (254XXXXXXXXX)
-     * Handles: 0712345678, +254712345678, 254712345678, 712345678
-     */
-    private normalizePhoneNumber(phone: string): string {
-        // Remove any spaces, dashes, or parentheses
-        let cleaned = phone.replace(/[\s\-\(\)]/g, '');
-
-        // Remove leading + if present
-        if (cleaned.startsWith('+')) {
-            cleaned = cleaned.substring(1);
-        }
-
-        // If starts with 0, replace with 254
-        if (cleaned.startsWith('0')) {
-            cleaned = '254' + cleaned.substring(1);
-        }
-
-        // If doesn't start with 254 and is 9 digits, add 254
-        if (!cleaned.startsWith('254') && cleaned.length === 9) {
-            cleaned = '254' + cleaned;
-        }
-
-        return cleaned;
-    }
 }
@@ -0,0 +1,273 @@
+import type { Job, JobState, JobType, Queue } from 'bullmq';
+import { smsQueue } from './sms.queue';
+import { emailQueue } from './email.queue';
+import { releaseQueuedSMSQuota } from './job-status';
+
+/**
+ * Queues exposed to the admin API, keyed by queue name
+ */
+const adminQueues: Record<string, Queue> = {
+  [smsQueue.name]: smsQueue,
+  [emailQueue.name]: emailQueue,
+};
+
+/**
+ * States shown in the admin views; `waiting` includes prioritized jobs
+ */
+export const ADMIN_JOB_STATES = ['waiting', 'active', 'delayed', 'completed', 'failed'] as const;
+
+export type AdminJobState = (typeof ADMIN_JOB_STATES)[number];
+
+/**
+ * BullMQ keeps prioritized jobs in their own set; admins see them as waiting
+ */
+const STATE_TYPES: Record<AdminJobState, JobType[]> = {
+  waiting: ['waiting', 'prioritized'],
+  active: ['active'],
+  delayed: ['delayed'],
+  completed: ['completed'],
+  failed: ['failed'],
+};
+
+/**
+ * Number of jobs fetched per Redis round trip while filtering by type
+ */
+const SCAN_PAGE_SIZE = 500;
+
+export interface QueueOverview {
+  name: string;
+  paused: boolean;
+  counts: Record<AdminJobState, number>;
+}
+
+export interface QueueJobSummary {
+  id: string;
+  name: string;
+  type: string;
+  recipient?: string;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason?: string;
+  createdAt: number;
+  processedAt?: number;
+  finishedAt?: number;
+  delayUntil?: number;
+}
+
+export interface QueueJobDetail extends QueueJobSummary {
+  queueName: string;
+  state: JobState | 'unknown';
+  data: Record<string, unknown>;
+  options: Record<string, unknown>;
+  returnValue: unknown;
+  stacktrace: string[];
+  logs: string[];
+}
+
+export type QueueJobActionResult =
+  | { status: 'done'; jobId: string }
+  | { status: 'not_found'; jobId: string }
+  | { status: 'invalid_state'; jobId: string; state: JobState | 'unknown' };
+
+/**
+ * Look up an admin-visible queue by name
+ * @returns The queue, or undefined for names the admin API does not expose
+ */
+export const getAdminQueue = (queueName: string): Queue | undefined => adminQueues[queueName];
+
+/**
+ * Job payload safe to show to admins, with OTP codes masked
+ */
+const toVisibleData = (job: Job): Record<string, unknown> => {
+  const data = job.data as Record<string, unknown>;
+  if (data.type === 'otp' && typeof data.code === 'string') {
+    return { ...data, code: '*'.repeat(data.code.length) };
+  }
+  return data;
+};
+
+const toSummary = (job: Job): QueueJobSummary => {
+  const recipient = job.data?.recipient as { phoneNumber?: string; email?: string } | undefined;
+
+  return {
+    id: job.id ?? '',
+    name: job.name,
+    type: job.data?.type,
+    recipient: recipient?.phoneNumber ?? recipient?.email,
+    attemptsMade: job.attemptsMade,
+    maxAttempts: job.opts.attempts ?? 1,
+    failedReason: job.failedReason || undefined,
+    createdAt: job.timestamp,
+    processedAt: job.processedOn,
+    finishedAt: job.finishedOn,
+    delayUntil: job.opts.delay ? job.timestamp + job.opts.delay : undefined,
+  };
+};
+
+/**
+ * Job counts per state and pause status for every admin queue
+ */
+export const getQueueOverviews = async (): Promise<QueueOverview[]> => {
+  return Promise.all(
+    Object.values(adminQueues).map(async (queue) => {
+      const [counts, paused] = await Promise.all([
+        queue.getJobCounts('waiting', 'prioritized', 'active', 'delayed', 'completed', 'failed'),
+        queue.isPaused(),
+      ]);
+
+      return {
+        name: queue.name,
+        paused,
+        counts: {
+          waiting: (counts.waiting ?? 0) + (counts.prioritized ?? 0),
+          active: counts.active ?? 0,
+          delayed: counts.delayed ?? 0,
+          completed: counts.completed ?? 0,
+          failed: counts.failed ?? 0,
+        },
+      };
+    })
+  );
+};
+
+/**
+ * List jobs in one state, newest first
+ * Without a type filter pages are read straight from Redis; with one, the state is scanned.
+ * @param queue - Admin queue (see `getAdminQueue`)
+ * @param state - Job state to list
+ * @param options - Optional job type filter and pagination
+ */
+export const listQueueJobs = async (
+  queue: Queue,
+  state: AdminJobState,
+  options: { type?: string; offset?: number; limit?: number } = {}
+): Promise<{ items: QueueJobSummary[]; total: number }> => {
+  const { type, offset = 0, limit = 50 } = options;
+  const types = STATE_TYPES[state];
+
+  if (!type) {
+    const [jobs, total] = await Promise.all([
+      queue.getJobs(types, offset, offset + limit - 1, false),
+      queue.getJobCountByTypes(...types),
+    ]);
+    return { items: jobs.filter(Boolean).map(toSummary), total };
+  }
+
+  // Only the requested page is kept; every other match is just counted
+  const items: QueueJobSummary[] = [];
+  let total = 0;
+  for (let start = 0; ; start += SCAN_PAGE_SIZE) {
+    const page = await queue.getJobs(types, start, start + SCAN_PAGE_SIZE - 1, false);
+    for (const job of page) {
+      if (job?.data?.type !== type) {
+        continue;
+      }
+      if (total >= offset && items.length < limit) {
+        items.push(toSummary(job));
+      }
+      total++;
+    }
+
+    if (page.length < SCAN_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { items, total };
+};
+
+/**
+ * Full view of a job: payload, options, result, attempts, stack traces and logs
+ * @returns The job detail, or null if the queue does not hold this job
+ */
+export const getQueueJobDetail = async (
+  queue: Queue,
+  jobId: string
+): Promise<QueueJobDetail | null> => {
+  const job = await queue.getJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const [state, { logs }] = await Promise.all([job.getState(), queue.getJobLogs(jobId)]);
+
+  return {
+    ...toSummary(job),
+    queueName: queue.name,
+    state,
+    data: toVisibleData(job),
+    options: { ...job.opts },
+    returnValue: job.returnvalue,
+    stacktrace: job.stacktrace ?? [],
+    logs,
+  };
+};
+
+/**
+ * Run an action on a job if it is in one of the allowed states
+ * BullMQ rejects actions on jobs that changed state in the meantime; that is reported as invalid_state.
+ */
+const runJobAction = async (
+  queue: Queue,
+  jobId: string,
+  allowedStates: ReadonlyArray<JobState | 'unknown'>,
+  action: (job: Job, state: JobState | 'unknown') => Promise<void>
+): Promise<QueueJobActionResult> => {
+  const job = await queue.getJob(jobId);
+  if (!job) {
+    return { status: 'not_found', jobId };
+  }
+
+  const state = await job.getState();
+  if (!allowedStates.includes(state)) {
+    return { status: 'invalid_state', jobId, state };
+  }
+
+  try {
+    await action(job, state);
+  } catch {
+    return { status: 'invalid_state', jobId, state: await job.getState() };
+  }
+
+  return { status: 'done', jobId };
+};
+
+/**
+ * Move a failed or completed job back to waiting for another run
+ */
+export const retryQueueJob = (queue: Queue, jobId: string): Promise<QueueJobActionResult> =>
+  runJobAction(queue, jobId, ['failed', 'completed'], (job, state) =>
+    job.retry(state as 'failed' | 'completed')
+  );
+
+/**
+ * Delete a job that is not being processed
+ * Removing an SMS that was never sent gives back the tenant quota reserved for it, as cancelling does.
+ */
+export const removeQueueJob = (queue: Queue, jobId: string): Promise<QueueJobActionResult> =>
+  runJobAction(queue, jobId, ['waiting', 'prioritized', 'delayed', 'completed', 'failed'], async (job, state) => {
+    await job.remove();
+    if (state === 'waiting' || state === 'prioritized' || state === 'delayed') {
+      await releaseQueuedSMSQuota(job);
+    }
+  });
+
+/**
+ * Run a delayed job now instead of at its scheduled time
+ */
+export const promoteQueueJob = (queue: Queue, jobId: string): Promise<QueueJobActionResult> =>
+  runJobAction(queue, jobId, ['delayed'], (job) => job.promote());
+
+/**
+ * Stop workers from picking up new jobs; active jobs finish normally
+ */
+export const pauseQueue = async (queue: Queue): Promise<void> => {
+  await queue.pause();
+};
+
+/**
+ * Let workers pick up jobs again after a pause
+ */
+export const resumeQueue = async (queue: Queue): Promise<void> => {
+  await queue.resume();
+};
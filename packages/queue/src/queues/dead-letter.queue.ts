@@ -0,0 +1,24 @@
+import { Queue } from 'bullmq';
+import { getRedisConnection } from '../config/redis';
+import type { DeadLetterJobData } from '../types';
+
+/**
+ * Dead-letter queue name constant
+ */
+export const DEAD_LETTER_QUEUE_NAME = 'notifications-dead-letter';
+
+/**
+ * Dead-letter queue holding notification jobs that exhausted their attempts
+ * No worker consumes it, so entries stay waiting until they are retried or purged.
+ */
+export const deadLetterQueue = new Queue<DeadLetterJobData>(DEAD_LETTER_QUEUE_NAME, {
+  connection: getRedisConnection(),
+});
+
+/**
+ * Gracefully close the dead-letter queue connection
+ * Should be called during application shutdown
+ */
+export const closeDeadLetterQueue = async (): Promise<void> => {
+  await deadLetterQueue.close();
+};
@@ -0,0 +1,271 @@
+import type { Job, Queue } from 'bullmq';
+import { deadLetterQueue } from './dead-letter.queue';
+import { smsQueue } from './sms.queue';
+import { emailQueue } from './email.queue';
+import type { DeadLetterJobData, JobCaller } from '../types';
+import { recordJobsEnqueued } from '../metrics/metrics';
+import { recordQueuedMessage } from '../persistence/recorder';
+import { getRequestId, logger } from '../logging/logger';
+import { injectTraceContext } from '../tracing/tracing';
+
+/**
+ * Queues a dead-lettered job can be replayed into, keyed by queue name
+ */
+const replayQueues: Record<string, Queue> = {
+  [smsQueue.name]: smsQueue,
+  [emailQueue.name]: emailQueue,
+};
+
+/**
+ * Number of dead-letter entries fetched per Redis round trip while scanning
+ */
+const SCAN_PAGE_SIZE = 500;
+
+export interface DeadLetterEntry extends DeadLetterJobData {
+  id: string; // Dead-letter entry id, distinct from the original job id
+}
+
+export interface DeadLetterFilter {
+  queueName?: string;
+  type?: string;
+  failedAfter?: number;
+  failedBefore?: number;
+}
+
+export type RetryDeadLetterJobResult =
+  | { status: 'retried'; id: string; jobId: string; queueName: string }
+  | { status: 'not_found'; id: string }
+  | { status: 'unknown_queue'; id: string; queueName: string };
+
+export interface RetryDeadLetterJobsResult {
+  retried: Array<{ id: string; jobId: string; queueName: string }>;
+  failed: Array<{ id: string; error: string }>;
+}
+
+const toEntry = (job: Job<DeadLetterJobData>): DeadLetterEntry => ({
+  id: job.id ?? '',
+  ...job.data,
+});
+
+const matchesFilter = (data: DeadLetterJobData, filter: DeadLetterFilter): boolean => {
+  return (
+    (filter.queueName === undefined || data.originalQueue === filter.queueName) &&
+    (filter.type === undefined || data.payload.type === filter.type) &&
+    (filter.failedAfter === undefined || data.failedAt >= filter.failedAfter) &&
+    (filter.failedBefore === undefined || data.failedAt < filter.failedBefore)
+  );
+};
+
+const isEmptyFilter = (filter: DeadLetterFilter): boolean =>
+  Object.values(filter).every((value) => value === undefined);
+
+/**
+ * Visit every dead-letter job matching a filter, newest first, holding one page at a time
+ * @param visit - Called per matching job; returns true if it removed the job, so the next
+ *   page starts at the right offset
+ */
+const forEachDeadLetterJob = async (
+  filter: DeadLetterFilter,
+  visit: (job: Job<DeadLetterJobData>) => Promise<boolean>
+): Promise<void> => {
+  for (let start = 0; ; ) {
+    const page = await deadLetterQueue.getJobs(['waiting'], start, start + SCAN_PAGE_SIZE - 1, false);
+    let removed = 0;
+
+    for (const job of page) {
+      if (job && matchesFilter(job.data, filter) && (await visit(job))) {
+        removed += 1;
+      }
+    }
+
+    if (page.length < SCAN_PAGE_SIZE) {
+      return;
+    }
+    start += page.length - removed;
+  }
+};
+
+/**
+ * Copy a job that exhausted its attempts into the dead-letter queue
+ * Called by the workers on the final failed attempt. The original job stays in its queue's
+ * failed set (for status lookups) until its retention expires; the dead-letter copy is kept
+ * until it is retried or purged. Errors are logged and never fail the job.
+ * @param job - The job that failed for the last time
+ * @param error - Error thrown by the final attempt
+ */
+export const moveToDeadLetter = async (
+  job: Job<DeadLetterJobData['payload']>,
+  error: unknown
+): Promise<void> => {
+  const current = error instanceof Error ? error.stack ?? error.message : String(error);
+
+  try {
+    await deadLetterQueue.add(
+      job.name,
+      {
+        originalJobId: job.id ?? job.data.id,
+        originalQueue: job.queueName,
+        originalName: job.name,
+        payload: job.data,
+        priority: job.opts.priority,
+        attemptsMade: job.attemptsMade + 1,
+        failedReason: error instanceof Error ? error.message : String(error),
+        errorHistory: [...(job.stacktrace ?? []), current],
+        createdAt: job.timestamp,
+        failedAt: Date.now(),
+      },
+      {
+        // One entry per original job, even if the final attempt is reported twice
+        jobId: `${job.queueName}.${job.id ?? job.data.id}`,
+      }
+    );
+  } catch (deadLetterError) {
+    logger.error('Failed to dead-letter job', { jobId: job.id, queue: job.queueName, err: deadLetterError });
+  }
+};
+
+/**
+ * List dead-lettered jobs, newest first
+ * @param filter - Optional original queue, job type and failure time range
+ * @param offset - Entries to skip
+ * @param limit - Maximum entries to return
+ */
+export const listDeadLetterJobs = async (
+  filter: DeadLetterFilter = {},
+  offset = 0,
+  limit = 50
+): Promise<{ items: DeadLetterEntry[]; total: number }> => {
+  if (isEmptyFilter(filter)) {
+    const [jobs, total] = await Promise.all([
+      deadLetterQueue.getJobs(['waiting'], offset, offset + limit - 1, false),
+      deadLetterQueue.getJobCountByTypes('waiting'),
+    ]);
+    return { items: jobs.filter(Boolean).map(toEntry), total };
+  }
+
+  const items: DeadLetterEntry[] = [];
+  let total = 0;
+  await forEachDeadLetterJob(filter, async (job) => {
+    if (total >= offset && items.length < limit) {
+      items.push(toEntry(job));
+    }
+    total += 1;
+    return false;
+  });
+
+  return { items, total };
+};
+
+/**
+ * Get a dead-lettered job with its payload and error history
+ * @returns The entry, or null if no entry has this id
+ */
+export const getDeadLetterJob = async (id: string): Promise<DeadLetterEntry | null> => {
+  const job = await deadLetterQueue.getJob(id);
+  return job ? toEntry(job) : null;
+};
+
+const replay = async (
+  job: Job<DeadLetterJobData>,
+  replayedBy: JobCaller | undefined
+): Promise<RetryDeadLetterJobResult> => {
+  const id = job.id ?? '';
+  const queue = replayQueues[job.data.originalQueue];
+  if (!queue) {
+    return { status: 'unknown_queue', id, queueName: job.data.originalQueue };
+  }
+
+  const jobId = crypto.randomUUID();
+  const payload = job.data.payload;
+
+  // Replays of replays still point at the job that first failed
+  const replayed = await queue.add(
+    job.data.originalName,
+    {
+      ...payload,
+      id: jobId,
+      timestamp: Date.now(),
+      requestId: getRequestId(),
+      createdBy: replayedBy,
+      traceContext: injectTraceContext(),
+      replayOf: payload.replayOf ?? job.data.originalJobId,
+    },
+    { jobId, priority: job.data.priority }
+  );
+  recordJobsEnqueued(queue.name, payload.type);
+  await recordQueuedMessage(queue.name, replayed.data);
+  await job.remove();
+
+  return { status: 'retried', id, jobId, queueName: queue.name };
+};
+
+/**
+ * Re-queue a dead-lettered job as a new job in its original queue
+ * The new job gets a fresh id and `replayOf` set to the original job id; the entry is removed.
+ * It keeps the original tenant and is attributed to `replayedBy`.
+ */
+export const retryDeadLetterJob = async (
+  id: string,
+  replayedBy?: JobCaller
+): Promise<RetryDeadLetterJobResult> => {
+  const job = await deadLetterQueue.getJob(id);
+  if (!job) {
+    return { status: 'not_found', id };
+  }
+  return replay(job, replayedBy);
+};
+
+/**
+ * Re-queue every dead-lettered job matching a filter (all entries when the filter is empty)
+ */
+export const retryDeadLetterJobs = async (
+  filter: DeadLetterFilter = {},
+  replayedBy?: JobCaller
+): Promise<RetryDeadLetterJobsResult> => {
+  const result: RetryDeadLetterJobsResult = { retried: [], failed: [] };
+
+  await forEachDeadLetterJob(filter, async (job) => {
+    try {
+      const outcome = await replay(job, replayedBy);
+      if (outcome.status === 'retried') {
+        result.retried.push({ id: outcome.id, jobId: outcome.jobId, queueName: outcome.queueName });
+        return true;
+      }
+      if (outcome.status === 'unknown_queue') {
+        result.failed.push({ id: outcome.id, error: `Unknown queue ${outcome.queueName}` });
+      }
+    } catch (error) {
+      result.failed.push({ id: job.id ?? '', error: error instanceof Error ? error.message : String(error) });
+    }
+    return false;
+  });
+
+  return result;
+};
+
+/**
+ * Delete a dead-lettered job without replaying it
+ * @returns True if the entry existed
+ */
+export const removeDeadLetterJob = async (id: string): Promise<boolean> => {
+  const job = await deadLetterQueue.getJob(id);
+  if (!job) {
+    return false;
+  }
+  await job.remove();
+  return true;
+};
+
+/**
+ * Delete every dead-lettered job matching a filter (all entries when the filter is empty)
+ * @returns Number of entries removed
+ */
+export const purgeDeadLetterJobs = async (filter: DeadLetterFilter = {}): Promise<number> => {
+  let removed = 0;
+  await forEachDeadLetterJob(filter, async (job) => {
+    await job.remove();
+    removed += 1;
+    return true;
+  });
+  return removed;
+};
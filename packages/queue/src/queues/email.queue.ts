@@ -0,0 +1,25 @@
+import { Queue } from 'bullmq';
+import { getRedisConnection } from '../config/redis';
+import { defaultQueueOptions } from '../config/queue-options';
+import type { EmailJobData } from '../types';
+
+/**
+ * Email Queue name constant
+ */
+export const EMAIL_QUEUE_NAME = 'email-notifications';
+
+/**
+ * Email Queue instance for managing email notification jobs
+ */
+export const emailQueue = new Queue<EmailJobData>(EMAIL_QUEUE_NAME, {
+  connection: getRedisConnection(),
+  ...defaultQueueOptions,
+});
+
+/**
+ * Gracefully close the email queue connection
+ * Should be called during application shutdown
+ */
+export const closeEmailQueue = async (): Promise<void> => {
+  await emailQueue.close();
+};
@@ -4,3 +4,41 @@
  */
 
 export { smsQueue, closeSMSQueue, SMS_QUEUE_NAME } from './sms.queue';
+export { emailQueue, closeEmailQueue, EMAIL_QUEUE_NAME } from './email.queue';
+export { getNotificationJobStatus, cancelNotificationJob } from './job-status';
+export type { NotificationJobStatus, NotificationJobFilter, CancelNotificationJobResult } from './job-status';
+export { deadLetterQueue, closeDeadLetterQueue, DEAD_LETTER_QUEUE_NAME } from './dead-letter.queue';
+export {
+  moveToDeadLetter,
+  listDeadLetterJobs,
+  getDeadLetterJob,
+  retryDeadLetterJob,
+  retryDeadLetterJobs,
+  removeDeadLetterJob,
+  purgeDeadLetterJobs,
+} from './dead-letter';
+export type {
+  DeadLetterEntry,
+  DeadLetterFilter,
+  RetryDeadLetterJobResult,
+  RetryDeadLetterJobsResult,
+} from './dead-letter';
+export {
+  ADMIN_JOB_STATES,
+  getAdminQueue,
+  getQueueOverviews,
+  listQueueJobs,
+  getQueueJobDetail,
+  retryQueueJob,
+  removeQueueJob,
+  promoteQueueJob,
+  pauseQueue,
+  resumeQueue,
+} from './admin';
+export type {
+  AdminJobState,
+  QueueOverview,
+  QueueJobSummary,
+  QueueJobDetail,
+  QueueJobActionResult,
+} from './admin';
@@ -0,0 +1,165 @@
+import type { Job, JobState, Queue } from 'bullmq';
+import { smsQueue } from './sms.queue';
+import { emailQueue } from './email.queue';
+import type { NotificationJobResult } from '../types';
+import { releaseSMSQuota } from '../tenants/quota';
+import { logger } from '../logging/logger';
+
+/**
+ * Queues searched when looking up a job by id, in lookup order
+ */
+const notificationQueues: Queue[] = [smsQueue, emailQueue];
+
+/**
+ * States in which a job has not been picked up by a worker and can still be cancelled
+ */
+const CANCELLABLE_STATES: ReadonlyArray<JobState | 'unknown'> = [
+  'waiting',
+  'delayed',
+  'prioritized',
+  'waiting-children',
+];
+
+/**
+ * Snapshot of a notification job's lifecycle
+ */
+export interface NotificationJobStatus {
+  jobId: string;
+  queueName: string;
+  name: string;
+  type: string;
+  state: JobState | 'unknown';
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason?: string;
+  provider?: string;
+  messageId?: string;
+  segments?: number;
+  skipped?: boolean;
+  skipReason?: string;
+  replayOf?: string; // Original job id when this job replays a dead-lettered one
+  createdAt: number;
+  processedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * Limits which jobs a lookup may return
+ */
+export interface NotificationJobFilter {
+  tenantId?: string; // Only jobs of this tenant; others are reported as not found. Omit to match every job
+}
+
+export type CancelNotificationJobResult =
+  | { status: 'cancelled'; jobId: string; queueName: string }
+  | { status: 'not_cancellable'; jobId: string; queueName: string; state: JobState | 'unknown' }
+  | { status: 'not_found'; jobId: string };
+
+/**
+ * Find a job by id across all notification queues
+ * @param jobId - BullMQ job id returned by a job creator
+ * @param filter - Tenant the job must belong to
+ * @returns The job, or undefined if no queue holds it (never queued or already removed) or it belongs to another tenant
+ */
+const findNotificationJob = async (
+  jobId: string,
+  filter: NotificationJobFilter = {}
+): Promise<Job | undefined> => {
+  for (const queue of notificationQueues) {
+    const job = await queue.getJob(jobId);
+    if (job) {
+      return filter.tenantId === undefined || job.data.tenantId === filter.tenantId ? job : undefined;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Look up the current state of a notification job
+ * @param jobId - BullMQ job id returned by a job creator
+ * @param filter - Tenant the job must belong to
+ * @returns Job status, or null if the job does not exist or belongs to another tenant
+ */
+export const getNotificationJobStatus = async (
+  jobId: string,
+  filter?: NotificationJobFilter
+): Promise<NotificationJobStatus | null> => {
+  const job = await findNotificationJob(jobId, filter);
+  if (!job) {
+    return null;
+  }
+
+  const state = await job.getState();
+  const result = job.returnvalue as NotificationJobResult | null | undefined;
+
+  return {
+    jobId,
+    queueName: job.queueName,
+    name: job.name,
+    type: job.data.type,
+    state,
+    attemptsMade: job.attemptsMade,
+    maxAttempts: job.opts.attempts ?? 1,
+    failedReason: job.failedReason || undefined,
+    provider: result?.provider,
+    messageId: result?.messageId,
+    segments: result?.segments,
+    skipped: result?.skipped,
+    skipReason: result?.skipReason,
+    replayOf: job.data.replayOf,
+    createdAt: job.timestamp,
+    processedAt: job.processedOn,
+    finishedAt: job.finishedOn,
+  };
+};
+
+/**
+ * Give back the tenant quota reserved for an SMS job removed before it was sent
+ * Routes reserve quota when they queue an SMS; schedule runs and dead-letter replays reserve none.
+ * Failures are logged rather than thrown, since the job is already gone.
+ */
+export const releaseQueuedSMSQuota = async (job: Job): Promise<void> => {
+  const tenantId: string | undefined = job.data.tenantId;
+  if (job.queueName !== smsQueue.name || !tenantId || job.repeatJobKey || job.data.replayOf) {
+    return;
+  }
+
+  await releaseSMSQuota(tenantId, 1).catch((error) => {
+    logger.warn('Failed to release SMS quota for removed job', { jobId: job.id, tenantId, err: error });
+  });
+};
+
+/**
+ * Cancel a notification job that has not started processing yet
+ * Only waiting, prioritized and delayed jobs can be cancelled; active or finished jobs are left untouched.
+ * A cancelled SMS gives back the tenant quota reserved when it was queued.
+ * @param jobId - BullMQ job id returned by a job creator
+ * @param filter - Tenant the job must belong to
+ * @returns Outcome of the cancellation attempt
+ */
+export const cancelNotificationJob = async (
+  jobId: string,
+  filter?: NotificationJobFilter
+): Promise<CancelNotificationJobResult> => {
+  const job = await findNotificationJob(jobId, filter);
+  if (!job) {
+    return { status: 'not_found', jobId };
+  }
+
+  const state = await job.getState();
+  if (!CANCELLABLE_STATES.includes(state)) {
+    return { status: 'not_cancellable', jobId, queueName: job.queueName, state };
+  }
+
+  // remove() fails if a worker grabbed the job in the meantime (it is then locked)
+  try {
+    await job.remove();
+  } catch {
+    return { status: 'not_cancellable', jobId, queueName: job.queueName, state: await job.getState() };
+  }
+
+  await releaseQueuedSMSQuota(job);
+
+  return { status: 'cancelled', jobId, queueName: job.queueName };
+};
@@ -0,0 +1,44 @@
+export type SegmentPolicyAction = 'reject' | 'transliterate';
+
+/**
+ * Message length and pricing settings
+ */
+export interface SegmentConfig {
+  maxSegments: number; // Longest message accepted for enqueuing
+  policy: SegmentPolicyAction; // What to do with messages above maxSegments
+  costPerSegment: number; // Provider price per segment, used for estimates
+  currency: string;
+}
+
+const readNumber = (name: string, fallback: number, min: number, integer: boolean): number => {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value) || value < min || (integer && !Number.isInteger(value))) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be ${integer ? 'an integer' : 'a number'} >= ${min}.`);
+  }
+  return value;
+};
+
+/**
+ * Get segment policy and pricing configuration from environment variables
+ * SMS_MAX_SEGMENTS (default 3), SMS_SEGMENT_POLICY ('reject' | 'transliterate', default 'reject'),
+ * SMS_COST_PER_SEGMENT (default 0) and SMS_COST_CURRENCY (default KES)
+ * @throws Error if a setting is invalid
+ */
+export const getSegmentConfig = (): SegmentConfig => {
+  const policy = process.env.SMS_SEGMENT_POLICY || 'reject';
+  if (policy !== 'reject' && policy !== 'transliterate') {
+    throw new Error(`Invalid SMS_SEGMENT_POLICY: ${policy}. Must be 'reject' or 'transliterate'.`);
+  }
+
+  return {
+    maxSegments: readNumber('SMS_MAX_SEGMENTS', 3, 1, true),
+    policy,
+    costPerSegment: readNumber('SMS_COST_PER_SEGMENT', 0, 0, false),
+    currency: process.env.SMS_COST_CURRENCY || 'KES',
+  };
+};
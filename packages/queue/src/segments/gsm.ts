@@ -0,0 +1,108 @@
+/**
+ * GSM 03.38 basic character set; each character costs one septet
+ * The escape character (0x1B) is omitted because it only prefixes extension characters.
+ */
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+/**
+ * GSM 03.38 extension table; each character costs two septets (escape + character)
+ */
+const GSM_EXTENSION_CHARACTERS = new Set('\f^{}\\[~]|€');
+
+/**
+ * Septets a character costs in GSM-7, or null if GSM-7 cannot encode it
+ */
+export const gsmSeptets = (character: string): number | null => {
+  if (GSM_BASIC_CHARACTERS.has(character)) {
+    return 1;
+  }
+  if (GSM_EXTENSION_CHARACTERS.has(character)) {
+    return 2;
+  }
+  return null;
+};
+
+/**
+ * Lookalike replacements for common characters outside GSM-7
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '‛': "'",
+  '′': "'",
+  '‹': "'",
+  '›': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '‟': '"',
+  '″': '"',
+  '«': '"',
+  '»': '"',
+  '‐': '-',
+  '‑': '-',
+  '‒': '-',
+  '–': '-',
+  '—': '-',
+  '―': '-',
+  '−': '-',
+  '…': '...',
+  '•': '*',
+  '·': '.',
+  '\u00A0': ' ', // Non-breaking and typographic spaces
+  '\u2002': ' ',
+  '\u2003': ' ',
+  '\u2009': ' ',
+  '\u202F': ' ',
+  '\t': ' ',
+  '©': '(c)',
+  '®': '(R)',
+  '™': 'TM',
+  '×': 'x',
+  '÷': '/',
+};
+
+// Emoji, with their joiners, variation selectors and skin tone modifiers, have no GSM-7 equivalent
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u200D|\uFE0E|\uFE0F)$/u;
+
+const COMBINING_MARK_PATTERN = /^\p{Mark}$/u;
+
+/**
+ * Rewrite a message so it fits the GSM-7 alphabet
+ * Typographic punctuation becomes its ASCII lookalike, accents outside GSM-7 are stripped,
+ * emoji are dropped and anything else unrepresentable becomes '?'.
+ * @param message - Message text
+ * @returns Text containing only GSM-7 characters
+ */
+export const transliterateToGSM = (message: string): string => {
+  let result = '';
+
+  // NFC folds 'e' + combining acute into the GSM-7 'é'
+  for (const character of message.normalize('NFC')) {
+    if (gsmSeptets(character) !== null) {
+      result += character;
+      continue;
+    }
+
+    const replacement = TRANSLITERATIONS[character];
+    if (replacement !== undefined) {
+      result += replacement;
+      continue;
+    }
+
+    if (EMOJI_PATTERN.test(character) || COMBINING_MARK_PATTERN.test(character)) {
+      continue;
+    }
+
+    // e.g. 'ā' decomposes to 'a' + combining macron
+    const base = character.normalize('NFD').replace(/\p{Mark}/gu, '');
+    const representable = base !== '' && [...base].every((part) => gsmSeptets(part) !== null);
+    result += representable ? base : '?';
+  }
+
+  return result;
+};
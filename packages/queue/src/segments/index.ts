@@ -0,0 +1,5 @@
+export { analyzeSMS, estimateSMSCost, applySegmentPolicy } from './segments';
+export type { SMSEncoding, SMSSegmentInfo, SMSCostEstimate, SegmentPolicyResult } from './segments';
+export { transliterateToGSM } from './gsm';
+export { getSegmentConfig } from './config';
+export type { SegmentConfig, SegmentPolicyAction } from './config';
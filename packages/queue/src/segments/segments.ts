@@ -0,0 +1,145 @@
+import { getSegmentConfig, type SegmentConfig } from './config';
+import { gsmSeptets, transliterateToGSM } from './gsm';
+
+export type SMSEncoding = 'GSM-7' | 'UCS-2';
+
+/**
+ * Units per segment for each encoding
+ * Multipart messages lose room to the concatenation header (UDH) in every segment.
+ */
+const SEGMENT_LIMITS: Record<SMSEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 }, // septets
+  'UCS-2': { single: 70, multipart: 67 }, // UTF-16 code units
+};
+
+export interface SMSSegmentInfo {
+  encoding: SMSEncoding;
+  segments: number;
+  characters: number; // Unicode code points
+  units: number; // Septets for GSM-7, UTF-16 code units for UCS-2
+  unitsPerSegment: number;
+  remaining: number; // Units still free in the last segment
+  nonGSMCharacters: string[]; // Distinct characters that force UCS-2
+}
+
+export interface SMSCostEstimate {
+  segments: number; // Per message
+  recipients: number;
+  costPerSegment: number;
+  total: number;
+  currency: string;
+}
+
+export type SegmentPolicyResult =
+  | { status: 'accepted'; message: string; info: SMSSegmentInfo }
+  | { status: 'transliterated'; message: string; info: SMSSegmentInfo; originalInfo: SMSSegmentInfo }
+  | { status: 'rejected'; message: string; info: SMSSegmentInfo; reason: string };
+
+/**
+ * Compute the encoding, segment count and character counts of a rendered message
+ * Segments are packed the way handsets split them: a GSM-7 escape sequence or a UTF-16
+ * surrogate pair is never split across two segments.
+ * @param message - Message exactly as it will be sent
+ */
+export const analyzeSMS = (message: string): SMSSegmentInfo => {
+  const characters = [...message];
+  const nonGSMCharacters = [...new Set(characters.filter((character) => gsmSeptets(character) === null))];
+  const encoding: SMSEncoding = nonGSMCharacters.length === 0 ? 'GSM-7' : 'UCS-2';
+
+  const costs = characters.map((character) =>
+    encoding === 'GSM-7' ? (gsmSeptets(character) as number) : character.length
+  );
+  const units = costs.reduce((sum, cost) => sum + cost, 0);
+  const limits = SEGMENT_LIMITS[encoding];
+
+  if (units <= limits.single) {
+    return {
+      encoding,
+      segments: 1,
+      characters: characters.length,
+      units,
+      unitsPerSegment: limits.single,
+      remaining: limits.single - units,
+      nonGSMCharacters,
+    };
+  }
+
+  let segments = 1;
+  let used = 0;
+  for (const cost of costs) {
+    if (used + cost > limits.multipart) {
+      segments++;
+      used = 0;
+    }
+    used += cost;
+  }
+
+  return {
+    encoding,
+    segments,
+    characters: characters.length,
+    units,
+    unitsPerSegment: limits.multipart,
+    remaining: limits.multipart - used,
+    nonGSMCharacters,
+  };
+};
+
+/**
+ * Estimate what sending a message will cost
+ * @param info - Segment info from `analyzeSMS`
+ * @param recipients - Number of recipients receiving the message
+ * @param config - Overrides for the environment pricing configuration
+ */
+export const estimateSMSCost = (
+  info: SMSSegmentInfo,
+  recipients = 1,
+  config?: Partial<SegmentConfig>
+): SMSCostEstimate => {
+  const { costPerSegment, currency } = { ...getSegmentConfig(), ...config };
+  const total = info.segments * recipients * costPerSegment;
+
+  return {
+    segments: info.segments,
+    recipients,
+    costPerSegment,
+    total: Math.round(total * 10000) / 10000,
+    currency,
+  };
+};
+
+/**
+ * Check a message against the max-segments policy before it is enqueued
+ * With the 'transliterate' policy an oversized UCS-2 message is rewritten to GSM-7;
+ * it is still rejected if that does not bring it within the limit.
+ * @param message - Message exactly as it will be sent
+ * @param config - Overrides for the environment segment configuration
+ * @returns The message to enqueue (possibly transliterated), or the reason it was rejected
+ */
+export const applySegmentPolicy = (
+  message: string,
+  config?: Partial<SegmentConfig>
+): SegmentPolicyResult => {
+  const { maxSegments, policy } = { ...getSegmentConfig(), ...config };
+  const info = analyzeSMS(message);
+
+  if (info.segments <= maxSegments) {
+    return { status: 'accepted', message, info };
+  }
+
+  if (policy === 'transliterate' && info.encoding === 'UCS-2') {
+    const transliterated = transliterateToGSM(message);
+    const transliteratedInfo = analyzeSMS(transliterated);
+
+    if (transliteratedInfo.segments <= maxSegments) {
+      return { status: 'transliterated', message: transliterated, info: transliteratedInfo, originalInfo: info };
+    }
+  }
+
+  return {
+    status: 'rejected',
+    message,
+    info,
+    reason: `Message needs ${info.segments} ${info.encoding} segments; the limit is ${maxSegments}`,
+  };
+};
@@ -0,0 +1,41 @@
+import { getRedisClient } from '../config/redis-client';
+import type { SuppressionCategory, SuppressionStore } from './interface';
+
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+const cacheKey = (phoneNumber: string) => `suppression:${phoneNumber}`;
+
+/**
+ * Wrap a suppression store with a Redis read-through cache
+ * Every worker checks each recipient, so lookups are cached per number for `ttlSeconds`.
+ * Call `invalidateSuppressionCache` whenever entries for a number change.
+ * @param store - Authoritative store (e.g. Postgres)
+ * @param ttlSeconds - Cache lifetime per number
+ */
+export const createCachedSuppressionStore = (
+  store: SuppressionStore,
+  ttlSeconds: number = DEFAULT_CACHE_TTL_SECONDS
+): SuppressionStore => {
+  return {
+    async getOptOutCategories(phoneNumber) {
+      const redis = getRedisClient();
+
+      const cached = await redis.get(cacheKey(phoneNumber));
+      if (cached !== null) {
+        return JSON.parse(cached) as SuppressionCategory[];
+      }
+
+      const categories = await store.getOptOutCategories(phoneNumber);
+      await redis.set(cacheKey(phoneNumber), JSON.stringify(categories), 'EX', ttlSeconds);
+      return categories;
+    },
+  };
+};
+
+/**
+ * Drop the cached opt-outs for a number so the next lookup reads the store
+ * @param phoneNumber - Recipient number in E.164
+ */
+export const invalidateSuppressionCache = async (phoneNumber: string): Promise<void> => {
+  await getRedisClient().del(cacheKey(phoneNumber));
+};
@@ -0,0 +1,5 @@
+export { GLOBAL_SUPPRESSION } from './interface';
+export type { SuppressionStore, SuppressionCategory } from './interface';
+export { checkSuppression, getSMSCategory, defaultSuppressionPolicy } from './policy';
+export type { SuppressionPolicy, SuppressionCheck } from './policy';
+export { createCachedSuppressionStore, invalidateSuppressionCache } from './cache';
@@ -0,0 +1,20 @@
+import type { SMSCategory } from '../types';
+
+/**
+ * Category value marking an opt-out from every non-exempt category
+ */
+export const GLOBAL_SUPPRESSION = 'all';
+
+export type SuppressionCategory = SMSCategory | typeof GLOBAL_SUPPRESSION;
+
+/**
+ * Source of opt-out entries
+ * Implemented by the application (e.g. a Postgres table) and passed to the SMS worker.
+ */
+export interface SuppressionStore {
+  /**
+   * List the categories an E.164 phone number has opted out of
+   * @returns Categories, including GLOBAL_SUPPRESSION for a global opt-out; empty if none
+   */
+  getOptOutCategories(phoneNumber: string): Promise<SuppressionCategory[]>;
+}
@@ -0,0 +1,65 @@
+import type { SMSCategory, SMSJobData } from '../types';
+import { SMSJobType } from '../types';
+import { GLOBAL_SUPPRESSION, type SuppressionStore } from './interface';
+
+export interface SuppressionPolicy {
+  exemptJobTypes: string[]; // Job types that are always delivered
+  exemptCategories: SMSCategory[]; // Categories that ignore opt-outs
+}
+
+export const defaultSuppressionPolicy: SuppressionPolicy = {
+  exemptJobTypes: ['otp'],
+  exemptCategories: ['transactional'],
+};
+
+export type SuppressionCheck =
+  | { suppressed: false; category: SMSCategory }
+  | { suppressed: true; category: SMSCategory; reason: string };
+
+/**
+ * Category a job is sent under
+ * OTP messages are transactional. Welcome messages are marketing, so a recipient who opted out of
+ * marketing does not get one. Notifications default to marketing unless tagged otherwise.
+ */
+export const getSMSCategory = (data: SMSJobData): SMSCategory => {
+  switch (data.type) {
+    case SMSJobType.OTP:
+      return 'transactional';
+    case SMSJobType.WELCOME:
+      return 'marketing';
+    case SMSJobType.NOTIFICATION:
+      return data.category ?? 'marketing';
+  }
+};
+
+/**
+ * Decide whether a job must be skipped because its recipient opted out
+ * @param store - Opt-out lookup (usually the cached store)
+ * @param data - SMS job data
+ * @param phoneNumber - Recipient number in E.164
+ * @param policy - Exemption policy
+ */
+export const checkSuppression = async (
+  store: SuppressionStore,
+  data: SMSJobData,
+  phoneNumber: string,
+  policy: SuppressionPolicy = defaultSuppressionPolicy
+): Promise<SuppressionCheck> => {
+  const category = getSMSCategory(data);
+
+  if (policy.exemptJobTypes.includes(data.type) || policy.exemptCategories.includes(category)) {
+    return { suppressed: false, category };
+  }
+
+  const optOuts = await store.getOptOutCategories(phoneNumber);
+
+  if (optOuts.includes(GLOBAL_SUPPRESSION)) {
+    return { suppressed: true, category, reason: 'Recipient opted out of all messages' };
+  }
+
+  if (optOuts.includes(category)) {
+    return { suppressed: true, category, reason: `Recipient opted out of ${category} messages` };
+  }
+
+  return { suppressed: false, category };
+};
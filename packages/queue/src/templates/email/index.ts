@@ -0,0 +1,10 @@
+/**
+ * Email Template Exports
+ * 
+ * This module exports all email template rendering functions.
+ * Each template takes typed job data and returns a subject with HTML and plain-text bodies.
+ */
+
+export { renderWelcomeEmail } from './welcome';
+export { renderOTPEmail } from './otp';
+export { renderNotificationEmail } from './notification';
@@ -0,0 +1,32 @@
+/**
+ * Escapes user-supplied values before they are interpolated into HTML
+ * @param value - Raw text to escape
+ * @returns HTML-safe string
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Wraps an email body in the shared HTML document layout
+ * @param title - Document title, usually the email subject
+ * @param body - Pre-escaped HTML body content
+ * @returns Complete HTML document
+ */
+export const renderEmailLayout = (title: string, body: string): string => {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; line-height: 1.5; color: #1f2937;">
+    ${body}
+  </body>
+</html>`;
+};
@@ -0,0 +1,25 @@
+import type { NotificationEmailData, EmailTemplateResult } from '../../types';
+import { escapeHtml, renderEmailLayout } from './layout';
+
+/**
+ * Renders a generic notification email
+ * Uses the caller-supplied HTML when present, otherwise derives it from the plain-text message
+ * @param data - Notification email job data containing the subject and message to send
+ * @returns Formatted template result with subject, HTML and plain-text bodies
+ */
+export const renderNotificationEmail = (data: NotificationEmailData): EmailTemplateResult => {
+  const html = data.html ?? renderEmailLayout(
+    data.subject,
+    data.message
+      .split(/\n{2,}/)
+      .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`)
+      .join('\n    ')
+  );
+
+  return {
+    subject: data.subject,
+    html,
+    text: data.message,
+    recipient: data.recipient,
+  };
+};
@@ -0,0 +1,24 @@
+import type { OTPEmailData, EmailTemplateResult } from '../../types';
+import { escapeHtml, renderEmailLayout } from './layout';
+
+/**
+ * Renders an OTP (One-Time Password) email for verification
+ * @param data - OTP email job data containing verification code and expiry information
+ * @returns Formatted template result with subject, HTML and plain-text bodies
+ */
+export const renderOTPEmail = (data: OTPEmailData): EmailTemplateResult => {
+  const subject = 'Your verification code';
+
+  const html = renderEmailLayout(subject, `<p>Your verification code is:</p>
+    <p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">${escapeHtml(data.code)}</p>
+    <p>This code will expire in ${data.expiryMinutes} minutes. Do not share this code with anyone.</p>`);
+
+  const text = `Your verification code is: ${data.code}. This code will expire in ${data.expiryMinutes} minutes. Do not share this code with anyone.`;
+
+  return {
+    subject,
+    html,
+    text,
+    recipient: data.recipient,
+  };
+};
@@ -0,0 +1,25 @@
+import type { WelcomeEmailData, EmailTemplateResult } from '../../types';
+import { escapeHtml, renderEmailLayout } from './layout';
+
+/**
+ * Renders a welcome email for new users
+ * @param data - Welcome email job data containing user information
+ * @returns Formatted template result with subject, HTML and plain-text bodies
+ */
+export const renderWelcomeEmail = (data: WelcomeEmailData): EmailTemplateResult => {
+  const subject = `Welcome to our platform, ${data.userName}!`;
+  const userName = escapeHtml(data.userName);
+
+  const html = renderEmailLayout(subject, `<h1>Welcome ${userName}!</h1>
+    <p>We're excited to have you on board.</p>
+    <p>Get started by exploring your dashboard.</p>`);
+
+  const text = `Welcome to our platform, ${data.userName}! We're excited to have you on board. Get started by exploring your dashboard.`;
+
+  return {
+    subject,
+    html,
+    text,
+    recipient: data.recipient,
+  };
+};
@@ -2,7 +2,12 @@
  * Template Exports
  * 
  * This module exports all notification templates organized by type.
- * Currently supports SMS templates with future support for email and other channels.
+ * Supports SMS and email templates.
  */
 
+export * from './variables';
 export * from './sms';
+export * from './email';
+export * from './store';
+export * from './renderer';
+export * from './locale';
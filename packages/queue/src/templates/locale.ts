@@ -0,0 +1,86 @@
+/**
+ * Locale used when neither the recipient locale nor the configured fallbacks have a variant
+ */
+export const DEFAULT_LOCALE = 'en';
+
+export interface LocaleConfig {
+  fallbackLocales: string[]; // Tried, in order, after the recipient locale and its parent locales
+}
+
+/**
+ * Canonicalize a BCP 47 language tag (e.g. 'sw-ke' becomes 'sw-KE')
+ * @returns The canonical tag, or null if the tag is malformed
+ */
+export const normalizeLocale = (locale: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(locale.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the locale fallback chain from the environment
+ * SMS_LOCALE_FALLBACK is a comma separated list of locales (default 'en')
+ * @throws Error if a fallback locale is malformed
+ */
+export const getLocaleConfig = (): LocaleConfig => {
+  const fallbackLocales = (process.env.SMS_LOCALE_FALLBACK || DEFAULT_LOCALE)
+    .split(',')
+    .filter((locale) => locale.trim() !== '')
+    .map((locale) => {
+      const normalized = normalizeLocale(locale);
+      if (!normalized) {
+        throw new Error(`SMS_LOCALE_FALLBACK contains an invalid locale: ${locale}`);
+      }
+      return normalized;
+    });
+
+  return { fallbackLocales };
+};
+
+/**
+ * Locales to try for a recipient, most specific first
+ * 'sw-KE' yields ['sw-KE', 'sw'] followed by the configured fallbacks, e.g. ['sw-KE', 'sw', 'en'].
+ * Malformed or missing recipient locales yield only the fallbacks.
+ * @param locale - Recipient locale
+ * @param config - Overrides for the environment locale configuration
+ */
+export const resolveLocaleChain = (locale?: string, config?: Partial<LocaleConfig>): string[] => {
+  const { fallbackLocales } = { ...getLocaleConfig(), ...config };
+  const chain: string[] = [];
+
+  const normalized = locale ? normalizeLocale(locale) : null;
+  if (normalized) {
+    const subtags = normalized.split('-');
+    for (let length = subtags.length; length > 0; length--) {
+      chain.push(subtags.slice(0, length).join('-'));
+    }
+  }
+
+  for (const fallback of fallbackLocales) {
+    if (!chain.includes(fallback)) {
+      chain.push(fallback);
+    }
+  }
+
+  return chain;
+};
+
+/**
+ * Pick the first variant available along a locale chain
+ * @param variants - Variants keyed by locale
+ * @param chain - Locales in order of preference (see `resolveLocaleChain`)
+ * @returns The matching variant, or undefined if no locale in the chain has one
+ */
+export const pickLocaleVariant = <T>(
+  variants: Record<string, T>,
+  chain: string[]
+): T | undefined => {
+  for (const locale of chain) {
+    if (Object.hasOwn(variants, locale)) {
+      return variants[locale];
+    }
+  }
+  return undefined;
+};
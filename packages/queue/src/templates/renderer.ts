@@ -0,0 +1,56 @@
+import { extractTemplateVariables, interpolateTemplate, type TemplateVariables } from './variables';
+
+export type TemplateRenderResult =
+  | { status: 'rendered'; message: string }
+  | { status: 'missing_variables'; missing: string[] };
+
+/**
+ * Thrown when a job references a template that cannot be rendered
+ * Retrying does not help, so the SMS worker fails these jobs immediately.
+ */
+export class TemplateRenderError extends Error {
+  readonly key: string;
+  readonly version?: number;
+
+  constructor(key: string, version: number | undefined, message: string) {
+    super(`Template ${key}${version === undefined ? '' : ` v${version}`}: ${message}`);
+    this.name = 'TemplateRenderError';
+    this.key = key;
+    this.version = version;
+  }
+}
+
+/**
+ * Render a template body, requiring a value for every placeholder it uses
+ * @param body - Template text with `{{variable}}` placeholders
+ * @param variables - Values keyed by variable name
+ * @returns The rendered message, or the placeholders left without a value
+ */
+export const renderTemplateBody = (
+  body: string,
+  variables: TemplateVariables
+): TemplateRenderResult => {
+  const { message, missing } = interpolateTemplate(body, variables);
+
+  if (missing.length > 0) {
+    return { status: 'missing_variables', missing };
+  }
+
+  return { status: 'rendered', message };
+};
+
+/**
+ * Validate a template body before it is saved
+ * @param body - Template text with `{{variable}}` placeholders
+ * @param allowedVariables - Variables the template's jobs provide; omit to accept any
+ * @returns Placeholders the jobs cannot fill (empty when the body is valid)
+ */
+export const findUnknownTemplateVariables = (
+  body: string,
+  allowedVariables?: string[]
+): string[] => {
+  if (!allowedVariables) {
+    return [];
+  }
+  return extractTemplateVariables(body).filter((name) => !allowedVariables.includes(name));
+};
@@ -5,6 +5,12 @@
  * Each template takes typed job data and returns a formatted message.
  */
 
-export { renderWelcomeSMS } from './welcome';
-export { renderOTPSMS } from './otp';
+export { renderWelcomeSMS, welcomeSMSVariants } from './welcome';
+export { renderOTPSMS, otpSMSVariants } from './otp';
 export { renderNotificationSMS } from './notification';
+export { renderSMSJob, DEFAULT_SMS_TEMPLATE_KEYS, SMS_TEMPLATE_VARIABLES } from './render';
+
+/**
+ * Locales every built-in SMS template has wording for
+ */
+export const BUILT_IN_SMS_LOCALES = ['en', 'sw'] as const;
@@ -1,15 +1,28 @@
 import type { OTPSMSData, TemplateResult } from '../../types';
+import { DEFAULT_LOCALE, pickLocaleVariant, resolveLocaleChain } from '../locale';
 
 /**
- * Renders an OTP (One-Time Password) SMS message for verification
+ * OTP message wording per locale
+ */
+export const otpSMSVariants: Record<string, (data: OTPSMSData) => string> = {
+  en: (data) =>
+    `Your verification code is: ${data.code}. This code will expire in ${data.expiryMinutes} minutes. Do not share this code with anyone.`,
+  sw: (data) =>
+    `Nambari yako ya uthibitisho ni: ${data.code}. Nambari hii itaisha muda baada ya dakika ${data.expiryMinutes}. Usimpe mtu yeyote nambari hii.`,
+};
+
+/**
+ * Renders an OTP (One-Time Password) SMS message for verification in the recipient's locale
  * @param data - OTP SMS job data containing verification code and expiry information
  * @returns Formatted template result with message and recipient
  */
 export const renderOTPSMS = (data: OTPSMSData): TemplateResult => {
-  const message = `Your verification code is: ${data.code}. This code will expire in ${data.expiryMinutes} minutes. Do not share this code with anyone.`;
-  
+  const render =
+    pickLocaleVariant(otpSMSVariants, resolveLocaleChain(data.recipient.locale)) ??
+    otpSMSVariants[DEFAULT_LOCALE];
+
   return {
-    message,
+    message: render(data),
     recipient: data.recipient,
   };
 };
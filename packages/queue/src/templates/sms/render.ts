@@ -0,0 +1,109 @@
+import type { SMSJobData, SMSTemplateReference, TemplateResult } from '../../types';
+import { SMSJobType } from '../../types';
+import { renderTemplateBody, TemplateRenderError } from '../renderer';
+import type { SMSTemplateStore } from '../store';
+import { pickLocaleVariant, resolveLocaleChain } from '../locale';
+import type { TemplateVariables } from '../variables';
+import { renderWelcomeSMS } from './welcome';
+import { renderOTPSMS } from './otp';
+import { renderNotificationSMS } from './notification';
+
+/**
+ * Store keys consulted for jobs without an explicit template reference
+ * Publishing a template under one of these keys replaces the built-in wording without a deploy.
+ */
+export const DEFAULT_SMS_TEMPLATE_KEYS: Partial<Record<SMSJobType, string>> = {
+  [SMSJobType.WELCOME]: 'welcome',
+  [SMSJobType.OTP]: 'otp',
+};
+
+/**
+ * Variables each job type supplies to its template, before any `template.variables`
+ */
+export const SMS_TEMPLATE_VARIABLES: Record<SMSJobType, string[]> = {
+  [SMSJobType.WELCOME]: ['name', 'userName'],
+  [SMSJobType.OTP]: ['name', 'code', 'expiryMinutes'],
+  [SMSJobType.NOTIFICATION]: ['name', 'message'],
+};
+
+const getJobVariables = (data: SMSJobData): TemplateVariables => {
+  const variables: TemplateVariables = {};
+  if (data.recipient.name) {
+    variables.name = data.recipient.name;
+  }
+
+  switch (data.type) {
+    case SMSJobType.WELCOME:
+      return { name: data.userName, ...variables, userName: data.userName };
+    case SMSJobType.OTP:
+      return { ...variables, code: data.code, expiryMinutes: data.expiryMinutes };
+    case SMSJobType.NOTIFICATION:
+      return { ...variables, message: data.message };
+  }
+};
+
+const renderBuiltInSMS = (data: SMSJobData): TemplateResult => {
+  switch (data.type) {
+    case SMSJobType.WELCOME:
+      return renderWelcomeSMS(data);
+    case SMSJobType.OTP:
+      return renderOTPSMS(data);
+    case SMSJobType.NOTIFICATION:
+      return renderNotificationSMS(data);
+  }
+};
+
+/**
+ * Render the message for an SMS job
+ * An explicit `template` reference must resolve in the store. Welcome and OTP jobs without one
+ * use the published template under their default key, falling back to the built-in wording.
+ * Stored and built-in templates pick the variant for the recipient's locale chain.
+ * @param data - SMS job data
+ * @param store - Template store; without one only built-in templates are available
+ * @throws TemplateRenderError if a referenced template is missing or lacks variables
+ */
+export const renderSMSJob = async (
+  data: SMSJobData,
+  store?: SMSTemplateStore
+): Promise<TemplateResult> => {
+  const defaultKey = DEFAULT_SMS_TEMPLATE_KEYS[data.type];
+  const reference: SMSTemplateReference | undefined =
+    data.template ?? (defaultKey ? { key: defaultKey } : undefined);
+
+  if (!reference || !store) {
+    if (data.template) {
+      throw new TemplateRenderError(data.template.key, data.template.version, 'no template store configured');
+    }
+    return renderBuiltInSMS(data);
+  }
+
+  const template = await store.getTemplate(reference.key, reference.version);
+  if (!template) {
+    if (data.template) {
+      throw new TemplateRenderError(reference.key, reference.version, 'not found');
+    }
+    return renderBuiltInSMS(data);
+  }
+
+  const body =
+    pickLocaleVariant(template.variants ?? {}, resolveLocaleChain(data.recipient.locale)) ??
+    template.body;
+
+  const result = renderTemplateBody(body, {
+    ...getJobVariables(data),
+    ...reference.variables,
+  });
+
+  if (result.status === 'missing_variables') {
+    throw new TemplateRenderError(
+      template.key,
+      template.version,
+      `missing variables ${result.missing.join(', ')}`
+    );
+  }
+
+  return {
+    message: result.message,
+    recipient: data.recipient,
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { SMSJobType, type SMSJobData } from '../../types';
+import { applySegmentPolicy } from '../../segments/segments';
+import { BUILT_IN_SMS_LOCALES, otpSMSVariants, renderSMSJob, welcomeSMSVariants } from '.';
+
+const baseJob = {
+    id: 'job-1',
+    timestamp: 0,
+};
+
+/**
+ * One job per built-in template, with every variable its wording uses
+ */
+const jobsFor = (locale: string): SMSJobData[] => [
+    {
+        ...baseJob,
+        type: SMSJobType.WELCOME,
+        recipient: { phoneNumber: '+254712345678', name: 'Amina', locale },
+        userName: 'Amina Wanjiru',
+    },
+    {
+        ...baseJob,
+        type: SMSJobType.OTP,
+        recipient: { phoneNumber: '+254712345678', locale },
+        code: '482913',
+        expiryMinutes: 10,
+    },
+    {
+        ...baseJob,
+        type: SMSJobType.NOTIFICATION,
+        recipient: { phoneNumber: '+254712345678', locale },
+        message: 'Your order #1042 has shipped.',
+    },
+];
+
+/**
+ * Wording the template should produce, straight from its variant for the locale
+ */
+const expectedMessage = (data: SMSJobData, locale: string): string => {
+    switch (data.type) {
+        case SMSJobType.WELCOME:
+            return welcomeSMSVariants[locale](data);
+        case SMSJobType.OTP:
+            return otpSMSVariants[locale](data);
+        case SMSJobType.NOTIFICATION:
+            return data.message;
+    }
+};
+
+const expectedValues = (data: SMSJobData): string[] => {
+    switch (data.type) {
+        case SMSJobType.WELCOME:
+            return [data.userName];
+        case SMSJobType.OTP:
+            return [data.code, String(data.expiryMinutes)];
+        case SMSJobType.NOTIFICATION:
+            return [data.message];
+    }
+};
+
+describe('built-in SMS templates', () => {
+    test('have wording for every built-in locale', () => {
+        for (const locale of BUILT_IN_SMS_LOCALES) {
+            expect(Object.keys(welcomeSMSVariants)).toContain(locale);
+            expect(Object.keys(otpSMSVariants)).toContain(locale);
+        }
+    });
+
+    for (const locale of BUILT_IN_SMS_LOCALES) {
+        for (const data of jobsFor(locale)) {
+            test(`render ${data.type} in ${locale}`, async () => {
+                const { message, recipient } = await renderSMSJob(data);
+
+                expect(message).toBe(expectedMessage(data, locale));
+                expect(recipient).toEqual(data.recipient);
+                for (const value of expectedValues(data)) {
+                    expect(message).toContain(value);
+                }
+                expect(message).not.toContain('undefined');
+                expect(message).not.toContain('{{');
+                expect(applySegmentPolicy(message, { maxSegments: 3, policy: 'reject' }).status).toBe('accepted');
+            });
+        }
+    }
+
+    test('fall back from a regional locale to its language', async () => {
+        const [welcome] = jobsFor('sw-KE');
+        expect((await renderSMSJob(welcome)).message).toBe(expectedMessage(welcome, 'sw'));
+    });
+
+    test('fall back to English for locales without wording', async () => {
+        const [welcome, otp] = jobsFor('fr');
+        expect((await renderSMSJob(welcome)).message).toBe(expectedMessage(welcome, 'en'));
+        expect((await renderSMSJob(otp)).message).toBe(expectedMessage(otp, 'en'));
+    });
+});
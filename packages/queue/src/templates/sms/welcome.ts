@@ -1,15 +1,28 @@
 import type { WelcomeSMSData, TemplateResult } from '../../types';
+import { DEFAULT_LOCALE, pickLocaleVariant, resolveLocaleChain } from '../locale';
 
 /**
- * Renders a welcome SMS message for new users
+ * Welcome message wording per locale
+ */
+export const welcomeSMSVariants: Record<string, (data: WelcomeSMSData) => string> = {
+  en: (data) =>
+    `Welcome to our platform, ${data.userName}! We're excited to have you on board. Get started by exploring your dashboard.`,
+  sw: (data) =>
+    `Karibu kwenye jukwaa letu, ${data.userName}! Tunafurahi kuwa nawe. Anza kwa kuchunguza dashibodi yako.`,
+};
+
+/**
+ * Renders a welcome SMS message for new users in the recipient's locale
  * @param data - Welcome SMS job data containing user information
  * @returns Formatted template result with message and recipient
  */
 export const renderWelcomeSMS = (data: WelcomeSMSData): TemplateResult => {
-  const message = `Welcome to our platform, ${data.userName}! We're excited to have you on board. Get started by exploring your dashboard.`;
-  
+  const render =
+    pickLocaleVariant(welcomeSMSVariants, resolveLocaleChain(data.recipient.locale)) ??
+    welcomeSMSVariants[DEFAULT_LOCALE];
+
   return {
-    message,
+    message: render(data),
     recipient: data.recipient,
   };
 };
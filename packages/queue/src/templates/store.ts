@@ -0,0 +1,27 @@
+/**
+ * Lifecycle of a template version
+ * Only one version per key is `published`; rolling back re-publishes an `archived` version.
+ */
+export type SMSTemplateStatus = 'draft' | 'published' | 'archived';
+
+export interface SMSTemplateVersion {
+  key: string;
+  version: number;
+  body: string; // Text with `{{variable}}` placeholders, used when no locale variant matches
+  variants?: Record<string, string>; // Localized bodies keyed by locale, e.g. { sw: '...' }
+  status: SMSTemplateStatus;
+}
+
+/**
+ * Source of stored SMS templates
+ * Implemented by the application (e.g. a Postgres table) and passed to the SMS worker.
+ */
+export interface SMSTemplateStore {
+  /**
+   * Look up a template version
+   * @param key - Template key, e.g. 'welcome'
+   * @param version - Specific version; the published version when omitted
+   * @returns The version, or null if it does not exist (or nothing is published)
+   */
+  getTemplate(key: string, version?: number): Promise<SMSTemplateVersion | null>;
+}
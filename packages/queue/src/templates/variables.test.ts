@@ -0,0 +1,18 @@
+import { describe, expect, test } from 'bun:test';
+import { interpolateTemplate } from './variables';
+
+describe('interpolateTemplate', () => {
+    test('substitutes supplied variables', () => {
+        expect(interpolateTemplate('Hi {{ name }}, order {{order}} shipped', { name: 'Amina', order: 1042 })).toEqual({
+            message: 'Hi Amina, order 1042 shipped',
+            missing: [],
+        });
+    });
+
+    test('reports inherited object properties as missing instead of rendering them', () => {
+        expect(interpolateTemplate('{{constructor}} {{toString}} {{name}}', { name: 'Amina' })).toEqual({
+            message: '{{constructor}} {{toString}} Amina',
+            missing: ['constructor', 'toString'],
+        });
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * Matches `{{variable}}` placeholders, allowing whitespace inside the braces
+ */
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string | number>;
+
+export interface InterpolationResult {
+  message: string;
+  missing: string[];
+}
+
+/**
+ * Lists the distinct variable names referenced by a template
+ * @param template - Template text containing `{{variable}}` placeholders
+ * @returns Variable names in order of first appearance
+ */
+export const extractTemplateVariables = (template: string): string[] => {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/**
+ * Substitutes `{{variable}}` placeholders with the supplied values
+ * Placeholders without a value are left untouched and reported in `missing`
+ * @param template - Template text containing `{{variable}}` placeholders
+ * @param variables - Values keyed by variable name
+ * @returns Rendered message and the names of any unresolved variables
+ */
+export const interpolateTemplate = (
+  template: string,
+  variables: TemplateVariables
+): InterpolationResult => {
+  const missing = new Set<string>();
+
+  const message = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    // Inherited properties such as `constructor` are not variables
+    const value = Object.hasOwn(variables, name) ? variables[name] : undefined;
+    if (value === undefined || value === null) {
+      missing.add(name);
+      return placeholder;
+    }
+    return String(value);
+  });
+
+  return { message, missing: [...missing] };
+};
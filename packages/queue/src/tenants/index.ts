@@ -0,0 +1,8 @@
+export { TenantError } from './interface';
+export type { Tenant, TenantStore, TenantRateLimit, SMSQuota } from './interface';
+export { createTenantSMSProviderCache } from './providers';
+export type { TenantSMSSender, TenantSMSProviderCache, TenantSMSProviderCacheOptions } from './providers';
+export { consumeTenantRateLimit } from './rate-limit';
+export type { TenantRateLimitResult } from './rate-limit';
+export { reserveSMSQuota, releaseSMSQuota, checkSMSQuota, recordSMSQuotaSend } from './quota';
+export type { SMSQuotaPeriod, SMSQuotaRemaining, SMSQuotaResult } from './quota';
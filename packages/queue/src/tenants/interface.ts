@@ -0,0 +1,55 @@
+import type { SMSProviderAccount } from '../providers/sms/factory';
+
+/**
+ * Maximum number of SMS a tenant may send per fixed window
+ */
+export interface TenantRateLimit {
+  max: number;
+  durationMs: number;
+}
+
+/**
+ * Messages a tenant may send per calendar day and month (UTC); unlimited when unset
+ */
+export interface SMSQuota {
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * Organization or brand sending from its own sender IDs and provider accounts
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  defaultLocale?: string; // Used for recipients without a locale
+  smsAccounts: SMSProviderAccount[]; // Failover order with decrypted credentials; empty uses the deployment's providers
+  rateLimit?: TenantRateLimit;
+  quota?: SMSQuota;
+  updatedAt: Date; // Cached providers are rebuilt when this changes
+}
+
+/**
+ * Source of tenant configuration
+ * Implemented by the application (e.g. a Postgres table) and passed to the SMS worker.
+ */
+export interface TenantStore {
+  /**
+   * Load a tenant with its provider credentials decrypted
+   * @returns The tenant, or null if it does not exist
+   */
+  getTenant(id: string): Promise<Tenant | null>;
+}
+
+/**
+ * A job's tenant is missing or cannot send with its configuration
+ */
+export class TenantError extends Error {
+  readonly tenantId: string;
+
+  constructor(tenantId: string, message: string) {
+    super(`Tenant ${tenantId}: ${message}`);
+    this.name = 'TenantError';
+    this.tenantId = tenantId;
+  }
+}
@@ -0,0 +1,78 @@
+import type { SMSProvider } from '../providers/sms/interface';
+import { createSMSProvider } from '../providers/sms/factory';
+import type { CircuitBreakerOptions } from '../providers/sms/circuit-breaker';
+import { TenantError, type Tenant, type TenantStore } from './interface';
+
+const DEFAULT_CACHE_TTL_MS = 60_000;
+
+/**
+ * Tenant and the provider its SMS are sent through
+ */
+export interface TenantSMSSender {
+  tenant: Tenant;
+  provider: SMSProvider;
+}
+
+export interface TenantSMSProviderCacheOptions {
+  defaultProvider: SMSProvider; // Used by tenants without accounts of their own
+  ttlMs?: number; // How long a tenant is served from memory before it is reloaded
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+export interface TenantSMSProviderCache {
+  /**
+   * Get the tenant and its provider, loading the tenant if it is not cached or has expired
+   * @throws TenantError if the tenant does not exist or its accounts are incomplete
+   */
+  get(tenantId: string): Promise<TenantSMSSender>;
+}
+
+/**
+ * Build and cache one SMS provider per tenant
+ * Tenants are reloaded after `ttlMs`, so edits reach running workers within that time. A provider
+ * is only rebuilt when the tenant's `updatedAt` changes, which keeps its circuit breaker state.
+ * @param store - Tenant configuration source (e.g. Postgres)
+ */
+export const createTenantSMSProviderCache = (
+  store: TenantStore,
+  options: TenantSMSProviderCacheOptions
+): TenantSMSProviderCache => {
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const cache = new Map<string, TenantSMSSender & { loadedAt: number }>();
+
+  const buildProvider = (tenant: Tenant): SMSProvider => {
+    if (tenant.smsAccounts.length === 0) {
+      return options.defaultProvider;
+    }
+
+    try {
+      return createSMSProvider({ accounts: tenant.smsAccounts, circuitBreaker: options.circuitBreaker });
+    } catch (error) {
+      throw new TenantError(tenant.id, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return {
+    async get(tenantId) {
+      const cached = cache.get(tenantId);
+      if (cached && Date.now() - cached.loadedAt < ttlMs) {
+        return cached;
+      }
+
+      const tenant = await store.getTenant(tenantId);
+      if (!tenant) {
+        cache.delete(tenantId);
+        throw new TenantError(tenantId, 'not found');
+      }
+
+      const provider =
+        cached && cached.tenant.updatedAt.getTime() === tenant.updatedAt.getTime()
+          ? cached.provider
+          : buildProvider(tenant);
+
+      const entry = { tenant, provider, loadedAt: Date.now() };
+      cache.set(tenantId, entry);
+      return entry;
+    },
+  };
+};
@@ -0,0 +1,166 @@
+import { getRedisClient } from '../config/redis-client';
+import type { SMSQuota } from './interface';
+
+export type SMSQuotaPeriod = 'daily' | 'monthly';
+
+/**
+ * Messages still allowed in each period; undefined when the period is unlimited
+ */
+export interface SMSQuotaRemaining {
+  daily?: number;
+  monthly?: number;
+}
+
+export type SMSQuotaResult =
+  | { allowed: true; remaining: SMSQuotaRemaining }
+  | {
+      allowed: false;
+      period: SMSQuotaPeriod; // First period that would be exceeded
+      limit: number;
+      remaining: SMSQuotaRemaining;
+      resetAt: Date; // Start of the next period, in UTC
+    };
+
+/**
+ * Counters kept per tenant: messages accepted for queuing, and messages handed to a provider
+ */
+type QuotaCounter = 'queued' | 'sent';
+
+const PERIODS: SMSQuotaPeriod[] = ['daily', 'monthly'];
+
+// Keys outlive their period so a late check near midnight still finds the counter
+const PERIOD_TTL_SECONDS: Record<SMSQuotaPeriod, number> = {
+  daily: 2 * 24 * 60 * 60,
+  monthly: 32 * 24 * 60 * 60,
+};
+
+/**
+ * Check every period against its limit and, when `apply` is set and none would be exceeded, add `count`
+ * Counters never go below zero, so releasing more than was reserved cannot grant extra quota.
+ * KEYS: one counter per period. ARGV: count, apply, then limit (-1 for none) and TTL per period.
+ * Returns the 1-based index of the exceeded period (0 if none) followed by each counter's value.
+ */
+const QUOTA_SCRIPT = `
+local count = tonumber(ARGV[1])
+local apply = ARGV[2] == '1'
+local used = {}
+local exceeded = 0
+for i = 1, #KEYS do
+  used[i] = tonumber(redis.call('GET', KEYS[i]) or '0')
+  local limit = tonumber(ARGV[1 + i * 2])
+  if exceeded == 0 and limit >= 0 and used[i] + count > limit then
+    exceeded = i
+  end
+end
+if exceeded == 0 and apply then
+  for i = 1, #KEYS do
+    used[i] = redis.call('INCRBY', KEYS[i], count)
+    if used[i] < 0 then
+      used[i] = 0
+      redis.call('SET', KEYS[i], 0, 'EX', tonumber(ARGV[2 + i * 2]))
+    end
+    if used[i] == count then
+      redis.call('EXPIRE', KEYS[i], tonumber(ARGV[2 + i * 2]))
+    end
+  end
+end
+local result = { exceeded }
+for i = 1, #used do
+  result[#result + 1] = used[i]
+end
+return result
+`;
+
+const periodStart = (period: SMSQuotaPeriod, now: Date): Date =>
+  period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const nextPeriodStart = (period: SMSQuotaPeriod, now: Date): Date =>
+  period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+const counterKey = (tenantId: string, counter: QuotaCounter, period: SMSQuotaPeriod, now: Date) => {
+  const start = periodStart(period, now).toISOString();
+  return `sms-quota:${tenantId}:${counter}:${period === 'daily' ? start.slice(0, 10) : start.slice(0, 7)}`;
+};
+
+const limitOf = (quota: SMSQuota, period: SMSQuotaPeriod): number | undefined =>
+  period === 'daily' ? quota.daily : quota.monthly;
+
+const runQuota = async (
+  tenantId: string,
+  quota: SMSQuota,
+  counter: QuotaCounter,
+  count: number,
+  apply: boolean
+): Promise<SMSQuotaResult> => {
+  const now = new Date();
+  const keys = PERIODS.map((period) => counterKey(tenantId, counter, period, now));
+  const args = PERIODS.flatMap((period) => [limitOf(quota, period) ?? -1, PERIOD_TTL_SECONDS[period]]);
+
+  const [exceeded, ...used] = (await getRedisClient().eval(
+    QUOTA_SCRIPT,
+    keys.length,
+    ...keys,
+    count,
+    apply ? 1 : 0,
+    ...args
+  )) as number[];
+
+  const remaining: SMSQuotaRemaining = {};
+  PERIODS.forEach((period, index) => {
+    const limit = limitOf(quota, period);
+    if (limit !== undefined) {
+      remaining[period] = Math.max(0, limit - used[index]);
+    }
+  });
+
+  if (exceeded === 0) {
+    return { allowed: true, remaining };
+  }
+
+  const period = PERIODS[exceeded - 1];
+  return {
+    allowed: false,
+    period,
+    limit: limitOf(quota, period) ?? 0,
+    remaining,
+    resetAt: nextPeriodStart(period, now),
+  };
+};
+
+/**
+ * Reserve quota for messages about to be queued
+ * Nothing is reserved when any period would be exceeded. Periods are calendar days and months in UTC.
+ * @param tenantId - Tenant queuing the messages
+ * @param quota - The tenant's daily and monthly message limits
+ * @param count - Messages being queued
+ */
+export const reserveSMSQuota = (tenantId: string, quota: SMSQuota, count = 1): Promise<SMSQuotaResult> => {
+  return runQuota(tenantId, quota, 'queued', count, true);
+};
+
+/**
+ * Give back quota reserved with `reserveSMSQuota` for messages that were not queued after all
+ */
+export const releaseSMSQuota = async (tenantId: string, count: number): Promise<void> => {
+  await runQuota(tenantId, {}, 'queued', -count, true);
+};
+
+/**
+ * Check that a tenant may hand one more message to a provider
+ * Enforced by the worker, so jobs queued before a quota was lowered, schedule runs and replays are limited too.
+ * Call `recordSMSQuotaSend` once the message is sent.
+ */
+export const checkSMSQuota = (tenantId: string, quota: SMSQuota): Promise<SMSQuotaResult> => {
+  return runQuota(tenantId, quota, 'sent', 1, false);
+};
+
+/**
+ * Count a message a provider accepted against the tenant's quota
+ */
+export const recordSMSQuotaSend = async (tenantId: string): Promise<void> => {
+  await runQuota(tenantId, {}, 'sent', 1, true);
+};
@@ -0,0 +1,31 @@
+import { getRedisClient } from '../config/redis-client';
+import type { TenantRateLimit } from './interface';
+
+export type TenantRateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAt: number }; // Start of the next window, in epoch ms
+
+const windowKey = (tenantId: string, windowStart: number) => `tenant-rate:${tenantId}:${windowStart}`;
+
+/**
+ * Count one send against a tenant's fixed-window limit
+ * The counter is shared by every worker through Redis and expires with its window.
+ * @param tenantId - Tenant sending the message
+ * @param limit - The tenant's limit
+ */
+export const consumeTenantRateLimit = async (
+  tenantId: string,
+  limit: TenantRateLimit
+): Promise<TenantRateLimitResult> => {
+  const now = Date.now();
+  const windowStart = now - (now % limit.durationMs);
+  const key = windowKey(tenantId, windowStart);
+  const redis = getRedisClient();
+
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.pexpire(key, limit.durationMs);
+  }
+
+  return count <= limit.max ? { allowed: true } : { allowed: false, retryAt: windowStart + limit.durationMs };
+};
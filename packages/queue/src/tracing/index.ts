@@ -0,0 +1,3 @@
+export { initTracing, shutdownTracing, injectTraceContext, withSpan, traceJob } from './tracing';
+export type { TracingExporter, TracingOptions } from './tracing';
+export { InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
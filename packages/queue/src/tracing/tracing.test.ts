@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { context, SpanKind, trace } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
+import type { Job } from 'bullmq';
+import { SMSJobType, type SMSJobData } from '../types';
+import { renderSMSJob } from '../templates/sms';
+import { createSMSProviderByName } from '../providers/sms/factory';
+import { initTracing, injectTraceContext, shutdownTracing, traceJob, withSpan } from './tracing';
+
+const exporter = new InMemorySpanExporter();
+
+/**
+ * Job as the worker receives it, created inside the request span
+ */
+const createJob = (data: SMSJobData): Job<SMSJobData> => {
+    const timestamp = Date.now() - 50;
+    return {
+        id: data.id,
+        queueName: 'sms-notifications',
+        data,
+        attemptsMade: 0,
+        timestamp,
+        delay: 0,
+        processedOn: timestamp + 20,
+    } as Job<SMSJobData>;
+};
+
+describe('tracing', () => {
+    beforeAll(() => {
+        initTracing({ serviceName: 'queue-test', exporter });
+    });
+
+    afterAll(async () => {
+        await shutdownTracing();
+    });
+
+    test('keeps the request, queue wait, render and provider send spans in one trace', async () => {
+        // Same shape as the server's request middleware: a server span active while the handler creates the job
+        const request = trace.getTracer('@repo/server').startSpan('POST /sms/notification', { kind: SpanKind.SERVER });
+        const data = context.with(trace.setSpan(context.active(), request), (): SMSJobData => ({
+            type: SMSJobType.NOTIFICATION,
+            id: 'job-1',
+            timestamp: Date.now(),
+            traceContext: injectTraceContext(),
+            recipient: { phoneNumber: '+254712345678' },
+            message: 'Your order has shipped.',
+        }));
+        request.end();
+
+        expect(data.traceContext?.traceparent).toBeDefined();
+
+        // Same spans the SMS worker starts around rendering and sending
+        const job = createJob(data);
+        await traceJob(job, async () => {
+            const { message, recipient } = await withSpan('sms.template.render', { 'notification.type': job.data.type }, () =>
+                renderSMSJob(job.data)
+            );
+            await withSpan('sms.provider.send', {}, () =>
+                createSMSProviderByName('mock').send(recipient.phoneNumber, message)
+            );
+        });
+
+        const spans = exporter.getFinishedSpans();
+        const byName = (name: string) => {
+            const span = spans.find((candidate) => candidate.name === name);
+            if (!span) {
+                throw new Error(`No ${name} span was exported`);
+            }
+            return span;
+        };
+
+        const http = byName('POST /sms/notification');
+        const wait = byName('sms-notifications wait');
+        const processing = byName('sms-notifications process');
+        const render = byName('sms.template.render');
+        const send = byName('sms.provider.send');
+
+        const traceId = http.spanContext().traceId;
+        for (const span of [wait, processing, render, send]) {
+            expect(span.spanContext().traceId).toBe(traceId);
+        }
+
+        expect(wait.parentSpanContext?.spanId).toBe(http.spanContext().spanId);
+        expect(processing.parentSpanContext?.spanId).toBe(http.spanContext().spanId);
+        expect(render.parentSpanContext?.spanId).toBe(processing.spanContext().spanId);
+        expect(send.parentSpanContext?.spanId).toBe(processing.spanContext().spanId);
+    });
+});
@@ -0,0 +1,187 @@
+import {
+  context,
+  propagation,
+  trace,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { DelayedError, type Job } from 'bullmq';
+import type { BaseJobData, TraceContext } from '../types';
+
+/**
+ * `otlp` exports over OTLP/HTTP; `none` leaves the OpenTelemetry API in its no-op mode
+ */
+export type TracingExporter = 'otlp' | 'none';
+
+export interface TracingOptions {
+  serviceName: string; // Overridden by OTEL_SERVICE_NAME
+  exporter?: TracingExporter | SpanExporter; // Defaults to OTEL_TRACES_EXPORTER; pass an InMemorySpanExporter in tests
+}
+
+const TRACER_NAME = '@repo/queue';
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Looked up on every use so spans follow the provider registered by `initTracing`
+ */
+const getTracer = () => trace.getTracer(TRACER_NAME);
+
+/**
+ * Read OTEL_TRACES_EXPORTER (otlp, none; default none)
+ */
+const getExporterFromEnv = (): TracingExporter => {
+  const value = (process.env.OTEL_TRACES_EXPORTER || 'none').toLowerCase();
+  if (value !== 'otlp' && value !== 'none') {
+    throw new Error(`Invalid OTEL_TRACES_EXPORTER: ${process.env.OTEL_TRACES_EXPORTER}. Must be one of: otlp, none.`);
+  }
+  return value;
+};
+
+/**
+ * Register the global tracer provider, W3C propagator and async context manager
+ * Call once at process startup, before requests or jobs are handled. With the `none` exporter
+ * nothing is registered: spans are no-ops and jobs carry no trace context. The OTLP exporter reads
+ * its endpoint and headers from the standard OTEL_EXPORTER_OTLP_* variables.
+ */
+export const initTracing = (options: TracingOptions): void => {
+  if (provider) {
+    return;
+  }
+
+  const exporter = options.exporter ?? getExporterFromEnv();
+  if (exporter === 'none') {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || options.serviceName,
+    }),
+    // Exporters passed in (e.g. in-memory ones in tests) see each span as soon as it ends
+    spanProcessors: [
+      exporter === 'otlp' ? new BatchSpanProcessor(new OTLPTraceExporter()) : new SimpleSpanProcessor(exporter),
+    ],
+  });
+  provider.register();
+};
+
+/**
+ * Flush pending spans and unregister the tracer provider
+ * Should be called during application shutdown
+ */
+export const shutdownTracing = async (): Promise<void> => {
+  if (!provider) {
+    return;
+  }
+
+  await provider.shutdown();
+  provider = null;
+  trace.disable();
+  propagation.disable();
+  context.disable();
+};
+
+const recordError = (span: Span, error: unknown): void => {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * Trace context of the active span, for storing in job data
+ * @returns Undefined when tracing is off or no span is active
+ */
+export const injectTraceContext = (): TraceContext | undefined => {
+  const carrier: TraceContext = {};
+  propagation.inject(context.active(), carrier);
+  return carrier.traceparent ? carrier : undefined;
+};
+
+/**
+ * Run a function inside a child span of the active span
+ * The span ends when the function settles; thrown errors are recorded and rethrown.
+ * @param name - Span name, e.g. `sms.provider.send`
+ * @param attributes - Attributes known before the function runs
+ * @param fn - Work to trace; receives the span to add attributes or an error status
+ */
+export const withSpan = <T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => T | Promise<T>
+): Promise<T> => {
+  return getTracer().startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+};
+
+/**
+ * Continue the trace stored in a job's data while processing it
+ * Adds a `<queue> wait` span covering the time from when the job became ready to when a worker
+ * picked it up (first attempt only; BullMQ does not record when a retry became ready), then runs
+ * the processor inside a `<queue> process` consumer span.
+ * @param job - Job being processed
+ * @param fn - Processor; spans it starts become children of the process span
+ */
+export const traceJob = <D extends BaseJobData & { type: string }, T>(
+  job: Job<D>,
+  fn: (span: Span) => Promise<T>
+): Promise<T> => {
+  const parent = job.data.traceContext ? propagation.extract(ROOT_CONTEXT, job.data.traceContext) : ROOT_CONTEXT;
+  const attributes: Attributes = {
+    'messaging.system': 'bullmq',
+    'messaging.destination.name': job.queueName,
+    'messaging.message.id': job.id,
+    'notification.type': job.data.type,
+    'notification.batch_id': job.data.batchId,
+    'notification.attempt': job.attemptsMade + 1,
+  };
+
+  if (job.attemptsMade === 0 && job.processedOn) {
+    getTracer()
+      .startSpan(`${job.queueName} wait`, { attributes, startTime: job.timestamp + job.delay }, parent)
+      .end(job.processedOn);
+  }
+
+  return getTracer().startActiveSpan(
+    `${job.queueName} process`,
+    { kind: SpanKind.CONSUMER, attributes },
+    parent,
+    async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        // A job put back to wait (e.g. by a tenant rate limit) has not failed
+        if (!(error instanceof DelayedError)) {
+          recordError(span, error);
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+};
@@ -0,0 +1,47 @@
+import type { BaseJobData } from './index';
+
+// Email job type enum
+export enum EmailJobType {
+    WELCOME = 'welcome',
+    OTP = 'otp',
+    NOTIFICATION = 'notification',
+}
+
+// Email specific types
+export interface EmailRecipient {
+    email: string;
+    name?: string;
+}
+
+export interface WelcomeEmailData extends BaseJobData {
+    type: EmailJobType.WELCOME;
+    recipient: EmailRecipient;
+    userName: string;
+}
+
+export interface OTPEmailData extends BaseJobData {
+    type: EmailJobType.OTP;
+    recipient: EmailRecipient;
+    code: string;
+    expiryMinutes: number;
+}
+
+export interface NotificationEmailData extends BaseJobData {
+    type: EmailJobType.NOTIFICATION;
+    recipient: EmailRecipient;
+    subject: string;
+    message: string;
+    html?: string;
+    metadata?: Record<string, unknown>;
+}
+
+// Discriminated union for all email job types
+export type EmailJobData = WelcomeEmailData | OTPEmailData | NotificationEmailData;
+
+// Email template result
+export interface EmailTemplateResult {
+    subject: string;
+    html: string;
+    text: string;
+    recipient: EmailRecipient;
+}
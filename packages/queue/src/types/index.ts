@@ -1,3 +1,5 @@
+import type { EmailJobData } from './email';
+
 // SMS job type enum
 export enum SMSJobType {
     WELCOME = 'welcome',
@@ -5,22 +7,68 @@ export enum SMSJobType {
     NOTIFICATION = 'notification',
 }
 
+// Message category used by opt-out policy
+// Transactional messages (OTP, account notices) are exempt from opt-outs by default
+export type SMSCategory = 'transactional' | 'marketing';
+
 // Base job data interface
+/**
+ * W3C trace context headers of the span that created a job
+ */
+export interface TraceContext {
+    traceparent?: string;
+    tracestate?: string;
+}
+
+/**
+ * Signed-in user or service API key whose request created a job
+ */
+export interface JobCaller {
+    type: 'user' | 'api_key';
+    id: string; // User id or API key id
+    name?: string; // API key name
+}
+
+/**
+ * Tenant and caller a job is created for
+ * Job creators take these from the caller explicitly, never from the log context, so a job
+ * created outside a request cannot silently lose its tenant.
+ */
+export interface JobOwner {
+    tenantId?: string; // Unset sends with the deployment's default provider, sender ID and limits
+    createdBy?: JobCaller;
+}
+
 export interface BaseJobData {
     id: string;
     timestamp: number;
+    batchId?: string; // Set on jobs created together by a bulk job creator
+    replayOf?: string; // Id of the original job when this job replays a dead-lettered one
+    requestId?: string; // Id of the API request that created the job, for log correlation
+    createdBy?: JobCaller; // Caller of that request
+    tenantId?: string; // Tenant whose sender ID, provider account and limits apply; the deployment defaults when unset
+    traceContext?: TraceContext; // Continued by the worker so one trace spans request, queue wait and send
 }
 
 // SMS specific types
 export interface SMSRecipient {
     phoneNumber: string;
     name?: string;
+    locale?: string; // BCP 47 tag, e.g. 'sw-KE'; templates fall back through 'sw' to the configured default
+}
+
+// Reference to a stored template that replaces the built-in wording for a job
+export interface SMSTemplateReference {
+    key: string;
+    version?: number; // Pinned version; the published version is used when omitted
+    variables?: Record<string, string | number>; // Extra values merged over those derived from the job
 }
 
 export interface WelcomeSMSData extends BaseJobData {
     type: SMSJobType.WELCOME;
     recipient: SMSRecipient;
     userName: string;
+    template?: SMSTemplateReference;
 }
 
 export interface OTPSMSData extends BaseJobData {
@@ -28,12 +76,15 @@ export interface OTPSMSData extends BaseJobData {
     recipient: SMSRecipient;
     code: string;
     expiryMinutes: number;
+    template?: SMSTemplateReference;
 }
 
 export interface NotificationSMSData extends BaseJobData {
     type: SMSJobType.NOTIFICATION;
     recipient: SMSRecipient;
     message: string;
+    category?: SMSCategory; // Defaults to 'marketing' when omitted
+    template?: SMSTemplateReference; // When set, `message` is available to the template as {{message}}
     metadata?: Record<string, unknown>;
 }
 
@@ -52,3 +103,30 @@ export interface JobOptions {
     delay?: number;
     jobId?: string;
 }
+
+// Value returned by workers and stored by BullMQ as the job's return value
+export interface NotificationJobResult {
+    success: boolean;
+    jobId?: string;
+    messageId?: string;
+    segments?: number; // SMS only: parts the message was split into
+    provider?: string; // Unset when the message was skipped before reaching a provider
+    skipped?: boolean;
+    skipReason?: string;
+}
+
+export * from './email';
+
+// Entry in the dead-letter queue: an exhausted job with its payload and error history
+export interface DeadLetterJobData {
+    originalJobId: string;
+    originalQueue: string;
+    originalName: string;
+    payload: SMSJobData | EmailJobData;
+    priority?: number;
+    attemptsMade: number;
+    failedReason: string;
+    errorHistory: string[]; // Stack trace of each failed attempt, oldest first
+    createdAt: number; // When the original job was queued
+    failedAt: number;
+}
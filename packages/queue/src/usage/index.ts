@@ -0,0 +1,2 @@
+export type { SMSUsageEntry, SMSUsageLedger } from './interface';
+export { recordSMSUsage } from './recorder';
@@ -0,0 +1,25 @@
+import type { JobCaller } from '../types';
+
+/**
+ * One SMS handed to a provider, as billed
+ * A job that is sent again after a retry is recorded once per send.
+ */
+export interface SMSUsageEntry {
+  jobId: string;
+  tenantId?: string; // Unset for sends without a tenant
+  type: string; // SMS job type
+  segments: number;
+  provider: string; // Provider that accepted the message
+  cost: number; // segments × SMS_COST_PER_SEGMENT
+  currency: string;
+  createdBy?: JobCaller;
+  occurredAt: Date;
+}
+
+/**
+ * Durable usage ledger
+ * Implemented by the application (e.g. a Postgres table) and passed to the SMS worker.
+ */
+export interface SMSUsageLedger {
+  record(entry: SMSUsageEntry): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import type { SMSUsageEntry, SMSUsageLedger } from './interface';
+import { logger } from '../logging/logger';
+
+/**
+ * Record a send in the usage ledger without letting storage errors fail the job
+ * The message has already been accepted by the provider; failing now would send it twice.
+ * @param ledger - Configured usage ledger, if any
+ * @param entry - Send to record
+ */
+export const recordSMSUsage = async (
+  ledger: SMSUsageLedger | undefined,
+  entry: SMSUsageEntry
+): Promise<void> => {
+  if (!ledger) {
+    return;
+  }
+
+  try {
+    await ledger.record(entry);
+  } catch (error) {
+    logger.error('Failed to record SMS usage', { jobId: entry.jobId, tenantId: entry.tenantId, err: error });
+  }
+};
@@ -0,0 +1,230 @@
+import { Worker, type Job } from 'bullmq';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { getRedisConnection } from '../config/redis';
+import { defaultWorkerOptions } from '../config/queue-options';
+import { EMAIL_QUEUE_NAME } from '../queues/email.queue';
+import type { EmailJobData, EmailTemplateResult, NotificationJobResult } from '../types';
+import { renderWelcomeEmail } from '../templates/email/welcome';
+import { renderOTPEmail } from '../templates/email/otp';
+import { renderNotificationEmail } from '../templates/email/notification';
+import { createEmailProvider } from '../providers/email/factory';
+import type { EmailProvider } from '../providers/email/interface';
+import { recordMessageTransition } from '../persistence/recorder';
+import { moveToDeadLetter } from '../queues/dead-letter';
+import {
+    jobsCompletedTotal,
+    jobsFailedTotal,
+    jobRetriesTotal,
+    jobProcessingSeconds,
+    timeProviderCall,
+} from '../metrics/metrics';
+import type { NotificationMessageEntry } from '../persistence/interface';
+import type { NotificationWorkerOptions } from './options';
+import { logger, withLogContext } from '../logging/logger';
+import { traceJob, withSpan } from '../tracing/tracing';
+
+// Initialize email provider based on environment
+const emailProvider: EmailProvider = createEmailProvider();
+
+/**
+ * Plain-text body as it should be stored; OTP codes are masked so the log never holds live credentials
+ */
+const toLoggedMessage = (data: EmailJobData, text: string): string => {
+    return data.type === 'otp' ? text.replaceAll(data.code, '*'.repeat(data.code.length)) : text;
+};
+
+/**
+ * Mask the plaintext OTP code in job data once the job is finished
+ * Finished jobs stay in Redis for status lookups, but the code must not outlive its delivery.
+ */
+const scrubOTPCode = async (job: Job<EmailJobData>): Promise<void> => {
+    if (job.data.type !== 'otp') {
+        return;
+    }
+
+    try {
+        await job.updateData({ ...job.data, code: '*'.repeat(job.data.code.length) });
+    } catch (error) {
+        logger.error('Failed to scrub OTP code from email job', { err: error });
+    }
+};
+
+/**
+ * Process email jobs by routing to appropriate template and sending via provider
+ * @param job - BullMQ job containing email job data
+ * @param options - Worker options carrying the optional message store
+ * @returns Result object with success status and metadata
+ */
+const processEmailJob = async (
+    job: Job<EmailJobData>,
+    options: NotificationWorkerOptions
+): Promise<NotificationJobResult> => {
+    logger.info('Processing email job', { attempt: job.attemptsMade + 1 });
+
+    const attempts = job.attemptsMade + 1;
+    const labels = { queue: job.queueName, type: job.data.type };
+    const endTimer = jobProcessingSeconds.startTimer(labels);
+    let entry: Omit<NotificationMessageEntry, 'status' | 'occurredAt'> = {
+        jobId: job.id ?? job.data.id,
+        queueName: job.queueName,
+        channel: 'email',
+        type: job.data.type,
+        batchId: job.data.batchId,
+        recipient: job.data.recipient.email,
+        metadata: job.data.type === 'notification' ? job.data.metadata : undefined,
+        attempts,
+        queuedAt: new Date(job.timestamp),
+    };
+
+    await recordMessageTransition(options.messageStore, {
+        ...entry,
+        status: 'processing',
+        occurredAt: new Date(),
+    });
+
+    try {
+        // Route to appropriate template based on job type
+        const templateResult = await withSpan(
+            'email.template.render',
+            { 'notification.type': job.data.type },
+            (): EmailTemplateResult => {
+                switch (job.data.type) {
+                    case 'welcome':
+                        return renderWelcomeEmail(job.data);
+                    case 'otp':
+                        return renderOTPEmail(job.data);
+                    case 'notification':
+                        return renderNotificationEmail(job.data);
+                    default:
+                        throw new Error(`Unknown email job type: ${(job.data as { type: string }).type}`);
+                }
+            }
+        );
+
+        entry = {
+            ...entry,
+            subject: templateResult.subject,
+            message: toLoggedMessage(job.data, templateResult.text),
+        };
+
+        // Send email via provider
+        const result = await timeProviderCall('email', () =>
+            withSpan('email.provider.send', {}, async (span) => {
+                const sent = await emailProvider.send({
+                    to: templateResult.recipient.email,
+                    subject: templateResult.subject,
+                    html: templateResult.html,
+                    text: templateResult.text,
+                });
+                span.setAttribute('notification.provider', sent.provider);
+                if (!sent.success) {
+                    span.setStatus({ code: SpanStatusCode.ERROR, message: sent.error });
+                }
+                return sent;
+            })
+        );
+
+        entry = { ...entry, provider: result.provider };
+
+        if (!result.success) {
+            throw new Error(`Email send failed: ${result.error}`);
+        }
+
+        await recordMessageTransition(options.messageStore, {
+            ...entry,
+            providerMessageId: result.messageId,
+            status: 'sent',
+            occurredAt: new Date(),
+        });
+
+        await scrubOTPCode(job);
+
+        jobsCompletedTotal.inc({ ...labels, provider: result.provider });
+        endTimer({ outcome: 'completed' });
+
+        logger.info('Sent email job', { provider: result.provider, messageId: result.messageId });
+
+        return {
+            success: true,
+            jobId: job.id,
+            messageId: result.messageId,
+            provider: result.provider,
+        };
+    } catch (error) {
+        const isFinalAttempt = attempts >= (job.opts.attempts ?? 1);
+
+        await recordMessageTransition(options.messageStore, {
+            ...entry,
+            status: isFinalAttempt ? 'failed' : 'retrying',
+            error: error instanceof Error ? error.message : String(error),
+            occurredAt: new Date(),
+        });
+
+        if (isFinalAttempt) {
+            await scrubOTPCode(job);
+
+            // Expired OTP codes are worthless to replay, so only other types are dead-lettered
+            if (job.data.type !== 'otp') {
+                await moveToDeadLetter(job, error);
+            }
+
+            jobsFailedTotal.inc({ ...labels, provider: entry.provider ?? 'none' });
+        } else {
+            jobRetriesTotal.inc(labels);
+        }
+        endTimer({ outcome: isFinalAttempt ? 'failed' : 'retrying' });
+
+        throw error;
+    }
+};
+
+/**
+ * Create and configure an email worker instance
+ * @param options - Optional message store for persisting delivery history
+ * @returns Configured BullMQ Worker instance for processing email jobs
+ */
+export const createEmailWorker = (options: NotificationWorkerOptions = {}) => {
+    const worker = new Worker<EmailJobData, NotificationJobResult>(
+        EMAIL_QUEUE_NAME,
+        (job) =>
+            withLogContext(
+                {
+                    jobId: job.id,
+                    queue: job.queueName,
+                    jobType: job.data.type,
+                    batchId: job.data.batchId,
+                    requestId: job.data.requestId,
+                    tenantId: job.data.tenantId,
+                },
+                () => traceJob(job, () => processEmailJob(job, options))
+            ),
+        {
+            connection: getRedisConnection(),
+            ...defaultWorkerOptions,
+        }
+    );
+
+    // Event listeners for monitoring
+    worker.on('completed', (job) => {
+        logger.info('Email job completed', { jobId: job.id, queue: job.queueName });
+    });
+
+    worker.on('failed', (job, err) => {
+        logger.error('Email job failed', { jobId: job?.id, queue: EMAIL_QUEUE_NAME, attempts: job?.attemptsMade, err });
+    });
+
+    worker.on('error', (err) => {
+        logger.error('Email worker error', { queue: EMAIL_QUEUE_NAME, err });
+    });
+
+    return worker;
+};
+
+/**
+ * Gracefully close the email worker
+ * Should be called during application shutdown
+ * @param worker - The worker instance to close
+ */
+export const closeEmailWorker = async (worker: Worker): Promise<void> => {
+    await worker.close();
+};
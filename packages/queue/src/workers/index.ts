@@ -3,3 +3,5 @@
  */
 
 export { createSMSWorker, closeSMSWorker } from './sms.worker';
+export { createEmailWorker, closeEmailWorker } from './email.worker';
+export type { NotificationWorkerOptions } from './options';
@@ -0,0 +1,24 @@
+import type { NotificationMessageStore } from '../persistence/interface';
+import type { SuppressionStore } from '../suppression/interface';
+import type { SuppressionPolicy } from '../suppression/policy';
+import type { SMSTemplateStore } from '../templates/store';
+import type { TenantStore } from '../tenants/interface';
+import type { SMSUsageLedger } from '../usage/interface';
+
+/**
+ * Options shared by all notification worker creators
+ */
+export interface NotificationWorkerOptions {
+  /** Durable store that receives every message lifecycle transition */
+  messageStore?: NotificationMessageStore;
+  /** Opt-out list checked before each SMS is handed to the provider */
+  suppressionStore?: SuppressionStore;
+  /** Job types and categories exempt from opt-outs; defaults to OTP and transactional messages */
+  suppressionPolicy?: SuppressionPolicy;
+  /** Stored SMS templates; published versions replace the built-in welcome and OTP wording */
+  templateStore?: SMSTemplateStore;
+  /** Tenant sender IDs, provider accounts, default locales and rate limits; required for jobs with a `tenantId` */
+  tenantStore?: TenantStore;
+  /** Ledger receiving one entry per SMS sent, with its tenant, segments, provider and cost */
+  usageLedger?: SMSUsageLedger;
+}
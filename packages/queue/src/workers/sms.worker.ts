@@ -1,85 +1,370 @@
-import { Worker, Job } from 'bullmq';
+import { DelayedError, UnrecoverableError, Worker, type Job } from 'bullmq';
+import { SpanStatusCode } from '@opentelemetry/api';
 import { getRedisConnection } from '../config/redis';
 import { defaultWorkerOptions } from '../config/queue-options';
 import { SMS_QUEUE_NAME } from '../queues/sms.queue';
-import type { SMSJobData } from '../types';
-import { renderWelcomeSMS } from '../templates/sms/welcome';
-import { renderOTPSMS } from '../templates/sms/otp';
-import { renderNotificationSMS } from '../templates/sms/notification';
+import type { SMSJobData, NotificationJobResult, TemplateResult } from '../types';
+import { renderSMSJob } from '../templates/sms/render';
+import { TemplateRenderError } from '../templates/renderer';
 import { createSMSProvider } from '../providers/sms/factory';
 import type { SMSProvider } from '../providers/sms/interface';
+import { recordMessageTransition } from '../persistence/recorder';
+import { moveToDeadLetter } from '../queues/dead-letter';
+import {
+    jobsCompletedTotal,
+    jobsFailedTotal,
+    jobRetriesTotal,
+    jobProcessingSeconds,
+    timeProviderCall,
+} from '../metrics/metrics';
+import type { NotificationMessageEntry } from '../persistence/interface';
+import type { NotificationWorkerOptions } from './options';
+import { parsePhoneNumber } from '../phone/phone';
+import { checkSuppression } from '../suppression/policy';
+import { applySegmentPolicy, estimateSMSCost } from '../segments/segments';
+import { logger, withLogContext } from '../logging/logger';
+import { traceJob, withSpan } from '../tracing/tracing';
+import { TenantError, type Tenant } from '../tenants/interface';
+import { createTenantSMSProviderCache, type TenantSMSProviderCache } from '../tenants/providers';
+import { consumeTenantRateLimit } from '../tenants/rate-limit';
+import { checkSMSQuota, recordSMSQuotaSend } from '../tenants/quota';
+import { recordSMSUsage } from '../usage/recorder';
 
 // Initialize SMS provider based on environment
 const smsProvider: SMSProvider = createSMSProvider();
 
 /**
- * Process SMS jobs by routing to appropriate template and sending via provider
- * @param job - BullMQ job containing SMS job data
- * @returns Result object with success status and metadata
+ * Tenant of a job and the provider to send it with; jobs without a tenant use the environment's provider
  */
-const processSMSJob = async (job: Job<SMSJobData>) => {
-    console.log(`Processing SMS job ${job.id} of type ${job.data.type}`);
-
-    let templateResult;
-
-    // Route to appropriate template based on job type
-    switch (job.data.type) {
-        case 'welcome':
-            templateResult = renderWelcomeSMS(job.data);
-            break;
-        case 'otp':
-            templateResult = renderOTPSMS(job.data);
-            break;
-        case 'notification':
-            templateResult = renderNotificationSMS(job.data);
-            break;
-        default:
-            throw new Error(`Unknown SMS job type: ${(job.data as any).type}`);
+const resolveSender = async (
+    data: SMSJobData,
+    tenants: TenantSMSProviderCache | undefined
+): Promise<{ tenant?: Tenant; provider: SMSProvider }> => {
+    if (!data.tenantId) {
+        return { provider: smsProvider };
     }
 
-    // Send SMS via provider
-    const result = await smsProvider.send(
-        templateResult.recipient.phoneNumber,
-        templateResult.message
-    );
+    // A missing tenant or incomplete account needs an operator, not a retry
+    if (!tenants) {
+        throw new UnrecoverableError(`Job belongs to tenant ${data.tenantId} but the worker has no tenant store`);
+    }
+    try {
+        return await tenants.get(data.tenantId);
+    } catch (error) {
+        if (error instanceof TenantError) {
+            throw new UnrecoverableError(error.message);
+        }
+        throw error;
+    }
+};
 
-    if (!result.success) {
-        throw new Error(`SMS send failed: ${result.error}`);
+/**
+ * Job data with the tenant's default locale applied to recipients that have none
+ */
+const withTenantLocale = (data: SMSJobData, tenant: Tenant | undefined): SMSJobData => {
+    if (data.recipient.locale || !tenant?.defaultLocale) {
+        return data;
     }
+    return { ...data, recipient: { ...data.recipient, locale: tenant.defaultLocale } };
+};
 
-    console.log(
-        `Successfully sent SMS job ${job.id} via ${result.provider}, messageId: ${result.messageId}`
-    );
+/**
+ * Rendered message as it should be stored; OTP codes are masked so the log never holds live credentials
+ */
+const toLoggedMessage = (data: SMSJobData, message: string): string => {
+    return data.type === 'otp' ? message.replaceAll(data.code, '*'.repeat(data.code.length)) : message;
+};
 
-    return {
-        success: true,
-        jobId: job.id,
-        messageId: result.messageId,
-        provider: result.provider,
+/**
+ * Mask the plaintext OTP code in job data once the job is finished
+ * Finished jobs stay in Redis for status lookups, but the code must not outlive its delivery.
+ */
+const scrubOTPCode = async (job: Job<SMSJobData>): Promise<void> => {
+    if (job.data.type !== 'otp') {
+        return;
+    }
+
+    try {
+        await job.updateData({ ...job.data, code: '*'.repeat(job.data.code.length) });
+    } catch (error) {
+        logger.error('Failed to scrub OTP code from SMS job', { err: error });
+    }
+};
+
+/**
+ * Process SMS jobs by routing to appropriate template and sending via provider
+ * @param job - BullMQ job containing SMS job data
+ * @param token - Lock token of the job, needed to delay it when its tenant is over its rate limit
+ * @param options - Worker options carrying the optional message, suppression, template and tenant stores
+ * @param tenants - Per-tenant providers, present when the worker has a tenant store
+ * @returns Result object with success status and metadata
+ */
+const processSMSJob = async (
+    job: Job<SMSJobData>,
+    token: string | undefined,
+    options: NotificationWorkerOptions,
+    tenants: TenantSMSProviderCache | undefined
+): Promise<NotificationJobResult> => {
+    logger.info('Processing SMS job', { attempt: job.attemptsMade + 1 });
+
+    const attempts = job.attemptsMade + 1;
+    const labels = { queue: job.queueName, type: job.data.type };
+    const endTimer = jobProcessingSeconds.startTimer(labels);
+    let entry: Omit<NotificationMessageEntry, 'status' | 'occurredAt'> = {
+        jobId: job.id ?? job.data.id,
+        queueName: job.queueName,
+        channel: 'sms',
+        type: job.data.type,
+        batchId: job.data.batchId,
+        recipient: job.data.recipient.phoneNumber,
+        metadata: job.data.type === 'notification' ? job.data.metadata : undefined,
+        attempts,
+        queuedAt: new Date(job.timestamp),
     };
+
+    await recordMessageTransition(options.messageStore, {
+        ...entry,
+        status: 'processing',
+        occurredAt: new Date(),
+    });
+
+    try {
+        const { tenant, provider } = await resolveSender(job.data, tenants);
+        let templateResult: TemplateResult;
+
+        // Resolve the stored or built-in template for this job type
+        try {
+            templateResult = await withSpan('sms.template.render', { 'notification.type': job.data.type }, () =>
+                renderSMSJob(withTenantLocale(job.data, tenant), options.templateStore)
+            );
+        } catch (error) {
+            // A missing template or variable will not appear on retry
+            if (error instanceof TemplateRenderError) {
+                throw new UnrecoverableError(error.message);
+            }
+            throw error;
+        }
+
+        // Templates, locale variants and the welcome and OTP wording are only known once rendered;
+        // a message that is too long now will be too long on every retry
+        const policy = applySegmentPolicy(templateResult.message);
+        const message = policy.message;
+        const segmentInfo = policy.info;
+        const { segments, encoding } = segmentInfo;
+
+        entry = {
+            ...entry,
+            message: toLoggedMessage(job.data, message),
+            segments,
+            encoding,
+        };
+
+        if (policy.status === 'rejected') {
+            throw new UnrecoverableError(policy.reason);
+        }
+        if (policy.status === 'transliterated') {
+            logger.info('Transliterated SMS to fit the segment limit', {
+                segments,
+                originalSegments: policy.originalInfo.segments,
+            });
+        }
+
+        // Retrying cannot fix a malformed number, so fail the job immediately
+        const phone = parsePhoneNumber(templateResult.recipient.phoneNumber);
+        if (!phone.valid) {
+            throw new UnrecoverableError(`Invalid phone number: ${phone.message}`);
+        }
+
+        // Honor opt-outs before the message reaches the provider; skipped jobs complete without retrying
+        if (options.suppressionStore) {
+            const suppression = await checkSuppression(
+                options.suppressionStore,
+                job.data,
+                phone.e164,
+                options.suppressionPolicy
+            );
+
+            if (suppression.suppressed) {
+                await recordMessageTransition(options.messageStore, {
+                    ...entry,
+                    status: 'skipped',
+                    error: suppression.reason,
+                    occurredAt: new Date(),
+                });
+
+                logger.info('Skipped SMS job', { reason: suppression.reason });
+
+                jobsCompletedTotal.inc({ ...labels, provider: 'none' });
+                endTimer({ outcome: 'skipped' });
+
+                return {
+                    success: false,
+                    jobId: job.id,
+                    skipped: true,
+                    skipReason: suppression.reason,
+                };
+            }
+        }
+
+        // Quotas are also enforced at enqueue time; this catches schedule runs, replays and lowered quotas
+        if (tenant?.quota) {
+            const quota = await checkSMSQuota(tenant.id, tenant.quota);
+            if (!quota.allowed) {
+                throw new UnrecoverableError(`Tenant ${tenant.id} reached its ${quota.period} SMS quota of ${quota.limit}`);
+            }
+        }
+
+        // Hold the job until the tenant's next window instead of failing it; this is not a retry
+        if (tenant?.rateLimit) {
+            const limit = await consumeTenantRateLimit(tenant.id, tenant.rateLimit);
+            if (!limit.allowed) {
+                await recordMessageTransition(options.messageStore, {
+                    ...entry,
+                    status: 'retrying',
+                    error: `Tenant rate limit reached; delayed until ${new Date(limit.retryAt).toISOString()}`,
+                    occurredAt: new Date(),
+                });
+                await job.moveToDelayed(limit.retryAt, token);
+                throw new DelayedError();
+            }
+        }
+
+        // Send SMS via provider
+        const result = await timeProviderCall('sms', () =>
+            withSpan('sms.provider.send', { 'notification.segments': segments }, async (span) => {
+                const sent = await provider.send(phone.e164, message);
+                span.setAttribute('notification.provider', sent.provider);
+                if (!sent.success) {
+                    span.setStatus({ code: SpanStatusCode.ERROR, message: sent.error });
+                }
+                return sent;
+            })
+        );
+
+        entry = { ...entry, provider: result.provider };
+
+        if (!result.success) {
+            // The provider rejected the recipient; a retry would be rejected the same way
+            if (result.recipientError) {
+                throw new UnrecoverableError(`SMS send failed: ${result.error}`);
+            }
+            throw new Error(`SMS send failed: ${result.error}`);
+        }
+
+        await recordMessageTransition(options.messageStore, {
+            ...entry,
+            providerMessageId: result.messageId,
+            status: 'sent',
+            occurredAt: new Date(),
+        });
+
+        const cost = estimateSMSCost(segmentInfo);
+        await recordSMSUsage(options.usageLedger, {
+            jobId: entry.jobId,
+            tenantId: tenant?.id,
+            type: job.data.type,
+            segments,
+            provider: result.provider,
+            cost: cost.total,
+            currency: cost.currency,
+            createdBy: job.data.createdBy,
+            occurredAt: new Date(),
+        });
+
+        if (tenant) {
+            await recordSMSQuotaSend(tenant.id).catch((error) => {
+                logger.error('Failed to count SMS against tenant quota', { err: error });
+            });
+        }
+
+        await scrubOTPCode(job);
+
+        jobsCompletedTotal.inc({ ...labels, provider: result.provider });
+        endTimer({ outcome: 'completed' });
+
+        logger.info('Sent SMS job', { provider: result.provider, messageId: result.messageId, segments });
+
+        return {
+            success: true,
+            jobId: job.id,
+            messageId: result.messageId,
+            segments,
+            provider: result.provider,
+        };
+    } catch (error) {
+        if (error instanceof DelayedError) {
+            endTimer({ outcome: 'delayed' });
+            throw error;
+        }
+
+        const isFinalAttempt = error instanceof UnrecoverableError || attempts >= (job.opts.attempts ?? 1);
+
+        await recordMessageTransition(options.messageStore, {
+            ...entry,
+            status: isFinalAttempt ? 'failed' : 'retrying',
+            error: error instanceof Error ? error.message : String(error),
+            occurredAt: new Date(),
+        });
+
+        if (isFinalAttempt) {
+            await scrubOTPCode(job);
+
+            // Expired OTP codes are worthless to replay, so only other types are dead-lettered
+            if (job.data.type !== 'otp') {
+                await moveToDeadLetter(job, error);
+            }
+
+            jobsFailedTotal.inc({ ...labels, provider: entry.provider ?? 'none' });
+        } else {
+            jobRetriesTotal.inc(labels);
+        }
+        endTimer({ outcome: isFinalAttempt ? 'failed' : 'retrying' });
+
+        throw error;
+    }
 };
 
 /**
  * Create and configure an SMS worker instance
+ * @param options - Optional message store for persisting delivery history
  * @returns Configured BullMQ Worker instance for processing SMS jobs
  */
-export const createSMSWorker = () => {
-    const worker = new Worker<SMSJobData>(SMS_QUEUE_NAME, processSMSJob, {
-        connection: getRedisConnection(),
-        ...defaultWorkerOptions,
-    });
+export const createSMSWorker = (options: NotificationWorkerOptions = {}) => {
+    const tenants = options.tenantStore
+        ? createTenantSMSProviderCache(options.tenantStore, { defaultProvider: smsProvider })
+        : undefined;
+
+    const worker = new Worker<SMSJobData, NotificationJobResult>(
+        SMS_QUEUE_NAME,
+        (job, token) =>
+            withLogContext(
+                {
+                    jobId: job.id,
+                    queue: job.queueName,
+                    jobType: job.data.type,
+                    batchId: job.data.batchId,
+                    requestId: job.data.requestId,
+                    tenantId: job.data.tenantId,
+                },
+                () => traceJob(job, () => processSMSJob(job, token, options, tenants))
+            ),
+        {
+            connection: getRedisConnection(),
+            ...defaultWorkerOptions,
+        }
+    );
 
     // Event listeners for monitoring
     worker.on('completed', (job) => {
-        console.log(`SMS job ${job.id} completed`);
+        logger.info('SMS job completed', { jobId: job.id, queue: job.queueName });
     });
 
     worker.on('failed', (job, err) => {
-        console.error(`SMS job ${job?.id} failed:`, err);
+        logger.error('SMS job failed', { jobId: job?.id, queue: SMS_QUEUE_NAME, attempts: job?.attemptsMade, err });
     });
 
     worker.on('error', (err) => {
-        console.error('SMS worker error:', err);
+        logger.error('SMS worker error', { queue: SMS_QUEUE_NAME, err });
     });
 
     return worker;